@@ -0,0 +1,162 @@
+// Fires parallel loan applications at a running API to check that eligibility and the pool
+// cannot be overdrawn by requests that arrive together.
+//
+//   1. Point DATABASE_URL at a local, throwaway Postgres and start the API (npm run dev)
+//   2. npm run race:loans            (API_URL defaults to http://localhost:$PORT)
+//
+// The script creates its own members with deposits, runs the scenarios below, then removes
+// everything it created. Audit log entries stay behind, as the table is append-only.
+import 'dotenv/config';
+import bcrypt from 'bcryptjs';
+import prisma from '../src/lib/prisma';
+
+const API_URL = process.env.API_URL || `http://localhost:${process.env.PORT || 3000}`;
+const MEMBERS = 5;
+const DEPOSIT = 30000;
+const PARALLEL = 8;
+const PASSWORD = 'race-test-password';
+
+interface Member {
+  id: string;
+  phone: string;
+  token: string;
+}
+
+interface Outcome {
+  status: number;
+  body: { id?: string; error?: string };
+}
+
+function assertLocalDatabase() {
+  const url = new URL(process.env.DATABASE_URL || '');
+  if (!['localhost', '127.0.0.1', '::1'].includes(url.hostname)) {
+    throw new Error(`Refusing to run against ${url.hostname}: this script writes test members and loans`);
+  }
+}
+
+async function api(path: string, token: string | null, init: { method?: string; body?: unknown } = {}): Promise<Outcome> {
+  const res = await fetch(`${API_URL}${path}`, {
+    method: init.method || 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {})
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body)
+  });
+  return { status: res.status, body: await res.json().catch(() => ({})) };
+}
+
+// Created members are added to the list as they go, so a failure halfway still cleans up
+async function createMembers(tag: string, members: Member[]) {
+  const passwordHash = await bcrypt.hash(PASSWORD, 10);
+
+  for (let i = 0; i < MEMBERS; i++) {
+    const phone = `9${tag}${i}`.slice(0, 10).padEnd(10, '0');
+    const user = await prisma.users.create({
+      data: {
+        name: `Race Test ${tag}-${i}`,
+        email: `race-${tag}-${i}@example.test`,
+        phone,
+        password_hash: passwordHash,
+        role: 'member',
+        status: 'active',
+        joined_at: new Date()
+      }
+    });
+    const member = { id: user.id, phone, token: '' };
+    members.push(member);
+
+    await prisma.deposits.create({
+      data: {
+        user_id: user.id,
+        amount: DEPOSIT,
+        member_month: 1,
+        deposit_date: new Date(),
+        cumulative_total: 0,
+        notes: 'Loan race test'
+      }
+    });
+
+    const login = await api('/api/auth/login', null, { method: 'POST', body: { phone, password: PASSWORD } });
+    const token = (login.body as { token?: string }).token;
+    if (!token) {
+      throw new Error(`Login failed for ${phone}: ${login.status} ${JSON.stringify(login.body)}`);
+    }
+    member.token = token;
+  }
+}
+
+async function eligibility(member: Member) {
+  const result = await api('/api/loans/eligibility', member.token);
+  return result.body as unknown as { maxEligible: number; disbursableNow: number };
+}
+
+function requestLoan(member: Member, amount: number) {
+  return api('/api/loans/request', member.token, { method: 'POST', body: { amount } });
+}
+
+function report(name: string, outcomes: Outcome[], allowed: number) {
+  const created = outcomes.filter(o => o.status === 201).length;
+  const errors = [...new Set(outcomes.filter(o => o.status !== 201).map(o => `${o.status} ${o.body.error}`))];
+  const ok = created <= allowed && outcomes.every(o => o.status === 201 || o.status === 400);
+  console.log(`${ok ? 'PASS' : 'FAIL'} ${name}: ${created} of ${outcomes.length} created (at most ${allowed} allowed)`);
+  for (const error of errors) console.log(`     ${error}`);
+  return ok;
+}
+
+// One member sends the same full-eligibility application several times at once
+async function sameMember(member: Member) {
+  const { maxEligible } = await eligibility(member);
+  const amount = Math.floor(maxEligible);
+  const outcomes = await Promise.all(Array.from({ length: PARALLEL }, () => requestLoan(member, amount)));
+  return report(`one member, ${PARALLEL} parallel requests of ${amount}`, outcomes, 1);
+}
+
+// Several members each ask for an amount they are individually eligible for, but which the
+// pool cannot cover for all of them together
+async function manyMembers(members: Member[]) {
+  const limits = await Promise.all(members.map(eligibility));
+  const amount = Math.floor(Math.min(...limits.map(l => l.maxEligible)));
+  const disbursableNow = limits[0].disbursableNow;
+  if (amount <= 0) {
+    console.log('SKIP many members: the pool has nothing left to lend');
+    return true;
+  }
+
+  const allowed = Math.floor(disbursableNow / amount);
+  if (allowed >= members.length) {
+    console.log(`NOTE many members: the pool (${disbursableNow}) covers every request, so this run cannot show an overdraw`);
+  }
+  const outcomes = await Promise.all(members.map(member => requestLoan(member, amount)));
+  return report(`${members.length} members, parallel requests of ${amount} against ${disbursableNow} left in the pool`, outcomes, allowed);
+}
+
+async function cleanup(members: Member[]) {
+  const ids = members.map(m => m.id);
+  await prisma.loans.deleteMany({ where: { user_id: { in: ids } } });
+  await prisma.deposits.deleteMany({ where: { user_id: { in: ids } } });
+  await prisma.users.deleteMany({ where: { id: { in: ids } } });
+}
+
+async function main() {
+  assertLocalDatabase();
+  const tag = String(Date.now()).slice(-6);
+  const members: Member[] = [];
+
+  try {
+    await createMembers(tag, members);
+    const results = [
+      await sameMember(members[0]),
+      await manyMembers(members.slice(1))
+    ];
+    process.exitCode = results.every(Boolean) ? 0 : 1;
+  } finally {
+    await cleanup(members);
+    await prisma.$disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -3,6 +3,7 @@ import express from 'express';
 import cors from 'cors';
 import swaggerUi from 'swagger-ui-express';
 import { swaggerSpec } from './swagger';
+import { startScheduler } from './jobs/scheduler';
 
 import authRoutes from './routes/auth';
 import depositRoutes from './routes/deposits';
@@ -10,6 +11,7 @@ import loanRoutes from './routes/loans';
 import paymentRoutes from './routes/payments';
 import adminRoutes from './routes/admin';
 import interestRoutes from './routes/interest';
+import reportRoutes from './routes/reports';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -29,6 +31,15 @@ app.use(cors({
   credentials: true
 }));
 
+// Behind a proxy (Render and similar hosts use one), set TRUST_PROXY so the client IP in the
+// audit log and rate limits comes from X-Forwarded-For. Off when unset: the header is then ignored,
+// since anyone can send it. Takes a hop count, true/false, or addresses/subnets as Express accepts.
+const trustProxy = process.env.TRUST_PROXY?.trim();
+if (trustProxy) {
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? parseInt(trustProxy)
+    : trustProxy === 'true' ? true : trustProxy === 'false' ? false : trustProxy);
+}
+
 app.use(express.json());
 
 // Swagger docs
@@ -41,6 +52,7 @@ app.use('/api/loans', loanRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/interest', interestRoutes);
+app.use('/api/reports', reportRoutes);
 
 // Health check
 app.get('/health', (req, res) => {
@@ -49,4 +61,5 @@ app.get('/health', (req, res) => {
 
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  startScheduler();
 });
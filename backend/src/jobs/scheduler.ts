@@ -0,0 +1,116 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { Prisma } from '@prisma/client';
+import os from 'os';
+import prisma from '../lib/prisma';
+import { recordAudit } from '../utils/audit';
+import { JOBS, JobDefinition } from './tasks';
+
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+const tasks = new Map<string, ScheduledTask>();
+
+// A run still marked 'running' after this long was left behind by an instance that stopped mid-run
+const STALE_RUN_MINUTES = parseInt(process.env.JOBS_STALE_MINUTES || '60');
+
+export function findJob(name: string): JobDefinition | undefined {
+  return JOBS.find(job => job.name === name);
+}
+
+// Claim a run by inserting its job_runs row. Two unique keys make it the lock: (job_name, scheduled_for)
+// lets only the first of several instances firing the same schedule in, and idx_job_runs_running
+// allows one 'running' row per job, so a run cannot start while another is still going.
+async function claimRun(job: JobDefinition, scheduledFor: Date, trigger: 'schedule' | 'manual', triggeredBy: string | null) {
+  try {
+    return await prisma.job_runs.create({
+      data: {
+        job_name: job.name,
+        trigger,
+        scheduled_for: scheduledFor,
+        status: 'running',
+        instance_id: INSTANCE_ID,
+        triggered_by: triggeredBy
+      }
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Mark abandoned runs of a job as failed, so they no longer block new runs
+async function failStaleRuns(job: JobDefinition) {
+  const cutoff = new Date(Date.now() - STALE_RUN_MINUTES * 60 * 1000);
+  const { count } = await prisma.job_runs.updateMany({
+    where: { job_name: job.name, status: 'running', started_at: { lt: cutoff } },
+    data: {
+      status: 'failed',
+      error: `Still running after ${STALE_RUN_MINUTES} minutes; the instance probably stopped mid-run`,
+      finished_at: new Date()
+    }
+  });
+  if (count > 0) {
+    console.warn(`Marked ${count} stale ${job.name} run(s) as failed`);
+  }
+}
+
+// Run a job once and record the outcome.
+// Returns null if another instance already claimed this slot or the job is still running.
+export async function runJob(
+  job: JobDefinition,
+  options: { scheduledFor?: Date; trigger?: 'schedule' | 'manual'; triggeredBy?: string | null } = {}
+) {
+  await failStaleRuns(job);
+
+  const run = await claimRun(job, options.scheduledFor || new Date(), options.trigger || 'manual', options.triggeredBy || null);
+  if (!run) return null;
+
+  try {
+    const result = await job.run();
+    return prisma.job_runs.update({
+      where: { id: run.id },
+      data: { status: 'succeeded', result, finished_at: new Date() }
+    });
+  } catch (error) {
+    console.error(`Job ${job.name} failed:`, error);
+    return prisma.job_runs.update({
+      where: { id: run.id },
+      data: { status: 'failed', error: error instanceof Error ? error.message : String(error), finished_at: new Date() }
+    });
+  }
+}
+
+export function getNextRun(name: string): Date | null {
+  return tasks.get(name)?.getNextRun() || null;
+}
+
+// Register every job with its cron schedule. Set JOBS_DISABLED=true to keep an instance out of it.
+export function startScheduler() {
+  if (process.env.JOBS_DISABLED === 'true') {
+    console.log('Background jobs disabled');
+    return;
+  }
+
+  for (const job of JOBS) {
+    const task = cron.schedule(job.schedule, async (context) => {
+      // Truncate to the minute so every instance claims the same slot
+      const scheduledFor = new Date(context.date);
+      scheduledFor.setSeconds(0, 0);
+      try {
+        const run = await runJob(job, { scheduledFor, trigger: 'schedule' });
+        if (run) {
+          await recordAudit(null, { action: 'job.run', entityType: 'job_runs', entityId: run.id, after: { job_name: run.job_name, status: run.status, result: run.result } });
+        }
+      } catch (error) {
+        console.error(`Scheduled ${job.name} run failed:`, error);
+      }
+    }, {
+      name: job.name,
+      noOverlap: true,
+      timezone: process.env.JOBS_TIMEZONE
+    });
+    tasks.set(job.name, task);
+  }
+
+  console.log(`Scheduled ${JOBS.length} background jobs`);
+}
@@ -0,0 +1,131 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { money, toAmount } from '../lib/money';
+import { FUND_MEMBER_ROLES } from '../lib/permissions';
+import { assessPenalties } from '../utils/penalties';
+import { createPoolSnapshot } from '../utils/snapshots';
+
+export type JobResult = Prisma.InputJsonValue;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  // Cron expression (minute hour day-of-month month day-of-week)
+  schedule: string;
+  run: () => Promise<JobResult>;
+}
+
+// Snapshot the pool on the last day of the month (runs daily late evening, acts only on the last day)
+async function monthEndSnapshot(): Promise<JobResult> {
+  const today = new Date();
+  const tomorrow = new Date(today);
+  tomorrow.setDate(today.getDate() + 1);
+
+  if (tomorrow.getMonth() === today.getMonth()) {
+    return { skipped: 'Not the last day of the month' };
+  }
+
+  const monthYear = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}`;
+  const existing = await prisma.monthly_pool_snapshot.findFirst({ where: { month_year: monthYear } });
+  if (existing) {
+    return { skipped: `Snapshot for ${monthYear} already exists`, fund_month: existing.fund_month };
+  }
+
+  const latest = await prisma.monthly_pool_snapshot.aggregate({ _max: { fund_month: true } });
+  const fundMonth = (latest._max.fund_month || 0) + 1;
+
+  const snapshot = await createPoolSnapshot(fundMonth, monthYear, null);
+  return {
+    fund_month: snapshot.fund_month,
+    month_year: snapshot.month_year,
+    total_pool_amount: Number(snapshot.total_pool_amount),
+    total_pool_units: snapshot.total_pool_units
+  };
+}
+
+// Charge late penalties and report what is overdue
+async function overdueScan(): Promise<JobResult> {
+  const today = new Date();
+  const penalties = await assessPenalties(today);
+
+  const overdueEmis = await prisma.emi_schedule.findMany({
+    where: { is_paid: false, superseded_at: null, due_date: { lt: today }, loans: { status: 'active' } },
+    select: { loan_id: true, loans: { select: { user_id: true } } }
+  });
+  const overduePreEmis = await prisma.pre_emi_interest.findMany({
+    where: { is_paid: false, due_date: { lt: today }, loans: { status: 'active' } },
+    select: { loan_id: true, loans: { select: { user_id: true } } }
+  });
+
+  const rows = [...overdueEmis, ...overduePreEmis];
+  return {
+    penalties_raised: penalties,
+    overdue_emis: overdueEmis.length,
+    overdue_pre_emis: overduePreEmis.length,
+    loans: new Set(rows.map(r => r.loan_id)).size,
+    members: new Set(rows.map(r => r.loans.user_id)).size
+  };
+}
+
+// Find active members whose deposits are behind the minimum for their member month
+async function depositDefaulterScan(): Promise<JobResult> {
+  const setting = await prisma.fund_settings.findUnique({
+    where: { setting_key: 'min_monthly_deposit' }
+  });
+  const minMonthly = parseInt(setting?.setting_value || '300');
+  const today = new Date();
+
+  const members = await prisma.users.findMany({
+    where: { role: { in: FUND_MEMBER_ROLES }, status: 'active', joined_at: { not: null } },
+    select: { id: true, name: true, phone: true, joined_at: true }
+  });
+
+  const totals = await prisma.deposits.groupBy({
+    by: ['user_id'],
+    _sum: { amount: true }
+  });
+  const totalByUser = new Map(totals.map(t => [t.user_id, Number(t._sum.amount || 0)]));
+
+  const defaulters = [];
+  for (const member of members) {
+    const joined = member.joined_at!;
+    const memberMonth = (today.getFullYear() - joined.getFullYear()) * 12 + today.getMonth() - joined.getMonth() + 1;
+    const required = minMonthly * memberMonth;
+    const deposited = totalByUser.get(member.id) || 0;
+
+    if (deposited < required) {
+      defaulters.push({
+        user_id: member.id,
+        name: member.name,
+        phone: member.phone,
+        member_month: memberMonth,
+        required,
+        deposited,
+        shortfall: toAmount(money(required).minus(deposited))
+      });
+    }
+  }
+
+  return { checked: members.length, defaulters };
+}
+
+export const JOBS: JobDefinition[] = [
+  {
+    name: 'month_end_snapshot',
+    description: 'Create the monthly pool snapshot on the last day of each month',
+    schedule: '30 23 * * *',
+    run: monthEndSnapshot
+  },
+  {
+    name: 'overdue_scan',
+    description: 'Charge late penalties and count overdue EMIs and pre-EMI interest',
+    schedule: '0 1 * * *',
+    run: overdueScan
+  },
+  {
+    name: 'deposit_defaulter_scan',
+    description: 'List active members whose deposits are behind the monthly minimum',
+    schedule: '0 9 5 * *',
+    run: depositDefaulterScan
+  }
+];
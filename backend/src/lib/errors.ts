@@ -0,0 +1,8 @@
+// Error carrying the HTTP status a route should respond with.
+// Thrown from shared logic (e.g. inside a transaction) so the route can map it back.
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
@@ -0,0 +1,75 @@
+import Decimal from 'decimal.js';
+
+// How amounts are rounded to the paisa. Banker's rounding (half to even) is the default so
+// rounding errors do not all lean the same way over a long schedule.
+const ROUNDING_MODES = {
+  half_even: Decimal.ROUND_HALF_EVEN,
+  half_up: Decimal.ROUND_HALF_UP
+};
+
+type RoundingMode = keyof typeof ROUNDING_MODES;
+
+const roundingMode = (process.env.MONEY_ROUNDING || 'half_even') as RoundingMode;
+if (!(roundingMode in ROUNDING_MODES)) {
+  throw new Error(`MONEY_ROUNDING must be one of: ${Object.keys(ROUNDING_MODES).join(', ')}`);
+}
+
+// Own Decimal constructor, so these settings do not change the Decimal that Prisma uses
+const Money = Decimal.clone({ precision: 40, rounding: ROUNDING_MODES[roundingMode] });
+
+// Numbers, strings, and Decimal values read from Prisma are all accepted
+export type MoneyInput = Decimal.Value | { toString(): string } | null | undefined;
+
+export function money(value: MoneyInput): Decimal {
+  if (value === null || value === undefined) return new Money(0);
+  return new Money(typeof value === 'number' ? value : value.toString());
+}
+
+export function roundMoney(value: MoneyInput): Decimal {
+  return money(value).toDecimalPlaces(2);
+}
+
+// Rounded amount as a plain number, for JSON responses and Prisma writes
+export function toAmount(value: MoneyInput): number {
+  return roundMoney(value).toNumber();
+}
+
+export function minMoney(a: MoneyInput, b: MoneyInput): Decimal {
+  const left = money(a);
+  const right = money(b);
+  return left.lessThan(right) ? left : right;
+}
+
+export function maxMoney(a: MoneyInput, b: MoneyInput): Decimal {
+  const left = money(a);
+  const right = money(b);
+  return left.greaterThan(right) ? left : right;
+}
+
+export function sumMoney(values: MoneyInput[]): Decimal {
+  return values.reduce<Decimal>((sum, value) => sum.plus(money(value)), money(0));
+}
+
+// Split an amount in proportion to weights so the parts always add up to it exactly.
+// Each part is rounded down to the paisa, then the paise left over go one at a time to the
+// parts that lost the most in rounding (largest remainder). Ties go to the earlier part.
+export function allocate(total: MoneyInput, weights: MoneyInput[]): Decimal[] {
+  const weightTotal = sumMoney(weights);
+  if (weightTotal.isZero()) {
+    throw new Error('Cannot allocate over weights that add up to zero');
+  }
+
+  const paise = roundMoney(total).times(100);
+  const exact = weights.map(weight => paise.times(money(weight)).div(weightTotal));
+  const parts = exact.map(share => share.floor());
+
+  const leftover = paise.minus(sumMoney(parts)).toNumber();
+  const byRemainder = parts
+    .map((part, i) => ({ i, remainder: exact[i].minus(part) }))
+    .sort((a, b) => b.remainder.comparedTo(a.remainder) || a.i - b.i);
+  for (const { i } of byRemainder.slice(0, leftover)) {
+    parts[i] = parts[i].plus(1);
+  }
+
+  return parts.map(part => part.div(100));
+}
@@ -0,0 +1,42 @@
+import { user_role } from '@prisma/client';
+
+// What a user may do. Routes check these, never role names, so roles can change without
+// touching the routes.
+export const PERMISSIONS = [
+  'fund.view',        // See every member's deposits, loans, payments, settings and jobs
+  'members.view',     // List members
+  'members.approve',  // Approve, reject and directly register members
+  'members.manage',   // Deactivate, unlock, sign out, reset passwords, purge
+  'roles.assign',     // Change a user's role
+  'deposits.record',  // Record, import, correct and reverse deposits
+  'payments.record',  // Record EMI and pre-EMI payments for any member, assess penalties
+  'loans.manage',     // Review, approve, reject, disburse, default and recover loans
+  'interest.manage',  // Record interest and create pool snapshots
+  'settings.manage',  // Change fund settings and interest brackets
+  'jobs.run',         // Run background jobs by hand
+  'audit.view',       // Read the audit log and failed logins
+  'reports.export'    // Download ledger exports
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLES: user_role[] = ['admin', 'treasurer', 'auditor', 'secretary', 'member'];
+
+const ROLE_PERMISSIONS: Record<user_role, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  treasurer: ['fund.view', 'members.view', 'deposits.record', 'payments.record', 'reports.export'],
+  auditor: ['fund.view', 'members.view', 'audit.view', 'reports.export'],
+  secretary: ['members.view', 'members.approve'],
+  member: []
+};
+
+// Office bearers are still fund members: they deposit, borrow and earn interest like everyone else
+export const FUND_MEMBER_ROLES: user_role[] = ['member', 'treasurer', 'auditor', 'secretary'];
+
+export function permissionsFor(role: string | null | undefined): Permission[] {
+  return [...(ROLE_PERMISSIONS[role as user_role] || [])];
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return (ROLE_PERMISSIONS[role as user_role] || []).includes(permission);
+}
@@ -1,33 +1,59 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { getActiveSession } from '../utils/sessions';
+import { hasPermission, Permission } from '../lib/permissions';
 
 export interface AuthRequest extends Request {
   user?: {
     id: string;
     email: string;
     role: string;
+    sid?: string;
   };
 }
 
-export const authenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
+export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
   const token = req.headers.authorization?.split(' ')[1];
   
   if (!token) {
     return res.status(401).json({ error: 'No token provided' });
   }
 
+  let decoded: AuthRequest['user'];
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as AuthRequest['user'];
-    req.user = decoded;
-    next();
+    decoded = jwt.verify(token, process.env.JWT_SECRET!) as AuthRequest['user'];
   } catch {
     return res.status(401).json({ error: 'Invalid token' });
   }
-};
 
-export const requireAdmin = (req: AuthRequest, res: Response, next: NextFunction) => {
-  if (req.user?.role !== 'admin') {
-    return res.status(403).json({ error: 'Admin access required' });
+  // The token must belong to a live session of an active user, so logout,
+  // session revocation and deactivation take effect before the token expires
+  if (!decoded?.sid) {
+    return res.status(401).json({ error: 'Session has ended' });
+  }
+  let role: string;
+  try {
+    const session = await getActiveSession(decoded.sid);
+    if (!session || session.user_id !== decoded.id) {
+      return res.status(401).json({ error: 'Session has ended' });
+    }
+    if (session.users.status !== 'active') {
+      return res.status(401).json({ error: 'Account is not active' });
+    }
+    // Use the current role rather than the one in the token, so role changes apply immediately
+    role = session.users.role || 'member';
+  } catch {
+    return res.status(500).json({ error: 'Failed to verify session' });
   }
+
+  req.user = { ...decoded, role };
   next();
 };
+
+export const requirePermission = (permission: Permission) =>
+  (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!hasPermission(req.user?.role, permission)) {
+      return res.status(403).json({ error: `Permission required: ${permission}` });
+    }
+    next();
+  };
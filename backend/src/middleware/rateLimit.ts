@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction } from 'express';
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+// Where hit counters live. The default keeps them in process memory, which is enough for a single
+// instance; plug in a shared store (e.g. Redis) with setRateLimitStore when running several.
+export interface RateLimitStore {
+  hit: (key: string, windowMs: number) => Promise<RateLimitHit>;
+  reset: (key: string) => Promise<void>;
+}
+
+interface RateLimitOptions {
+  name: string;
+  windowMs: number;
+  max: number;
+  // Value to count requests by; requests without one are not limited
+  key: (req: Request) => string | null | undefined;
+  message?: string;
+}
+
+// Fixed-window counters in a Map; expired windows are swept once a minute
+export function createMemoryStore(): RateLimitStore {
+  const windows = new Map<string, RateLimitHit>();
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of windows) {
+      if (entry.resetAt.getTime() <= now) windows.delete(key);
+    }
+  }, 60 * 1000);
+  sweep.unref();
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      let entry = windows.get(key);
+      if (!entry || entry.resetAt.getTime() <= now) {
+        entry = { count: 0, resetAt: new Date(now + windowMs) };
+        windows.set(key, entry);
+      }
+      entry.count++;
+      return { ...entry };
+    },
+    async reset(key) {
+      windows.delete(key);
+    }
+  };
+}
+
+let store: RateLimitStore = createMemoryStore();
+
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  return store;
+}
+
+export function rateLimit(options: RateLimitOptions) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const value = options.key(req);
+    if (!value) {
+      return next();
+    }
+
+    let hit: RateLimitHit;
+    try {
+      hit = await store.hit(`${options.name}:${value}`, options.windowMs);
+    } catch (error) {
+      // A broken store should not lock everyone out
+      console.error(`Rate limit store error (${options.name}):`, error);
+      return next();
+    }
+
+    if (hit.count > options.max) {
+      const retryAfter = Math.max(1, Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000));
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({ error: options.message || 'Too many requests. Please try again later.' });
+    }
+    next();
+  };
+}
+
+// Key helpers
+export const byIp = (req: Request) => req.ip;
+export const byPhone = (req: Request) => {
+  const phone = req.body?.phone;
+  return typeof phone === 'string' ? phone.replace(/\D/g, '').slice(-10) || null : null;
+};
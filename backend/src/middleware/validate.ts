@@ -0,0 +1,78 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+
+type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+type RequestPart = 'params' | 'query' | 'body';
+
+export interface RouteSchemas {
+  params?: z.ZodObject;
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  // Bodies that are not JSON (file uploads) are documented under this content type instead
+  contentType?: string;
+}
+
+export interface RouteDefinition extends RouteSchemas {
+  method: HttpMethod;
+  // OpenAPI-style path, e.g. /api/loans/{id}/approve
+  path: string;
+}
+
+// What a handler sees in req.query / req.body once the route has been validated
+export type ValidQuery<R extends RouteSchemas> = R['query'] extends z.ZodType ? z.output<R['query']> : never;
+export type ValidBody<R extends RouteSchemas> = R['body'] extends z.ZodType ? z.output<R['body']> : never;
+
+export interface FieldError {
+  in: RequestPart;
+  field: string;
+  message: string;
+}
+
+const definitions: RouteDefinition[] = [];
+
+// Declare what a route accepts. The same definition validates requests and generates the API docs.
+export function defineRoute<S extends RouteSchemas>(method: HttpMethod, path: string, schemas: S): RouteDefinition & S {
+  const definition = { method, path, ...schemas };
+  definitions.push(definition);
+  return definition;
+}
+
+export function getRouteDefinitions(): readonly RouteDefinition[] {
+  return definitions;
+}
+
+// Reject requests that do not match the route's schemas with a 400 listing every bad field.
+// Handlers then see the parsed values: numbers coerced in the query string, defaults filled in,
+// unknown body fields dropped.
+export const validate = (route: RouteSchemas) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const fields: FieldError[] = [];
+    const parsed: Partial<Record<RequestPart, unknown>> = {};
+
+    for (const part of ['params', 'query', 'body'] as const) {
+      const schema = route[part];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[part] ?? {});
+      if (result.success) {
+        parsed[part] = result.data;
+      } else {
+        for (const issue of result.error.issues) {
+          fields.push({ in: part, field: issue.path.join('.') || part, message: issue.message });
+        }
+      }
+    }
+
+    if (fields.length > 0) {
+      return res.status(400).json({
+        error: fields.map(f => `${f.field}: ${f.message}`).join('; '),
+        fields
+      });
+    }
+
+    // Express 5 serves query from a getter, so the parsed copy is defined on the request itself
+    for (const [part, value] of Object.entries(parsed)) {
+      Object.defineProperty(req, part, { value, writable: true, configurable: true, enumerable: true });
+    }
+    next();
+  };
@@ -0,0 +1,38 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface Recipient {
+  user_id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+}
+
+export interface Notification {
+  to: Recipient;
+  subject: string;
+  body: string;
+}
+
+export interface NotificationChannel {
+  name: string;
+  send: (notification: Notification) => Promise<void>;
+}
+
+// Stand-in for SMS: prints the message to the server log
+export const consoleChannel: NotificationChannel = {
+  name: 'console',
+  async send({ to, subject, body }) {
+    console.log(`[notify] to ${to.name} (${to.phone || to.email || to.user_id}): ${subject}\n${body}`);
+  }
+};
+
+// Stand-in for SMS: appends one JSON line per message to NOTIFY_FILE
+export const fileChannel: NotificationChannel = {
+  name: 'file',
+  async send(notification) {
+    const file = process.env.NOTIFY_FILE || path.join(process.cwd(), 'notifications.log');
+    const line = JSON.stringify({ sent_at: new Date().toISOString(), ...notification });
+    await fs.appendFile(file, line + '\n', 'utf8');
+  }
+};
@@ -0,0 +1,29 @@
+import { consoleChannel, fileChannel, Notification, NotificationChannel } from './channels';
+
+export type { Notification, NotificationChannel, Recipient } from './channels';
+
+const channels = new Map<string, NotificationChannel>([
+  [consoleChannel.name, consoleChannel],
+  [fileChannel.name, fileChannel]
+]);
+
+// Add a delivery channel (e.g. an SMS gateway) and select it with NOTIFY_CHANNEL=<name>
+export function registerChannel(channel: NotificationChannel) {
+  channels.set(channel.name, channel);
+}
+
+export function getChannel(): NotificationChannel {
+  const name = process.env.NOTIFY_CHANNEL || 'console';
+  const channel = channels.get(name);
+  if (!channel) {
+    throw new Error(`Unknown notification channel: ${name}`);
+  }
+  return channel;
+}
+
+// Send through the configured channel; returns the channel name used
+export async function notify(notification: Notification): Promise<string> {
+  const channel = getChannel();
+  await channel.send(notification);
+  return channel.name;
+}
@@ -1,9 +1,37 @@
-import { Router, Response } from 'express';
+import { Router, Response, NextFunction } from 'express';
+import multer from 'multer';
 import prisma from '../lib/prisma';
-import { authenticate, AuthRequest, requireAdmin } from '../middleware/auth';
+import { authenticate, AuthRequest, requirePermission } from '../middleware/auth';
+import { validate, ValidQuery } from '../middleware/validate';
+import * as schema from '../schemas/admin';
+import { FUND_MEMBER_ROLES, permissionsFor, ROLES } from '../lib/permissions';
+import { HttpError } from '../lib/errors';
+import { money } from '../lib/money';
+import { recordAudit } from '../utils/audit';
+import { getPoolLiquidity } from '../utils/interest';
+import { JOBS } from '../jobs/tasks';
+import { findJob, getNextRun, runJob } from '../jobs/scheduler';
+import { lockMemberDeposits } from '../utils/deposits';
+import { commitDepositImport, previewDepositImport, readDepositFile } from '../utils/imports';
+import { listProducts } from '../utils/products';
+import {
+  approveAction, cancelAction, listPendingActions, rejectAction, requestAction
+} from '../utils/pendingActions';
 
 const router = Router();
 
+// Deposit files are parsed in memory; passbook spreadsheets are small
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 5 * 1024 * 1024 } });
+
+function uploadFile(req: AuthRequest, res: Response, next: NextFunction) {
+  upload.single('file')(req, res, (err: unknown) => {
+    if (err) {
+      return res.status(400).json({ error: err instanceof Error ? err.message : 'Invalid upload' });
+    }
+    next();
+  });
+}
+
 /**
  * @swagger
  * /api/admin/dashboard:
@@ -21,36 +49,35 @@ const router = Router();
  *               properties:
  *                 total_pool: { type: number }
  *                 total_loaned: { type: number }
- *                 available_balance: { type: number }
+ *                 available_balance: { type: number, description: 'Cash on hand: deposits + emergency fund − principal lent out' }
+ *                 disbursable_now: { type: number, description: 'Cash on hand less the reserve, approved loans awaiting payout and open applications' }
+ *                 liquidity: { type: object, description: 'Breakdown behind disbursable_now' }
  *                 members: { type: object }
  *                 active_loans: { type: integer }
  *                 pending_payments: { type: integer }
- *       403: { description: Admin access required }
+ *       403: { description: Requires fund.view permission }
  */
-router.get('/dashboard', authenticate, requireAdmin, async (_req: AuthRequest, res: Response) => {
+router.get('/dashboard', authenticate, requirePermission('fund.view'), async (_req: AuthRequest, res: Response) => {
   try {
-    const poolTotal = await prisma.deposits.aggregate({ _sum: { amount: true } });
-    
-    const loanedOut = await prisma.loans.aggregate({
-      where: { status: 'active' },
-      _sum: { outstanding_principal: true }
-    });
+    const liquidity = await getPoolLiquidity();
 
     const memberCounts = await prisma.users.groupBy({
       by: ['status'],
-      where: { role: 'member' },
+      where: { role: { in: FUND_MEMBER_ROLES } },
       _count: true
     });
 
     const activeLoans = await prisma.loans.count({ where: { status: 'active' } });
 
     const pendingPreEmi = await prisma.pre_emi_interest.count({ where: { is_paid: false } });
-    const pendingEmi = await prisma.emi_schedule.count({ where: { is_paid: false } });
+    const pendingEmi = await prisma.emi_schedule.count({ where: { is_paid: false, superseded_at: null } });
 
     res.json({
-      total_pool: poolTotal._sum.amount || 0,
-      total_loaned: loanedOut._sum.outstanding_principal || 0,
-      available_balance: Number(poolTotal._sum.amount || 0) - Number(loanedOut._sum.outstanding_principal || 0),
+      total_pool: liquidity.deposits,
+      total_loaned: liquidity.lentOut,
+      available_balance: liquidity.cashOnHand,
+      disbursable_now: liquidity.disbursableNow,
+      liquidity,
       members: memberCounts.reduce((acc: Record<string, number>, m: { status: string | null; _count: number }) => ({ ...acc, [m.status!]: m._count }), {}),
       active_loans: activeLoans,
       pending_payments: pendingPreEmi + pendingEmi
@@ -69,15 +96,16 @@ router.get('/dashboard', authenticate, requireAdmin, async (_req: AuthRequest, r
  *     security: [{ bearerAuth: [] }]
  *     responses:
  *       200: { description: List of members }
- *       403: { description: Admin access required }
+ *       403: { description: Requires members.view permission }
  */
-router.get('/members', authenticate, requireAdmin, async (_req: AuthRequest, res: Response) => {
+router.get('/members', authenticate, requirePermission('members.view'), async (_req: AuthRequest, res: Response) => {
   try {
     const members = await prisma.users.findMany({
-      where: { role: 'member' },
+      where: { role: { in: FUND_MEMBER_ROLES } },
       select: {
         id: true, name: true, email: true, phone: true, 
-        status: true, joined_at: true, created_at: true
+        role: true, status: true, joined_at: true, created_at: true,
+        failed_login_count: true, locked_until: true
       },
       orderBy: { created_at: 'desc' }
     });
@@ -87,6 +115,67 @@ router.get('/members', authenticate, requireAdmin, async (_req: AuthRequest, res
   }
 });
 
+/**
+ * @swagger
+ * /api/admin/roles:
+ *   get:
+ *     summary: List roles with the permissions each one grants
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Roles and their permissions }
+ *       403: { description: Requires members.view permission }
+ */
+router.get('/roles', authenticate, requirePermission('members.view'), async (_req: AuthRequest, res: Response) => {
+  res.json(ROLES.map(role => ({ role, permissions: permissionsFor(role), assignable: FUND_MEMBER_ROLES.includes(role) })));
+});
+
+/**
+ * @swagger
+ * /api/admin/members/{id}/role:
+ *   put:
+ *     summary: Give a member an office-bearer role, or take it away (requires roles.assign)
+ *     description: Office bearers stay fund members. Admin accounts cannot be changed here.
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Role changed; applies to the member's next request }
+ *       400: { description: Role cannot be assigned }
+ *       403: { description: Requires roles.assign permission }
+ *       404: { description: User not found }
+ */
+router.put('/members/:id/role', authenticate, requirePermission('roles.assign'), validate(schema.changeRole), async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.params.id as string;
+    const role = FUND_MEMBER_ROLES.find(r => r === req.body.role);
+    if (!role) {
+      return res.status(400).json({ error: `Role must be one of: ${FUND_MEMBER_ROLES.join(', ')}` });
+    }
+    if (userId === req.user!.id) {
+      return res.status(400).json({ error: 'You cannot change your own role' });
+    }
+
+    const user = await prisma.users.findUnique({ where: { id: userId }, select: { id: true, name: true, role: true } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (!user.role || !FUND_MEMBER_ROLES.includes(user.role)) {
+      return res.status(400).json({ error: `Cannot change the role of an ${user.role} account` });
+    }
+    if (user.role === role) {
+      return res.json({ message: `${user.name} is already a ${role}`, role });
+    }
+
+    await prisma.users.update({ where: { id: userId }, data: { role, updated_at: new Date() } });
+    await recordAudit(req, { action: 'user.role_change', entityType: 'users', entityId: userId, before: { role: user.role }, after: { role } });
+
+    res.json({ message: `${user.name} is now a ${role}`, role });
+  } catch (error) {
+    console.error('Role change error:', error);
+    res.status(500).json({ error: 'Failed to change role' });
+  }
+});
+
 /**
  * @swagger
  * /api/admin/settings:
@@ -96,9 +185,9 @@ router.get('/members', authenticate, requireAdmin, async (_req: AuthRequest, res
  *     security: [{ bearerAuth: [] }]
  *     responses:
  *       200: { description: List of settings }
- *       403: { description: Admin access required }
+ *       403: { description: Requires fund.view permission }
  */
-router.get('/settings', authenticate, requireAdmin, async (_req: AuthRequest, res: Response) => {
+router.get('/settings', authenticate, requirePermission('fund.view'), async (_req: AuthRequest, res: Response) => {
   try {
     const settings = await prisma.fund_settings.findMany();
     res.json(settings);
@@ -111,37 +200,23 @@ router.get('/settings', authenticate, requireAdmin, async (_req: AuthRequest, re
  * @swagger
  * /api/admin/settings/{key}:
  *   put:
- *     summary: Update a fund setting
+ *     summary: Request a fund setting change (applied once another admin approves it)
  *     tags: [Admin]
  *     security: [{ bearerAuth: [] }]
- *     parameters:
- *       - in: path
- *         name: key
- *         required: true
- *         schema: { type: string }
- *         description: Setting key (e.g., min_monthly_deposit, max_active_loans)
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [value]
- *             properties:
- *               value: { type: string }
  *     responses:
- *       200: { description: Setting updated }
- *       403: { description: Admin access required }
+ *       202: { description: Change queued for approval }
+ *       400: { description: Missing value }
+ *       403: { description: Requires settings.manage permission }
+ *       404: { description: Unknown setting }
+ *       409: { description: A change to this setting is already waiting for approval }
  */
-router.put('/settings/:key', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.put('/settings/:key', authenticate, requirePermission('settings.manage'), validate(schema.updateSetting), async (req: AuthRequest, res: Response) => {
   try {
     const { value } = req.body;
-    const setting = await prisma.fund_settings.update({
-      where: { setting_key: req.params.key as string },
-      data: { setting_value: value, updated_at: new Date() }
-    });
-    res.json(setting);
+    const pending = await requestAction(req, 'setting.update', { key: req.params.key as string, value });
+    res.status(202).json({ message: 'Sent to another admin for approval', pending_action: pending });
   } catch (error) {
+    if (error instanceof HttpError) return res.status(error.status).json({ error: error.message });
     res.status(500).json({ error: 'Failed to update setting' });
   }
 });
@@ -154,12 +229,13 @@ router.put('/settings/:key', authenticate, requireAdmin, async (req: AuthRequest
  *     tags: [Admin]
  *     security: [{ bearerAuth: [] }]
  *     responses:
- *       200: { description: List of interest brackets }
- *       403: { description: Admin access required }
+ *       200: { description: List of interest brackets; those without a product are the shared set }
+ *       403: { description: Requires fund.view permission }
  */
-router.get('/interest-brackets', authenticate, requireAdmin, async (_req: AuthRequest, res: Response) => {
+router.get('/interest-brackets', authenticate, requirePermission('fund.view'), async (_req: AuthRequest, res: Response) => {
   try {
     const brackets = await prisma.interest_brackets.findMany({
+      include: { loan_products: { select: { code: true, name: true } } },
       orderBy: { min_multiplier: 'asc' }
     });
     res.json(brackets);
@@ -172,32 +248,22 @@ router.get('/interest-brackets', authenticate, requireAdmin, async (_req: AuthRe
  * @swagger
  * /api/admin/interest-brackets:
  *   post:
- *     summary: Add a new interest rate bracket
+ *     summary: Request a new interest rate bracket (applied once another admin approves it)
  *     tags: [Admin]
  *     security: [{ bearerAuth: [] }]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [min_multiplier, interest_rate]
- *             properties:
- *               min_multiplier: { type: number }
- *               max_multiplier: { type: number }
- *               interest_rate: { type: number }
  *     responses:
- *       201: { description: Bracket created }
- *       403: { description: Admin access required }
+ *       202: { description: Bracket queued for approval }
+ *       400: { description: Missing min_multiplier or interest_rate }
+ *       403: { description: Requires settings.manage permission }
+ *       404: { description: Loan product not found }
  */
-router.post('/interest-brackets', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.post('/interest-brackets', authenticate, requirePermission('settings.manage'), validate(schema.createBracket), async (req: AuthRequest, res: Response) => {
   try {
-    const { min_multiplier, max_multiplier, interest_rate } = req.body;
-    const bracket = await prisma.interest_brackets.create({
-      data: { min_multiplier, max_multiplier, interest_rate }
-    });
-    res.status(201).json(bracket);
+    const { product_id, min_multiplier, max_multiplier, interest_rate } = req.body;
+    const pending = await requestAction(req, 'bracket.create', { product_id, min_multiplier, max_multiplier, interest_rate });
+    res.status(202).json({ message: 'Sent to another admin for approval', pending_action: pending });
   } catch (error) {
+    if (error instanceof HttpError) return res.status(error.status).json({ error: error.message });
     res.status(500).json({ error: 'Failed to create bracket' });
   }
 });
@@ -206,42 +272,95 @@ router.post('/interest-brackets', authenticate, requireAdmin, async (req: AuthRe
  * @swagger
  * /api/admin/interest-brackets/{id}:
  *   put:
- *     summary: Update an interest rate bracket
+ *     summary: Request an interest rate bracket change (applied once another admin approves it)
  *     tags: [Admin]
  *     security: [{ bearerAuth: [] }]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema: { type: string, format: uuid }
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               min_multiplier: { type: number }
- *               max_multiplier: { type: number }
- *               interest_rate: { type: number }
- *               is_active: { type: boolean }
  *     responses:
- *       200: { description: Bracket updated }
- *       403: { description: Admin access required }
+ *       202: { description: Change queued for approval }
+ *       403: { description: Requires settings.manage permission }
+ *       404: { description: Bracket not found }
+ *       409: { description: A change to this bracket is already waiting for approval }
  */
-router.put('/interest-brackets/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.put('/interest-brackets/:id', authenticate, requirePermission('settings.manage'), validate(schema.updateBracket), async (req: AuthRequest, res: Response) => {
   try {
-    const { min_multiplier, max_multiplier, interest_rate, is_active } = req.body;
-    const bracket = await prisma.interest_brackets.update({
-      where: { id: req.params.id as string },
-      data: { min_multiplier, max_multiplier, interest_rate, is_active }
+    const { product_id, min_multiplier, max_multiplier, interest_rate, is_active } = req.body;
+    const pending = await requestAction(req, 'bracket.update', {
+      id: req.params.id as string, product_id, min_multiplier, max_multiplier, interest_rate, is_active
     });
-    res.json(bracket);
+    res.status(202).json({ message: 'Sent to another admin for approval', pending_action: pending });
   } catch (error) {
+    if (error instanceof HttpError) return res.status(error.status).json({ error: error.message });
     res.status(500).json({ error: 'Failed to update bracket' });
   }
 });
 
+/**
+ * @swagger
+ * /api/admin/loan-products:
+ *   get:
+ *     summary: Get all loan products, including retired ones
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: List of loan products }
+ *       403: { description: Requires fund.view permission }
+ */
+router.get('/loan-products', authenticate, requirePermission('fund.view'), async (_req: AuthRequest, res: Response) => {
+  try {
+    res.json(await listProducts());
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch loan products' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/loan-products:
+ *   post:
+ *     summary: Request a new loan product (applied once another admin approves it)
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       202: { description: Product queued for approval }
+ *       400: { description: Tenures out of order }
+ *       403: { description: Requires settings.manage permission }
+ *       409: { description: A product with this code already exists }
+ */
+router.post('/loan-products', authenticate, requirePermission('settings.manage'), validate(schema.createProduct), async (req: AuthRequest, res: Response) => {
+  try {
+    const pending = await requestAction(req, 'product.create', req.body);
+    res.status(202).json({ message: 'Sent to another admin for approval', pending_action: pending });
+  } catch (error) {
+    if (error instanceof HttpError) return res.status(error.status).json({ error: error.message });
+    res.status(500).json({ error: 'Failed to create loan product' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/loan-products/{id}:
+ *   put:
+ *     summary: Request a loan product change (applied once another admin approves it)
+ *     description: Loans already taken keep the terms they were given. Set is_active to false to stop new applications.
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       202: { description: Change queued for approval }
+ *       400: { description: Tenures out of order }
+ *       403: { description: Requires settings.manage permission }
+ *       404: { description: Loan product not found }
+ *       409: { description: A change to this product is already waiting for approval }
+ */
+router.put('/loan-products/:id', authenticate, requirePermission('settings.manage'), validate(schema.updateProduct), async (req: AuthRequest, res: Response) => {
+  try {
+    const pending = await requestAction(req, 'product.update', { id: req.params.id as string, ...req.body });
+    res.status(202).json({ message: 'Sent to another admin for approval', pending_action: pending });
+  } catch (error) {
+    if (error instanceof HttpError) return res.status(error.status).json({ error: error.message });
+    res.status(500).json({ error: 'Failed to update loan product' });
+  }
+});
+
 /**
  * @swagger
  * /api/admin/bulk-deposits:
@@ -249,40 +368,15 @@ router.put('/interest-brackets/:id', authenticate, requireAdmin, async (req: Aut
  *     summary: Bulk import deposits for a user (backdate support)
  *     tags: [Admin]
  *     security: [{ bearerAuth: [] }]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [user_id, deposits]
- *             properties:
- *               user_id:
- *                 type: string
- *                 format: uuid
- *               deposits:
- *                 type: array
- *                 items:
- *                   type: object
- *                   required: [amount, member_month, deposit_date]
- *                   properties:
- *                     amount: { type: number }
- *                     member_month: { type: integer }
- *                     deposit_date: { type: string, format: date }
- *                     notes: { type: string }
  *     responses:
  *       201: { description: Deposits imported successfully }
  *       400: { description: Validation error }
- *       403: { description: Admin access required }
+ *       403: { description: Requires deposits.record permission }
  */
-router.post('/bulk-deposits', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.post('/bulk-deposits', authenticate, requirePermission('deposits.record'), validate(schema.bulkDeposits), async (req: AuthRequest, res: Response) => {
   try {
     const { user_id, deposits } = req.body;
 
-    if (!user_id || !deposits || !Array.isArray(deposits) || deposits.length === 0) {
-      return res.status(400).json({ error: 'user_id and deposits array are required' });
-    }
-
     // Verify user exists
     const user = await prisma.users.findUnique({ where: { id: user_id } });
     if (!user) {
@@ -311,30 +405,39 @@ router.post('/bulk-deposits', authenticate, requireAdmin, async (req: AuthReques
     // Sort deposits by member_month to calculate cumulative correctly
     const sortedDeposits = [...deposits].sort((a, b) => a.member_month - b.member_month);
 
-    // Get existing cumulative total
-    const existing = await prisma.deposits.aggregate({
-      where: { user_id },
-      _sum: { amount: true }
-    });
-    let runningTotal = Number(existing._sum.amount || 0);
+    // Create all deposits in a transaction, holding the same per-member lock as single deposits
+    const createdDeposits = await prisma.$transaction(async (tx) => {
+      await lockMemberDeposits(tx, user_id);
+
+      // Get existing cumulative total
+      const existing = await tx.deposits.aggregate({
+        where: { user_id },
+        _sum: { amount: true }
+      });
+      let runningTotal = money(existing._sum.amount);
 
-    // Create all deposits in a transaction
-    const createdDeposits = await prisma.$transaction(
-      sortedDeposits.map(dep => {
-        runningTotal += dep.amount;
-        return prisma.deposits.create({
+      const created = [];
+      for (const dep of sortedDeposits) {
+        runningTotal = runningTotal.plus(dep.amount);
+        created.push(await tx.deposits.create({
           data: {
             user_id,
             amount: dep.amount,
             member_month: dep.member_month,
             deposit_date: new Date(dep.deposit_date),
-            cumulative_total: runningTotal,
+            cumulative_total: runningTotal.toNumber(),
             notes: dep.notes || `Bulk import`,
             recorded_by: req.user!.id
           }
-        });
-      })
-    );
+        }));
+      }
+
+      await recordAudit(req, {
+        action: 'deposit.bulk_import', entityType: 'users', entityId: user_id,
+        after: created.map(d => ({ id: d.id, amount: d.amount, member_month: d.member_month, deposit_date: d.deposit_date }))
+      }, tx);
+      return created;
+    });
 
     res.status(201).json({
       message: `Successfully imported ${createdDeposits.length} deposits`,
@@ -347,4 +450,312 @@ router.post('/bulk-deposits', authenticate, requireAdmin, async (req: AuthReques
   }
 });
 
+/**
+ * @swagger
+ * /api/admin/bulk-deposits/upload:
+ *   post:
+ *     summary: Import deposits for many members from a CSV or XLSX file
+ *     description: |
+ *       Columns: phone or name (to match the member), amount, member_month, deposit_date
+ *       (YYYY-MM-DD or DD/MM/YYYY) and optional notes. Every row is checked against the
+ *       deposit_multiple and minimum cumulative deposit rules, and a member month may appear
+ *       only once (in the file and among recorded deposits). With dry_run (the default)
+ *       nothing is written and the per-row preview is returned; otherwise the rows are
+ *       committed only if all of them are valid.
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Dry-run preview with per-row errors }
+ *       201: { description: Deposits imported }
+ *       400: { description: Unreadable file or rows with errors (preview included) }
+ *       403: { description: Requires deposits.record permission }
+ */
+router.post('/bulk-deposits/upload', authenticate, requirePermission('deposits.record'), uploadFile, validate(schema.uploadDeposits), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'A file is required' });
+    }
+    const dryRun = req.body.dry_run !== 'false';
+
+    const rawRows = await readDepositFile(req.file.buffer, req.file.originalname);
+    const preview = await previewDepositImport(rawRows);
+
+    if (dryRun) {
+      return res.json({ dry_run: true, ...preview });
+    }
+    if (preview.summary.invalid > 0) {
+      return res.status(400).json({
+        error: `${preview.summary.invalid} row(s) have errors; nothing was imported`,
+        dry_run: false,
+        ...preview
+      });
+    }
+
+    const result = await commitDepositImport(req, preview);
+
+    res.status(201).json({
+      message: `Imported ${result.count} deposits for ${result.members} members`,
+      dry_run: false,
+      count: result.count,
+      summary: preview.summary
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Deposit file import error:', error);
+    res.status(500).json({ error: 'Failed to import deposit file' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/audit:
+ *   get:
+ *     summary: Search the audit log
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200:
+ *         description: Matching audit entries, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 total: { type: integer }
+ *                 entries: { type: array }
+ *       403: { description: Requires audit.view permission }
+ */
+router.get('/audit', authenticate, requirePermission('audit.view'), validate(schema.auditLog), async (req: AuthRequest, res: Response) => {
+  try {
+    const { actor_id, action, entity_type, entity_id, from, to, limit, offset } = req.query as ValidQuery<typeof schema.auditLog>;
+
+    const createdAt: { gte?: Date; lt?: Date } = {};
+    if (from) createdAt.gte = new Date(from);
+    if (to) {
+      // Include the whole "to" day
+      const end = new Date(to);
+      end.setDate(end.getDate() + 1);
+      createdAt.lt = end;
+    }
+
+    const where = {
+      actor_id,
+      action: action?.endsWith('.') ? { startsWith: action } : action,
+      entity_type,
+      entity_id,
+      created_at: from || to ? createdAt : undefined
+    };
+
+    const [total, entries] = await Promise.all([
+      prisma.audit_log.count({ where }),
+      prisma.audit_log.findMany({ where, orderBy: { created_at: 'desc' }, skip: offset, take: limit })
+    ]);
+
+    res.json({ total, entries });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch audit log' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/login-failures:
+ *   get:
+ *     summary: Review failed login attempts, newest first
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Matching failures with the member name when the phone matched one }
+ *       403: { description: Requires audit.view permission }
+ */
+router.get('/login-failures', authenticate, requirePermission('audit.view'), validate(schema.loginFailures), async (req: AuthRequest, res: Response) => {
+  try {
+    const { phone, user_id, reason, ip_address, from, to, limit, offset } = req.query as ValidQuery<typeof schema.loginFailures>;
+
+    const createdAt: { gte?: Date; lt?: Date } = {};
+    if (from) createdAt.gte = new Date(from);
+    if (to) {
+      const end = new Date(to);
+      end.setDate(end.getDate() + 1);
+      createdAt.lt = end;
+    }
+
+    const where = {
+      phone,
+      user_id,
+      reason,
+      ip_address,
+      created_at: from || to ? createdAt : undefined
+    };
+
+    const [total, entries] = await Promise.all([
+      prisma.login_failures.count({ where }),
+      prisma.login_failures.findMany({
+        where,
+        include: { users: { select: { name: true } } },
+        orderBy: { created_at: 'desc' },
+        skip: offset,
+        take: limit
+      })
+    ]);
+
+    res.json({ total, entries });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch login failures' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/pending-actions:
+ *   get:
+ *     summary: List changes waiting for (or decided by) a second admin, newest first
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Pending actions with the maker and checker names }
+ *       400: { description: Unknown status }
+ *       403: { description: Requires fund.view permission }
+ */
+router.get('/pending-actions', authenticate, requirePermission('fund.view'), validate(schema.pendingActions), async (req: AuthRequest, res: Response) => {
+  try {
+    const { status } = req.query as ValidQuery<typeof schema.pendingActions>;
+    res.json(await listPendingActions(status));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch pending actions' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/pending-actions/{id}/{decision}:
+ *   post:
+ *     summary: Approve (and apply), reject or cancel a pending action
+ *     description: |
+ *       Approve and reject are for a different admin than the one who made the request, and both
+ *       need the same permission as the action itself. Only the maker can cancel.
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Action decided; approved actions have been applied }
+ *       400: { description: Already decided, missing reason, or the change can no longer be applied }
+ *       403: { description: Own request, or missing the action's permission }
+ *       404: { description: Pending action not found }
+ *       409: { description: Another admin decided it first }
+ */
+router.post('/pending-actions/:id/:decision', authenticate, requirePermission('fund.view'), validate(schema.decidePendingAction), async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const { note } = req.body || {};
+
+    switch (req.params.decision) {
+      case 'approve':
+        return res.json({ message: 'Approved and applied', pending_action: await approveAction(req, id, note) });
+      case 'reject':
+        return res.json({ message: 'Request rejected', pending_action: await rejectAction(req, id, note) });
+      case 'cancel':
+        return res.json({ message: 'Request cancelled', pending_action: await cancelAction(req, id, note) });
+      default:
+        return res.status(400).json({ error: 'Decision must be approve, reject or cancel' });
+    }
+  } catch (error) {
+    if (error instanceof HttpError) return res.status(error.status).json({ error: error.message });
+    console.error('Pending action error:', error);
+    res.status(500).json({ error: 'Failed to decide pending action' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/jobs:
+ *   get:
+ *     summary: List background jobs with their schedule and last run
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Job definitions }
+ *       403: { description: Requires fund.view permission }
+ */
+router.get('/jobs', authenticate, requirePermission('fund.view'), async (_req: AuthRequest, res: Response) => {
+  try {
+    const jobs = await Promise.all(JOBS.map(async job => ({
+      name: job.name,
+      description: job.description,
+      schedule: job.schedule,
+      next_run: getNextRun(job.name),
+      last_run: await prisma.job_runs.findFirst({
+        where: { job_name: job.name },
+        orderBy: { started_at: 'desc' }
+      })
+    })));
+    res.json(jobs);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch jobs' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/jobs/runs:
+ *   get:
+ *     summary: List job run history
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Job runs, newest first }
+ *       403: { description: Requires fund.view permission }
+ */
+router.get('/jobs/runs', authenticate, requirePermission('fund.view'), validate(schema.jobRuns), async (req: AuthRequest, res: Response) => {
+  try {
+    const { job, status, limit } = req.query as ValidQuery<typeof schema.jobRuns>;
+
+    const runs = await prisma.job_runs.findMany({
+      where: { job_name: job, status },
+      include: { users: { select: { name: true } } },
+      orderBy: { started_at: 'desc' },
+      take: limit
+    });
+    res.json(runs);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch job runs' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/jobs/{name}/run:
+ *   post:
+ *     summary: Run a background job now
+ *     tags: [Admin]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Job run record (status succeeded or failed) }
+ *       404: { description: Unknown job }
+ *       409: { description: "Job is already running (runs older than JOBS_STALE_MINUTES are marked failed first)" }
+ *       403: { description: Requires jobs.run permission }
+ */
+router.post('/jobs/:name/run', authenticate, requirePermission('jobs.run'), validate(schema.runJob), async (req: AuthRequest, res: Response) => {
+  try {
+    const job = findJob(req.params.name as string);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const run = await runJob(job, { trigger: 'manual', triggeredBy: req.user!.id });
+    if (!run) {
+      return res.status(409).json({ error: 'Job is already running' });
+    }
+    await recordAudit(req, { action: 'job.run', entityType: 'job_runs', entityId: run.id, after: { job_name: run.job_name, status: run.status, result: run.result } });
+    res.json(run);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Run job error:', error);
+    res.status(500).json({ error: 'Failed to run job' });
+  }
+});
+
 export default router;
@@ -1,41 +1,51 @@
 import { Router, Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import prisma from '../lib/prisma';
-import { authenticate, AuthRequest, requireAdmin } from '../middleware/auth';
+import { authenticate, AuthRequest, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import * as schema from '../schemas/auth';
+import { HttpError } from '../lib/errors';
+import { permissionsFor } from '../lib/permissions';
+import { recordAudit } from '../utils/audit';
+import { findSessionByToken, issueSession, revokeAllSessions, revokeSession, rotateRefreshToken } from '../utils/sessions';
+import { changePassword, issueResetCode, redeemResetCode } from '../utils/passwords';
+import { clearLoginFailures, describeLock, lockRemaining, recordLoginFailure, registerBadPassword } from '../utils/logins';
+import { byIp, byPhone, rateLimit } from '../middleware/rateLimit';
+import { requestAction } from '../utils/pendingActions';
 
 const router = Router();
 
+const FIFTEEN_MINUTES = 15 * 60 * 1000;
+const ONE_HOUR = 60 * 60 * 1000;
+
+const loginLimits = [
+  rateLimit({ name: 'login-ip', windowMs: FIFTEEN_MINUTES, max: 20, key: byIp, message: 'Too many login attempts. Please try again later.' }),
+  rateLimit({ name: 'login-phone', windowMs: FIFTEEN_MINUTES, max: 10, key: byPhone, message: 'Too many login attempts for this phone number. Please try again later.' })
+];
+const registerLimits = [
+  rateLimit({ name: 'register-ip', windowMs: ONE_HOUR, max: 5, key: byIp, message: 'Too many registrations. Please try again later.' }),
+  rateLimit({ name: 'register-phone', windowMs: ONE_HOUR, max: 3, key: byPhone, message: 'Too many registrations. Please try again later.' })
+];
+const resetLimits = [
+  rateLimit({ name: 'reset-ip', windowMs: FIFTEEN_MINUTES, max: 10, key: byIp, message: 'Too many reset attempts. Please try again later.' }),
+  rateLimit({ name: 'reset-phone', windowMs: FIFTEEN_MINUTES, max: 5, key: byPhone, message: 'Too many reset attempts for this phone number. Please try again later.' })
+];
+
 /**
  * @swagger
  * /api/auth/register:
  *   post:
  *     summary: Register a new user
  *     tags: [Auth]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [name, phone, password]
- *             properties:
- *               name: { type: string }
- *               phone: { type: string, description: 'Required, must be unique' }
- *               email: { type: string, format: email, description: 'Optional' }
- *               password: { type: string, minLength: 6 }
  *     responses:
  *       201: { description: Registration pending approval }
  *       400: { description: Phone already registered }
+ *       429: { description: Too many registrations from this IP or for this phone }
  */
-router.post('/register', async (req: Request, res: Response) => {
+router.post('/register', ...registerLimits, validate(schema.register), async (req: Request, res: Response) => {
   try {
     const { name, email, phone, password } = req.body;
 
-    if (!name || !phone || !password) {
-      return res.status(400).json({ error: 'Name, phone, and password are required' });
-    }
-
     // Check if phone already exists
     const existingPhone = await prisma.users.findFirst({ where: { phone } });
     if (existingPhone) {
@@ -52,9 +62,13 @@ router.post('/register', async (req: Request, res: Response) => {
 
     const password_hash = await bcrypt.hash(password, 10);
     
-    const user = await prisma.users.create({
-      data: { name, email: email && email.trim() ? email.trim() : null, phone, password_hash },
-      select: { id: true, name: true, phone: true, email: true, status: true }
+    const user = await prisma.$transaction(async (tx) => {
+      const created = await tx.users.create({
+        data: { name, email: email && email.trim() ? email.trim() : null, phone, password_hash },
+        select: { id: true, name: true, phone: true, email: true, status: true }
+      });
+      await recordAudit(req, { action: 'user.register', entityType: 'users', entityId: created.id, after: created }, tx);
+      return created;
     });
 
     res.status(201).json({ message: 'Registration pending approval', user });
@@ -69,51 +83,183 @@ router.post('/register', async (req: Request, res: Response) => {
  *   post:
  *     summary: Login user via phone number
  *     tags: [Auth]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [phone, password]
- *             properties:
- *               phone: { type: string }
- *               password: { type: string }
  *     responses:
- *       200: { description: Login successful, returns JWT token }
+ *       200:
+ *         description: Login successful, returns a short-lived access token and a refresh token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 token: { type: string, description: 'Access token (JWT)' }
+ *                 refresh_token: { type: string, description: 'Single-use; exchange at /api/auth/refresh' }
+ *                 user: { type: object }
  *       401: { description: Invalid credentials }
  *       403: { description: Account not active }
+ *       423: { description: Account locked after repeated failures (see Retry-After) }
+ *       429: { description: Too many attempts from this IP or for this phone (see Retry-After) }
  */
-router.post('/login', async (req: Request, res: Response) => {
+router.post('/login', ...loginLimits, validate(schema.login), async (req: Request, res: Response) => {
   try {
     const { phone, password } = req.body;
 
     const user = await prisma.users.findFirst({ where: { phone } });
     if (!user) {
+      await recordLoginFailure(req, { phone, reason: 'unknown_phone' });
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
+    const locked = lockRemaining(user);
+    if (locked) {
+      await recordLoginFailure(req, { phone, userId: user.id, reason: 'locked' });
+      res.set('Retry-After', String(Math.ceil(locked / 1000)));
+      return res.status(423).json({ error: describeLock(locked) });
+    }
+
     if (user.status !== 'active') {
+      await recordLoginFailure(req, { phone, userId: user.id, reason: 'inactive' });
       return res.status(403).json({ error: `Account is ${user.status}` });
     }
 
-    const valid = await bcrypt.compare(password, user.password_hash);
+    const valid = await bcrypt.compare(String(password || ''), user.password_hash);
     if (!valid) {
+      await recordLoginFailure(req, { phone, userId: user.id, reason: 'bad_password' });
+      const lockedUntil = await registerBadPassword(user.id);
+      if (lockedUntil) {
+        const remaining = lockedUntil.getTime() - Date.now();
+        res.set('Retry-After', String(Math.ceil(remaining / 1000)));
+        return res.status(423).json({ error: describeLock(remaining) });
+      }
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    const token = jwt.sign(
-      { id: user.id, phone: user.phone, role: user.role },
-      process.env.JWT_SECRET!,
-      { expiresIn: '7d' }
-    );
+    await clearLoginFailures(user.id);
+    const session = await issueSession(user, req);
 
-    res.json({ token, user: { id: user.id, name: user.name, phone: user.phone, email: user.email, role: user.role } });
+    res.json({
+      token: session.token,
+      refresh_token: session.refresh_token,
+      user: {
+        id: user.id, name: user.name, phone: user.phone, email: user.email, role: user.role,
+        permissions: permissionsFor(user.role)
+      }
+    });
   } catch (error) {
     res.status(500).json({ error: 'Login failed' });
   }
 });
 
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for a new access and refresh token
+ *     description: Each refresh token can be used once. Reusing one ends the whole session.
+ *     tags: [Auth]
+ *     responses:
+ *       200: { description: New token pair }
+ *       401: { description: Refresh token invalid, expired, reused or session revoked }
+ *       403: { description: Account not active }
+ */
+router.post('/refresh', validate(schema.refresh), async (req: Request, res: Response) => {
+  try {
+    const { refresh_token } = req.body;
+
+    const session = await rotateRefreshToken(refresh_token, req);
+    res.json({ token: session.token, refresh_token: session.refresh_token });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: End the session the refresh token belongs to
+ *     tags: [Auth]
+ *     responses:
+ *       200: { description: Logged out (also returned for unknown or already ended sessions) }
+ */
+router.post('/logout', validate(schema.logout), async (req: Request, res: Response) => {
+  try {
+    const { refresh_token } = req.body;
+
+    const session = await findSessionByToken(refresh_token);
+    if (session) {
+      await prisma.$transaction(async (tx) => {
+        const ended = await revokeSession(session.family_id, 'logout', tx);
+        if (ended > 0) {
+          await recordAudit(req, { action: 'session.logout', entityType: 'users', entityId: session.user_id, after: { session_id: session.family_id } }, tx);
+        }
+      });
+    }
+
+    res.json({ message: 'Logged out' });
+  } catch (error) {
+    res.status(500).json({ error: 'Logout failed' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/change-password:
+ *   post:
+ *     summary: Change the logged-in user's password (signs out their other sessions)
+ *     tags: [Auth]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Password changed }
+ *       400: { description: Current password is wrong or new password is too short }
+ */
+router.post('/change-password', authenticate, validate(schema.changePassword), async (req: AuthRequest, res: Response) => {
+  try {
+    const { current_password, new_password } = req.body;
+    const result = await changePassword(req, {
+      currentPassword: current_password,
+      newPassword: new_password
+    });
+
+    res.json({ message: 'Password changed', other_sessions_ended: result.sessionsEnded });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Change password error:', error);
+    res.status(500).json({ error: 'Failed to change password' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     summary: Set a new password with a reset code issued by an admin
+ *     tags: [Auth]
+ *     responses:
+ *       200: { description: Password reset; all sessions are signed out }
+ *       400: { description: Invalid or expired reset code }
+ *       429: { description: Too many attempts from this IP or for this phone }
+ */
+router.post('/reset-password', ...resetLimits, validate(schema.resetPassword), async (req: Request, res: Response) => {
+  try {
+    const { phone, code, new_password } = req.body;
+
+    await redeemResetCode(req, { phone, code, newPassword: new_password });
+
+    res.json({ message: 'Password reset. Please login with your new password.' });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Reset password error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
 /**
  * @swagger
  * /api/auth/me:
@@ -122,7 +268,7 @@ router.post('/login', async (req: Request, res: Response) => {
  *     tags: [Auth]
  *     security: [{ bearerAuth: [] }]
  *     responses:
- *       200: { description: User profile }
+ *       200: { description: User profile with the permissions of their role }
  *       401: { description: Unauthorized }
  */
 router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
@@ -131,7 +277,7 @@ router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
       where: { id: req.user!.id },
       select: { id: true, name: true, email: true, phone: true, role: true, status: true, joined_at: true }
     });
-    res.json(user);
+    res.json(user && { ...user, permissions: permissionsFor(user.role) });
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch user' });
   }
@@ -141,14 +287,14 @@ router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
  * @swagger
  * /api/auth/pending:
  *   get:
- *     summary: Get pending user registrations (Admin only)
+ *     summary: Get pending user registrations (requires members.approve)
  *     tags: [Auth]
  *     security: [{ bearerAuth: [] }]
  *     responses:
  *       200: { description: List of pending users }
- *       403: { description: Admin access required }
+ *       403: { description: Requires members.approve permission }
  */
-router.get('/pending', authenticate, requireAdmin, async (_req: AuthRequest, res: Response) => {
+router.get('/pending', authenticate, requirePermission('members.approve'), async (_req: AuthRequest, res: Response) => {
   try {
     const users = await prisma.users.findMany({
       where: { status: 'pending' },
@@ -164,29 +310,28 @@ router.get('/pending', authenticate, requireAdmin, async (_req: AuthRequest, res
  * @swagger
  * /api/auth/approve/{id}:
  *   post:
- *     summary: Approve a pending user (Admin only)
+ *     summary: Approve a pending user (requires members.approve)
  *     tags: [Auth]
  *     security: [{ bearerAuth: [] }]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema: { type: string, format: uuid }
  *     responses:
  *       200: { description: User approved }
- *       403: { description: Admin access required }
+ *       403: { description: Requires members.approve permission }
  */
-router.post('/approve/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.post('/approve/:id', authenticate, requirePermission('members.approve'), validate(schema.approveUser), async (req: AuthRequest, res: Response) => {
   try {
-    const user = await prisma.users.update({
-      where: { id: req.params.id as string },
-      data: {
-        status: 'active',
-        joined_at: new Date(),
-        approved_by: req.user!.id,
-        approved_at: new Date()
-      },
-      select: { id: true, name: true, email: true, status: true, joined_at: true }
+    const user = await prisma.$transaction(async (tx) => {
+      const approved = await tx.users.update({
+        where: { id: req.params.id as string },
+        data: {
+          status: 'active',
+          joined_at: new Date(),
+          approved_by: req.user!.id,
+          approved_at: new Date()
+        },
+        select: { id: true, name: true, email: true, status: true, joined_at: true }
+      });
+      await recordAudit(req, { action: 'user.approve', entityType: 'users', entityId: approved.id, after: approved }, tx);
+      return approved;
     });
     res.json({ message: 'User approved', user });
   } catch (error) {
@@ -198,32 +343,24 @@ router.post('/approve/:id', authenticate, requireAdmin, async (req: AuthRequest,
  * @swagger
  * /api/auth/reject/{id}:
  *   post:
- *     summary: Reject a pending user (Admin only)
+ *     summary: Reject a pending user (requires members.approve)
  *     tags: [Auth]
  *     security: [{ bearerAuth: [] }]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema: { type: string, format: uuid }
- *     requestBody:
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               reason: { type: string }
  *     responses:
  *       200: { description: User rejected }
- *       403: { description: Admin access required }
+ *       403: { description: Requires members.approve permission }
  */
-router.post('/reject/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.post('/reject/:id', authenticate, requirePermission('members.approve'), validate(schema.rejectUser), async (req: AuthRequest, res: Response) => {
   try {
     const { reason } = req.body;
-    const user = await prisma.users.update({
-      where: { id: req.params.id as string },
-      data: { status: 'rejected', rejection_reason: reason },
-      select: { id: true, name: true, email: true, status: true }
+    const user = await prisma.$transaction(async (tx) => {
+      const rejected = await tx.users.update({
+        where: { id: req.params.id as string },
+        data: { status: 'rejected', rejection_reason: reason },
+        select: { id: true, name: true, email: true, status: true }
+      });
+      await recordAudit(req, { action: 'user.reject', entityType: 'users', entityId: rejected.id, after: { ...rejected, rejection_reason: reason } }, tx);
+      return rejected;
     });
     res.json({ message: 'User rejected', user });
   } catch (error) {
@@ -235,35 +372,18 @@ router.post('/reject/:id', authenticate, requireAdmin, async (req: AuthRequest,
  * @swagger
  * /api/auth/admin/register:
  *   post:
- *     summary: Register a new user directly (Admin only, auto-approved)
+ *     summary: Register a new user directly (requires members.approve, auto-approved)
  *     tags: [Auth]
  *     security: [{ bearerAuth: [] }]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [name, phone, password]
- *             properties:
- *               name: { type: string }
- *               phone: { type: string, description: 'Required, must be unique' }
- *               email: { type: string, format: email, description: 'Optional' }
- *               password: { type: string, minLength: 6 }
- *               joined_at: { type: string, format: date, description: 'Optional join date for backdating' }
  *     responses:
  *       201: { description: User created and activated }
  *       400: { description: Phone already registered }
- *       403: { description: Admin access required }
+ *       403: { description: Requires members.approve permission }
  */
-router.post('/admin/register', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.post('/admin/register', authenticate, requirePermission('members.approve'), validate(schema.adminRegister), async (req: AuthRequest, res: Response) => {
   try {
     const { name, email, phone, password, joined_at } = req.body;
 
-    if (!name || !phone || !password) {
-      return res.status(400).json({ error: 'Name, phone, and password are required' });
-    }
-
     // Check if phone already exists
     const existingPhone = await prisma.users.findFirst({ where: { phone } });
     if (existingPhone) {
@@ -281,18 +401,22 @@ router.post('/admin/register', authenticate, requireAdmin, async (req: AuthReque
     const password_hash = await bcrypt.hash(password, 10);
     const joinDate = joined_at ? new Date(joined_at) : new Date();
     
-    const user = await prisma.users.create({
-      data: {
-        name,
-        email: email && email.trim() ? email.trim() : null,
-        phone,
-        password_hash,
-        status: 'active',
-        joined_at: joinDate,
-        approved_by: req.user!.id,
-        approved_at: new Date()
-      },
-      select: { id: true, name: true, phone: true, email: true, status: true, joined_at: true }
+    const user = await prisma.$transaction(async (tx) => {
+      const created = await tx.users.create({
+        data: {
+          name,
+          email: email && email.trim() ? email.trim() : null,
+          phone,
+          password_hash,
+          status: 'active',
+          joined_at: joinDate,
+          approved_by: req.user!.id,
+          approved_at: new Date()
+        },
+        select: { id: true, name: true, phone: true, email: true, status: true, joined_at: true }
+      });
+      await recordAudit(req, { action: 'user.create', entityType: 'users', entityId: created.id, after: created }, tx);
+      return created;
     });
 
     res.status(201).json({ message: 'User created and activated', user });
@@ -309,18 +433,13 @@ router.post('/admin/register', authenticate, requireAdmin, async (req: AuthReque
  *     summary: Soft delete a user (set status to inactive)
  *     tags: [Auth]
  *     security: [{ bearerAuth: [] }]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema: { type: string, format: uuid }
  *     responses:
  *       200: { description: User deactivated }
  *       400: { description: Cannot delete admin users }
- *       403: { description: Admin access required }
+ *       403: { description: Requires members.manage permission }
  *       404: { description: User not found }
  */
-router.delete('/admin/delete/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.delete('/admin/delete/:id', authenticate, requirePermission('members.manage'), validate(schema.deactivateUser), async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.params.id as string;
 
@@ -333,10 +452,17 @@ router.delete('/admin/delete/:id', authenticate, requireAdmin, async (req: AuthR
       return res.status(400).json({ error: 'Cannot delete admin users' });
     }
 
-    // Soft delete - set status to inactive
-    await prisma.users.update({
-      where: { id: userId },
-      data: { status: 'inactive' }
+    // Soft delete - set status to inactive and end their sessions
+    await prisma.$transaction(async (tx) => {
+      await tx.users.update({
+        where: { id: userId },
+        data: { status: 'inactive' }
+      });
+      const sessions = await revokeAllSessions(userId, 'deactivated', undefined, tx);
+      await recordAudit(req, {
+        action: 'user.deactivate', entityType: 'users', entityId: userId,
+        before: { status: user.status }, after: { status: 'inactive', sessions_revoked: sessions }
+      }, tx);
     });
 
     res.json({ message: `User ${user.name} has been deactivated. Their records are preserved.` });
@@ -348,82 +474,134 @@ router.delete('/admin/delete/:id', authenticate, requireAdmin, async (req: AuthR
 
 /**
  * @swagger
- * /api/auth/admin/purge/{id}:
- *   delete:
- *     summary: Permanently delete a user and ALL their data (IRREVERSIBLE)
+ * /api/auth/admin/revoke-sessions/{id}:
+ *   post:
+ *     summary: Sign a user out everywhere by revoking all of their sessions (requires members.manage)
  *     tags: [Auth]
  *     security: [{ bearerAuth: [] }]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema: { type: string, format: uuid }
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [confirmName]
- *             properties:
- *               confirmName: { type: string, description: 'Must match user name exactly' }
  *     responses:
- *       200: { description: User permanently deleted }
- *       400: { description: Confirmation failed or has active loans }
- *       403: { description: Admin access required }
+ *       200: { description: Sessions revoked }
+ *       403: { description: Requires members.manage permission }
  *       404: { description: User not found }
  */
-router.delete('/admin/purge/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.post('/admin/revoke-sessions/:id', authenticate, requirePermission('members.manage'), validate(schema.revokeSessions), async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.params.id as string;
-    const { confirmName } = req.body;
 
-    const user = await prisma.users.findUnique({ where: { id: userId } });
+    const user = await prisma.users.findUnique({ where: { id: userId }, select: { id: true, name: true } });
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    if (user.role === 'admin') {
-      return res.status(400).json({ error: 'Cannot delete admin users' });
-    }
+    const count = await prisma.$transaction(async (tx) => {
+      const revoked = await revokeAllSessions(userId, 'revoked', undefined, tx);
+      await recordAudit(req, { action: 'session.revoke_all', entityType: 'users', entityId: userId, after: { sessions_revoked: revoked } }, tx);
+      return revoked;
+    });
 
-    // Require exact name match for confirmation
-    if (confirmName !== user.name) {
-      return res.status(400).json({ error: 'Confirmation name does not match. Please type the exact user name.' });
-    }
+    res.json({ message: `Signed ${user.name} out of ${count} session(s)`, count });
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/admin/unlock/{id}:
+ *   post:
+ *     summary: Unlock an account locked after repeated failed logins (requires members.manage)
+ *     tags: [Auth]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Account unlocked and failure counters reset }
+ *       403: { description: Requires members.manage permission }
+ *       404: { description: User not found }
+ */
+router.post('/admin/unlock/:id', authenticate, requirePermission('members.manage'), validate(schema.unlockUser), async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.params.id as string;
 
-    // Check for active loans
-    const activeLoans = await prisma.loans.count({
-      where: { user_id: userId, status: 'active' }
+    const user = await prisma.users.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, failed_login_count: true, lockout_count: true, locked_until: true }
     });
-    if (activeLoans > 0) {
-      return res.status(400).json({ error: 'Cannot permanently delete user with active loans. Deactivate or close loans first.' });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
     }
 
-    // Delete in order due to foreign key constraints
-    // 1. Delete payments
-    await prisma.payments.deleteMany({ where: { user_id: userId } });
-    
-    // 2. Delete EMI schedules and pre-EMI interest for user's loans
-    const userLoans = await prisma.loans.findMany({ where: { user_id: userId }, select: { id: true } });
-    const loanIds = userLoans.map(l => l.id);
-    
-    if (loanIds.length > 0) {
-      await prisma.emi_schedule.deleteMany({ where: { loan_id: { in: loanIds } } });
-      await prisma.pre_emi_interest.deleteMany({ where: { loan_id: { in: loanIds } } });
+    await prisma.$transaction(async (tx) => {
+      await clearLoginFailures(userId, tx);
+      await recordAudit(req, {
+        action: 'user.unlock',
+        entityType: 'users',
+        entityId: userId,
+        before: { failed_login_count: user.failed_login_count, lockout_count: user.lockout_count, locked_until: user.locked_until },
+        after: { failed_login_count: 0, lockout_count: 0, locked_until: null }
+      }, tx);
+    });
+
+    res.json({ message: `${user.name} can log in again` });
+  } catch (error) {
+    console.error('Unlock error:', error);
+    res.status(500).json({ error: 'Failed to unlock account' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/admin/reset-code/{id}:
+ *   post:
+ *     summary: Issue a one-time password reset code and send it to the member (requires members.manage)
+ *     description: The code is delivered through the configured notification channel and is never returned in the response.
+ *     tags: [Auth]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Code issued }
+ *       400: { description: Account is not active }
+ *       403: { description: Requires members.manage permission }
+ *       404: { description: User not found }
+ */
+router.post('/admin/reset-code/:id', authenticate, requirePermission('members.manage'), validate(schema.issueResetCode), async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.params.id as string;
+    const result = await issueResetCode(req, userId);
+
+    res.json({
+      message: `Reset code sent to ${result.user.name} via ${result.channel}`,
+      channel: result.channel,
+      expires_at: result.expiresAt
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
     }
-    
-    // 3. Delete loans
-    await prisma.loans.deleteMany({ where: { user_id: userId } });
-    
-    // 4. Delete deposits
-    await prisma.deposits.deleteMany({ where: { user_id: userId } });
-    
-    // 5. Delete user
-    await prisma.users.delete({ where: { id: userId } });
+    console.error('Issue reset code error:', error);
+    res.status(500).json({ error: 'Failed to issue reset code' });
+  }
+});
 
-    res.json({ message: `User ${user.name} and all their data have been permanently deleted.` });
+/**
+ * @swagger
+ * /api/auth/admin/purge/{id}:
+ *   delete:
+ *     summary: Request permanent deletion of a user and ALL their data (IRREVERSIBLE once another admin approves)
+ *     tags: [Auth]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       202: { description: Deletion queued for a second admin }
+ *       400: { description: Confirmation failed or has active loans }
+ *       403: { description: Requires members.manage permission }
+ *       404: { description: User not found }
+ *       409: { description: Deletion is already waiting for approval }
+ */
+router.delete('/admin/purge/:id', authenticate, requirePermission('members.manage'), validate(schema.purgeUser), async (req: AuthRequest, res: Response) => {
+  try {
+    const { confirmName } = req.body;
+    const pending = await requestAction(req, 'user.purge', { user_id: req.params.id as string, confirm_name: confirmName });
+    res.status(202).json({ message: 'Sent to another admin for approval', pending_action: pending });
   } catch (error) {
+    if (error instanceof HttpError) return res.status(error.status).json({ error: error.message });
     console.error('Purge user error:', error);
     res.status(500).json({ error: 'Failed to permanently delete user' });
   }
@@ -1,6 +1,13 @@
 import { Router, Response } from 'express';
 import prisma from '../lib/prisma';
-import { authenticate, AuthRequest, requireAdmin } from '../middleware/auth';
+import { authenticate, AuthRequest, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import * as schema from '../schemas/deposits';
+import { recordAudit } from '../utils/audit';
+import { HttpError } from '../lib/errors';
+import { money } from '../lib/money';
+import { hasPermission } from '../lib/permissions';
+import { correctDeposit, lockMemberDeposits, rebuildCumulativeTotals, reverseDeposit } from '../utils/deposits';
 
 const router = Router();
 
@@ -16,7 +23,7 @@ const router = Router();
  */
 router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const where = req.user!.role === 'admin' ? {} : { user_id: req.user!.id };
+    const where = hasPermission(req.user!.role, 'fund.view') ? {} : { user_id: req.user!.id };
     
     const deposits = await prisma.deposits.findMany({
       where,
@@ -79,19 +86,14 @@ router.get('/summary', authenticate, async (req: AuthRequest, res: Response) =>
  * @swagger
  * /api/deposits/summary/{userId}:
  *   get:
- *     summary: Get deposit summary for a specific user (Admin only)
+ *     summary: Get deposit summary for a specific user (requires fund.view)
  *     tags: [Deposits]
  *     security: [{ bearerAuth: [] }]
- *     parameters:
- *       - in: path
- *         name: userId
- *         required: true
- *         schema: { type: string, format: uuid }
  *     responses:
  *       200: { description: Deposit summary }
- *       403: { description: Admin access required }
+ *       403: { description: Requires fund.view permission }
  */
-router.get('/summary/:userId', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.get('/summary/:userId', authenticate, requirePermission('fund.view'), validate(schema.memberSummary), async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.params.userId as string;
 
@@ -120,28 +122,15 @@ router.get('/summary/:userId', authenticate, requireAdmin, async (req: AuthReque
  * @swagger
  * /api/deposits:
  *   post:
- *     summary: Record a deposit for a member (Admin only)
+ *     summary: Record a deposit for a member (requires deposits.record)
  *     tags: [Deposits]
  *     security: [{ bearerAuth: [] }]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [user_id, amount, member_month, deposit_date]
- *             properties:
- *               user_id: { type: string, format: uuid }
- *               amount: { type: number, description: 'Must be multiple of 300' }
- *               member_month: { type: integer, description: 'Member relative month number' }
- *               deposit_date: { type: string, format: date }
- *               notes: { type: string }
  *     responses:
  *       201: { description: Deposit recorded }
  *       400: { description: Validation error }
- *       403: { description: Admin access required }
+ *       403: { description: Requires deposits.record permission }
  */
-router.post('/', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.post('/', authenticate, requirePermission('deposits.record'), validate(schema.recordDeposit), async (req: AuthRequest, res: Response) => {
   try {
     const { user_id, amount, member_month, deposit_date, notes } = req.body;
 
@@ -155,36 +144,43 @@ router.post('/', authenticate, requireAdmin, async (req: AuthRequest, res: Respo
       return res.status(400).json({ error: `Amount must be multiple of ${multiple}` });
     }
 
-    // Get current cumulative total
-    const existing = await prisma.deposits.aggregate({
-      where: { user_id },
-      _sum: { amount: true }
-    });
-    const currentTotal = Number(existing._sum.amount || 0);
-    const newTotal = currentTotal + amount;
+    const deposit = await prisma.$transaction(async (tx) => {
+      // Locked so concurrent deposits for the member each see the other's total
+      await lockMemberDeposits(tx, user_id);
 
-    // Validate minimum deposit rule (300 * month)
-    const minRequired = multiple * member_month;
-    if (newTotal < minRequired) {
-      return res.status(400).json({ 
-        error: `Total deposits (${newTotal}) must be at least ${minRequired} for month ${member_month}` 
+      // Get current cumulative total
+      const existing = await tx.deposits.aggregate({
+        where: { user_id },
+        _sum: { amount: true }
       });
-    }
+      const newTotal = money(existing._sum.amount).plus(amount);
 
-    const deposit = await prisma.deposits.create({
-      data: {
-        user_id,
-        amount,
-        member_month,
-        deposit_date: new Date(deposit_date),
-        cumulative_total: newTotal,
-        notes,
-        recorded_by: req.user!.id
+      // Validate minimum deposit rule (300 * month)
+      const minRequired = multiple * member_month;
+      if (newTotal.lessThan(minRequired)) {
+        throw new HttpError(400, `Total deposits (${newTotal.toNumber()}) must be at least ${minRequired} for month ${member_month}`);
       }
+
+      const created = await tx.deposits.create({
+        data: {
+          user_id,
+          amount,
+          member_month,
+          deposit_date: new Date(deposit_date),
+          cumulative_total: newTotal.toNumber(),
+          notes,
+          recorded_by: req.user!.id
+        }
+      });
+      await recordAudit(req, { action: 'deposit.create', entityType: 'deposits', entityId: created.id, after: created }, tx);
+      return created;
     });
 
     res.status(201).json(deposit);
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     res.status(500).json({ error: 'Failed to record deposit' });
   }
 });
@@ -221,46 +217,40 @@ router.get('/pool', authenticate, async (_req: AuthRequest, res: Response) => {
  * @swagger
  * /api/deposits/recalculate/{userId}:
  *   post:
- *     summary: Recalculate cumulative totals for a user (Admin only)
+ *     summary: Recalculate cumulative totals for a user (requires deposits.record)
  *     tags: [Deposits]
  *     security: [{ bearerAuth: [] }]
- *     parameters:
- *       - in: path
- *         name: userId
- *         required: true
- *         schema: { type: string, format: uuid }
  *     responses:
  *       200: { description: Cumulative totals recalculated }
- *       403: { description: Admin access required }
+ *       403: { description: Requires deposits.record permission }
  */
-router.post('/recalculate/:userId', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.post('/recalculate/:userId', authenticate, requirePermission('deposits.record'), validate(schema.recalculate), async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.params.userId as string;
 
-    // Get all deposits for user sorted by member_month
-    const deposits = await prisma.deposits.findMany({
+    const before = await prisma.deposits.findFirst({
       where: { user_id: userId },
-      orderBy: { member_month: 'asc' }
+      orderBy: [{ member_month: 'desc' }, { deposit_date: 'desc' }, { created_at: 'desc' }]
     });
 
-    if (deposits.length === 0) {
+    if (!before) {
       return res.json({ message: 'No deposits found for user', updated: 0 });
     }
 
-    // Recalculate cumulative totals
-    let runningTotal = 0;
-    for (const deposit of deposits) {
-      runningTotal += Number(deposit.amount);
-      await prisma.deposits.update({
-        where: { id: deposit.id },
-        data: { cumulative_total: runningTotal }
-      });
-    }
+    const totals = await prisma.$transaction(async (tx) => {
+      const rebuilt = await rebuildCumulativeTotals(tx, userId);
+      await recordAudit(req, {
+        action: 'deposit.recalculate', entityType: 'users', entityId: userId,
+        before: { final_total: Number(before.cumulative_total) },
+        after: { final_total: rebuilt.finalTotal, updated: rebuilt.updated }
+      }, tx);
+      return rebuilt;
+    });
 
     res.json({ 
-      message: `Recalculated cumulative totals for ${deposits.length} deposits`,
-      updated: deposits.length,
-      finalTotal: runningTotal
+      message: `Recalculated cumulative totals for ${totals.updated} deposits`,
+      updated: totals.updated,
+      finalTotal: totals.finalTotal
     });
   } catch (error) {
     console.error('Recalculate error:', error);
@@ -268,4 +258,86 @@ router.post('/recalculate/:userId', authenticate, requireAdmin, async (req: Auth
   }
 });
 
+/**
+ * @swagger
+ * /api/deposits/{id}:
+ *   put:
+ *     summary: Correct a deposit (requires deposits.record)
+ *     description: >
+ *       The original row is kept. It is reversed with a negative 'reversal' entry and a 'correction'
+ *       entry is posted with the corrected values; the member's cumulative totals are rebuilt in the
+ *       same transaction. Entries landing in a finalized pool snapshot are flagged.
+ *     tags: [Deposits]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Correction posted }
+ *       400: { description: Validation error, missing reason, or deposit already corrected }
+ *       403: { description: Requires deposits.record permission }
+ *       404: { description: Deposit not found }
+ */
+router.put('/:id', authenticate, requirePermission('deposits.record'), validate(schema.correctDeposit), async (req: AuthRequest, res: Response) => {
+  try {
+    const { amount, member_month, deposit_date, reason } = req.body;
+
+    const result = await correctDeposit(req, req.params.id as string, {
+      amount,
+      memberMonth: member_month,
+      depositDate: deposit_date ? new Date(deposit_date) : undefined,
+      reason
+    });
+
+    res.json({
+      message: result.snapshots.length
+        ? `Deposit corrected. It falls inside finalized snapshot(s) for ${result.snapshots.map(s => s.month_year).join(', ')}`
+        : 'Deposit corrected',
+      flagged: result.snapshots.length > 0,
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Correct deposit error:', error);
+    res.status(500).json({ error: 'Failed to correct deposit' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/deposits/{id}/reverse:
+ *   post:
+ *     summary: Reverse a deposit (requires deposits.record)
+ *     description: >
+ *       The original row is kept and a negative 'reversal' entry is posted. The member's cumulative
+ *       totals are rebuilt in the same transaction. Reversals inside a finalized pool snapshot are flagged.
+ *     tags: [Deposits]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Deposit reversed }
+ *       400: { description: Missing reason or deposit already reversed }
+ *       403: { description: Requires deposits.record permission }
+ *       404: { description: Deposit not found }
+ */
+router.post('/:id/reverse', authenticate, requirePermission('deposits.record'), validate(schema.reverseDeposit), async (req: AuthRequest, res: Response) => {
+  try {
+    const { reason } = req.body || {};
+
+    const result = await reverseDeposit(req, req.params.id as string, { reason });
+
+    res.json({
+      message: result.snapshots.length
+        ? `Deposit reversed. It falls inside finalized snapshot(s) for ${result.snapshots.map(s => s.month_year).join(', ')}`
+        : 'Deposit reversed',
+      flagged: result.snapshots.length > 0,
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Reverse deposit error:', error);
+    res.status(500).json({ error: 'Failed to reverse deposit' });
+  }
+});
+
 export default router;
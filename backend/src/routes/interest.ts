@@ -1,6 +1,12 @@
 import { Router, Response } from 'express';
 import prisma from '../lib/prisma';
-import { authenticate, AuthRequest, requireAdmin } from '../middleware/auth';
+import { authenticate, AuthRequest, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import * as schema from '../schemas/interest';
+import { FUND_MEMBER_ROLES } from '../lib/permissions';
+import { allocate, money, toAmount } from '../lib/money';
+import { createPoolSnapshot } from '../utils/snapshots';
+import { recordAudit } from '../utils/audit';
 
 const router = Router();
 
@@ -32,23 +38,13 @@ router.get('/snapshots', authenticate, async (_req: AuthRequest, res: Response)
  * @swagger
  * /api/interest/snapshots:
  *   post:
- *     summary: Create monthly pool snapshot (admin only)
+ *     summary: Create monthly pool snapshot (requires interest.manage)
  *     tags: [Interest]
  *     security: [{ bearerAuth: [] }]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [fund_month, month_year]
- *             properties:
- *               fund_month: { type: integer }
- *               month_year: { type: string, example: "2023-07" }
  *     responses:
  *       201: { description: Snapshot created }
  */
-router.post('/snapshots', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.post('/snapshots', authenticate, requirePermission('interest.manage'), validate(schema.createSnapshot), async (req: AuthRequest, res: Response) => {
   try {
     const { fund_month, month_year } = req.body;
 
@@ -60,36 +56,10 @@ router.post('/snapshots', authenticate, requireAdmin, async (req: AuthRequest, r
       return res.status(400).json({ error: `Snapshot for month ${fund_month} already exists` });
     }
 
-    // Calculate pool totals
-    const deposits = await prisma.deposits.groupBy({
-      by: ['user_id'],
-      _sum: { amount: true }
-    });
-
-    const memberSnapshots: Record<string, number> = {};
-    let totalAmount = 0;
-
-    for (const dep of deposits) {
-      const amount = Number(dep._sum.amount || 0);
-      const units = Math.floor(amount / 300);
-      memberSnapshots[dep.user_id] = units;
-      totalAmount += amount;
-    }
-
-    const totalUnits = Math.floor(totalAmount / 300);
-
-    const snapshot = await db.monthly_pool_snapshot.create({
-      data: {
-        fund_month,
-        month_year,
-        total_pool_amount: totalAmount,
-        total_pool_units: totalUnits,
-        cumulative_pool_units: totalUnits,
-        member_snapshots: memberSnapshots,
-        is_finalized: true,
-        finalized_at: new Date(),
-        finalized_by: req.user!.id
-      }
+    const snapshot = await createPoolSnapshot(fund_month, month_year, req.user!.id);
+    await recordAudit(req, {
+      action: 'snapshot.create', entityType: 'monthly_pool_snapshot', entityId: snapshot.id,
+      after: { fund_month, month_year, total_pool_amount: snapshot.total_pool_amount, total_pool_units: snapshot.total_pool_units }
     });
 
     res.status(201).json(snapshot);
@@ -130,27 +100,13 @@ router.get('/entries', authenticate, async (_req: AuthRequest, res: Response) =>
  * @swagger
  * /api/interest/entries:
  *   post:
- *     summary: Add interest entry and distribute to members (admin only)
+ *     summary: Add interest entry and distribute to members (requires interest.manage)
  *     tags: [Interest]
  *     security: [{ bearerAuth: [] }]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [earned_month, source, amount, pool_source_month]
- *             properties:
- *               earned_month: { type: integer, description: "Month when interest was received" }
- *               source: { type: string, enum: [loan_interest, bank_interest, other] }
- *               source_description: { type: string }
- *               loan_id: { type: string, format: uuid }
- *               pool_source_month: { type: integer, description: "Month whose pool funded the loan" }
- *               amount: { type: number }
  *     responses:
  *       201: { description: Interest added and distributed }
  */
-router.post('/entries', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.post('/entries', authenticate, requirePermission('interest.manage'), validate(schema.recordInterest), async (req: AuthRequest, res: Response) => {
   try {
     const { earned_month, source, source_description, loan_id, pool_source_month, amount, notes } = req.body;
 
@@ -186,26 +142,18 @@ router.post('/entries', authenticate, requireAdmin, async (req: AuthRequest, res
       }
     });
 
-    // Calculate rate per unit
-    const ratePerUnit = Number(amount) / totalUnits;
-
-    // Distribute to members
-    const shares = [];
-    for (const [userId, units] of Object.entries(memberSnapshots)) {
-      if (units > 0) {
-        const shareAmount = ratePerUnit * units;
-        const sharePercentage = (units / totalUnits) * 100;
-
-        shares.push({
-          user_id: userId,
-          monthly_interest_id: interestEntry.id,
-          member_cumulative_units: units,
-          total_pool_units: totalUnits,
-          share_percentage: sharePercentage,
-          interest_share: Math.round(shareAmount * 100) / 100
-        });
-      }
-    }
+    // Split the amount by units; the shares always add up to the amount exactly
+    const holders = Object.entries(memberSnapshots).filter(([, units]) => units > 0);
+    const allocations = allocate(amount, holders.map(([, units]) => units));
+
+    const shares = holders.map(([userId, units], i) => ({
+      user_id: userId,
+      monthly_interest_id: interestEntry.id,
+      member_cumulative_units: units,
+      total_pool_units: totalUnits,
+      share_percentage: money(units).div(totalUnits).times(100).toDecimalPlaces(4).toNumber(),
+      interest_share: allocations[i].toNumber()
+    }));
 
     await db.member_interest_shares.createMany({ data: shares });
 
@@ -217,7 +165,7 @@ router.post('/entries', authenticate, requireAdmin, async (req: AuthRequest, res
       });
     }
 
-    const newBalance = Number(emergencyFund.total_balance) + Number(amount);
+    const newBalance = toAmount(money(emergencyFund.total_balance).plus(amount));
 
     await db.emergency_fund.update({
       where: { id: emergencyFund.id },
@@ -250,6 +198,11 @@ router.post('/entries', authenticate, requireAdmin, async (req: AuthRequest, res
       }
     });
 
+    await recordAudit(req, {
+      action: 'interest.distribute', entityType: 'monthly_interest', entityId: interestEntry.id,
+      after: { earned_month, source, loan_id: loan_id || null, pool_source_month, amount, members: shares.length, emergency_fund_balance: newBalance }
+    });
+
     res.status(201).json({
       message: `Interest distributed to ${shares.length} members`,
       entry: result
@@ -331,17 +284,17 @@ router.get('/emergency-fund', authenticate, async (_req: AuthRequest, res: Respo
  * @swagger
  * /api/interest/member-summary:
  *   get:
- *     summary: Get all members' interest summary (admin only)
+ *     summary: Get all members' interest summary (requires fund.view)
  *     tags: [Interest]
  *     security: [{ bearerAuth: [] }]
  *     responses:
  *       200: { description: All members' interest summary }
  */
-router.get('/member-summary', authenticate, requireAdmin, async (_req: AuthRequest, res: Response) => {
+router.get('/member-summary', authenticate, requirePermission('fund.view'), async (_req: AuthRequest, res: Response) => {
   try {
     // Get all active members
     const members = await prisma.users.findMany({
-      where: { role: 'member', status: 'active' },
+      where: { role: { in: FUND_MEMBER_ROLES }, status: 'active' },
       select: { id: true, name: true }
     });
 
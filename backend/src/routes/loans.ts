@@ -1,10 +1,68 @@
 import { Router, Response } from 'express';
 import prisma from '../lib/prisma';
-import { authenticate, AuthRequest, requireAdmin } from '../middleware/auth';
-import { getMemberEligibility, getInterestRate, calculatePreEmiInterest, generateEMISchedule } from '../utils/interest';
+import { authenticate, AuthRequest, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import * as schema from '../schemas/loans';
+import { HttpError } from '../lib/errors';
+import { hasPermission } from '../lib/permissions';
+import { sumMoney, toAmount } from '../lib/money';
+import { recordAudit } from '../utils/audit';
+import { listGuarantees, respondToGuarantee } from '../utils/guarantors';
+import { defaultLoan, recordRecovery } from '../utils/ledger';
+import {
+  approveLoan, checkLoanApproval, disburseLoan, needsSecondApproval, rejectLoan, requestLoan, reviewLoan
+} from '../utils/loans';
+import { requestAction } from '../utils/pendingActions';
+import { checkPreEmi, checkProductLimit, checkTenure, listProducts, loadProduct, preEmiDays, resolveProduct } from '../utils/products';
+import {
+  getMemberEligibility, getInterestBracket, getInterestRate, OPEN_LOAN_STATUSES, PENDING_LOAN_STATUSES
+} from '../utils/interest';
+import { interestCalculator } from '../utils/interestMethods';
 
 const router = Router();
 
+// Eligibility for one loan product: the fund-wide max_active_loans limit, the product's
+// per-member limit, then the amount
+async function productEligibility(userId: string, productId?: string) {
+  const product = await resolveProduct(productId);
+
+  const activeLoans = await prisma.loans.count({
+    where: { user_id: userId, status: { in: OPEN_LOAN_STATUSES } }
+  });
+
+  const maxLoans = await prisma.fund_settings.findUnique({
+    where: { setting_key: 'max_active_loans' }
+  });
+  const maxAllowed = parseInt(maxLoans?.setting_value || '2');
+
+  if (activeLoans >= maxAllowed) {
+    return { 
+      eligible: false, 
+      reason: `Already has ${activeLoans} active or pending loans (max: ${maxAllowed})`,
+      maxEligible: 0,
+      productId: product.id
+    };
+  }
+
+  try {
+    await checkProductLimit(userId, product);
+  } catch (error) {
+    if (!(error instanceof HttpError)) throw error;
+    return { eligible: false, reason: error.message, maxEligible: 0, productId: product.id };
+  }
+
+  const eligibility = await getMemberEligibility(userId, { product });
+  
+  return {
+    eligible: eligibility.maxEligible > 0,
+    ...(eligibility.defaultedLoans > 0 ? { reason: 'Has a defaulted loan' } : {}),
+    ...eligibility,
+    productId: product.id,
+    activeLoans,
+    maxActiveLoans: maxAllowed
+  };
+}
+
 /**
  * @swagger
  * /api/loans:
@@ -17,14 +75,16 @@ const router = Router();
  */
 router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const where = req.user!.role === 'admin' ? {} : { user_id: req.user!.id };
+    const where = hasPermission(req.user!.role, 'fund.view') ? {} : { user_id: req.user!.id };
     
     const loans = await prisma.loans.findMany({
       where,
       include: {
         users_loans_user_idTousers: { select: { name: true, email: true } },
+        loan_products: { select: { code: true, name: true } },
+        loan_guarantors: { include: { users: { select: { name: true, phone: true } } } },
         pre_emi_interest: true,
-        emi_schedule: { orderBy: { emi_number: 'asc' } }
+        emi_schedule: { where: { superseded_at: null }, orderBy: { emi_number: 'asc' } }
       },
       orderBy: { created_at: 'desc' }
     });
@@ -39,6 +99,7 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
  * /api/loans/eligibility:
  *   get:
  *     summary: Get loan eligibility for current user
+ *     description: For the regular product unless product_id is given.
  *     tags: [Loans]
  *     security: [{ bearerAuth: [] }]
  *     responses:
@@ -53,40 +114,25 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
  *                 totalDeposits: { type: number }
  *                 totalPool: { type: number }
  *                 outstanding: { type: number }
+ *                 pending: { type: number, description: 'Principal of undecided applications' }
+ *                 defaultedLoans: { type: integer, description: 'Defaulted loans (any blocks new borrowing)' }
+ *                 lockedAsGuarantor: { type: number, description: "Deposits pledged for other members' open loans; they do not count towards this limit" }
+ *                 guaranteed: { type: number, description: "Guarantors' pledges backing the member's open loans" }
+ *                 guaranteeLimit: { type: number, description: 'Most that guarantees can add to the deposit-based limit' }
+ *                 disbursableNow: { type: number, description: 'Cash the pool can pay out now, after the reserve and earlier commitments' }
  *                 maxEligible: { type: number }
+ *                 maxMultiplier: { type: number, description: 'Loan ÷ deposits cap for the product' }
+ *                 productId: { type: string, description: 'Product the figures are for' }
  *                 activeLoans: { type: integer }
  *                 maxActiveLoans: { type: integer }
  */
-router.get('/eligibility', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/eligibility', authenticate, validate(schema.eligibility), async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user!.id;
 
-    const activeLoans = await prisma.loans.count({
-      where: { user_id: userId, status: 'active' }
-    });
-
-    const maxLoans = await prisma.fund_settings.findUnique({
-      where: { setting_key: 'max_active_loans' }
-    });
-    const maxAllowed = parseInt(maxLoans?.setting_value || '2');
-
-    if (activeLoans >= maxAllowed) {
-      return res.json({ 
-        eligible: false, 
-        reason: `Already has ${activeLoans} active loans (max: ${maxAllowed})`,
-        maxEligible: 0
-      });
-    }
-
-    const eligibility = await getMemberEligibility(userId);
-    
-    res.json({
-      eligible: eligibility.maxEligible > 0,
-      ...eligibility,
-      activeLoans,
-      maxActiveLoans: maxAllowed
-    });
+    res.json(await productEligibility(userId, req.query.product_id as string | undefined));
   } catch (error) {
+    if (error instanceof HttpError) return res.status(error.status).json({ error: error.message });
     res.status(500).json({ error: 'Failed to calculate eligibility' });
   }
 });
@@ -95,122 +141,354 @@ router.get('/eligibility', authenticate, async (req: AuthRequest, res: Response)
  * @swagger
  * /api/loans/eligibility/{userId}:
  *   get:
- *     summary: Get loan eligibility for specific user (Admin only)
+ *     summary: Get loan eligibility for specific user (requires fund.view)
  *     tags: [Loans]
  *     security: [{ bearerAuth: [] }]
- *     parameters:
- *       - in: path
- *         name: userId
- *         required: true
- *         schema: { type: string, format: uuid }
  *     responses:
  *       200: { description: Eligibility details }
- *       403: { description: Admin access required }
+ *       403: { description: Requires fund.view permission }
  */
-router.get('/eligibility/:userId', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.get('/eligibility/:userId', authenticate, requirePermission('fund.view'), validate(schema.memberEligibility), async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.params.userId as string;
 
-    const activeLoans = await prisma.loans.count({
-      where: { user_id: userId, status: 'active' }
-    });
+    res.json(await productEligibility(userId, req.query.product_id as string | undefined));
+  } catch (error) {
+    if (error instanceof HttpError) return res.status(error.status).json({ error: error.message });
+    res.status(500).json({ error: 'Failed to calculate eligibility' });
+  }
+});
 
-    const maxLoans = await prisma.fund_settings.findUnique({
-      where: { setting_key: 'max_active_loans' }
+/**
+ * @swagger
+ * /api/loans/request:
+ *   post:
+ *     summary: Apply for a new loan (goes to the admin review queue)
+ *     description: >
+ *       Guarantors named by phone pledge part of their free deposits, which adds to the borrower's
+ *       eligibility (up to max_guarantee_percentage). Each must accept before the loan is disbursed.
+ *     tags: [Loans]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       201: { description: Loan application created with status requested }
+ *       400: { description: Validation error or exceeds eligibility }
+ */
+router.post('/request', authenticate, validate(schema.requestLoan), async (req: AuthRequest, res: Response) => {
+  try {
+    const { amount, product_id, tenure_months, emi_start_date, guarantors } = req.body;
+    const loan = await requestLoan(req, {
+      amount, productId: product_id, tenureMonths: tenure_months, emiStartDate: emi_start_date, guarantors
     });
-    const maxAllowed = parseInt(maxLoans?.setting_value || '2');
+    res.status(201).json(loan);
+  } catch (error) {
+    if (error instanceof HttpError) return res.status(error.status).json({ error: error.message });
+    console.error(error);
+    res.status(500).json({ error: 'Failed to create loan' });
+  }
+});
 
-    if (activeLoans >= maxAllowed) {
-      return res.json({ 
-        eligible: false, 
-        reason: `Already has ${activeLoans} active loans (max: ${maxAllowed})`,
-        maxEligible: 0
-      });
+/**
+ * @swagger
+ * /api/loans/simulate:
+ *   post:
+ *     summary: Simulate a loan without applying (what-if calculator)
+ *     description: Uses the member's current eligibility and the product's interest brackets to price the loan. Nothing is saved.
+ *     tags: [Loans]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200:
+ *         description: Rate bracket, pre-EMI cost, amortization schedule and totals
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 eligible: { type: boolean }
+ *                 warnings: { type: array, items: { type: string } }
+ *                 product: { type: object, description: 'Loan product priced (id, code, name)' }
+ *                 max_eligible: { type: number, description: 'Including the guaranteed amount, if given' }
+ *                 guarantee_limit: { type: number, description: 'Most that guarantees can add to the deposit-based limit' }
+ *                 disbursable_now: { type: number, description: 'Cash the pool can pay out now' }
+ *                 multiplier: { type: number }
+ *                 interest_rate: { type: number }
+ *                 interest_method: { type: string, enum: [reducing_balance, flat, daily_reducing] }
+ *                 bracket: { type: object, nullable: true }
+ *                 pre_emi: { type: object }
+ *                 emi: { type: number }
+ *                 schedule: { type: array }
+ *                 total_interest: { type: number }
+ *                 total_payable: { type: number }
+ *       400: { description: Validation error }
+ */
+router.post('/simulate', authenticate, validate(schema.simulateLoan), async (req: AuthRequest, res: Response) => {
+  try {
+    const { amount: principal, product_id, emi_months, emi_start_date, disbursement_date, guaranteed, user_id } = req.body;
+
+    if (user_id && user_id !== req.user!.id && !hasPermission(req.user!.role, 'fund.view')) {
+      return res.status(403).json({ error: 'Access denied' });
     }
+    const userId = user_id || req.user!.id;
+
+    const disbursedAt = disbursement_date ? new Date(disbursement_date) : new Date();
+    const startDate = new Date(emi_start_date);
+    if (startDate < disbursedAt) {
+      return res.status(400).json({ error: 'EMI start date cannot be before disbursement' });
+    }
+
+    const product = await resolveProduct(product_id);
+    const months: number = emi_months ?? product.default_tenure_months;
+
+    const eligibility = await getMemberEligibility(userId, { product, guaranteed });
+    const multiplier = eligibility.totalDeposits > 0 ? principal / eligibility.totalDeposits : 0;
+    const bracket = await getInterestBracket(multiplier, product.id);
+    const interestRate = await getInterestRate(multiplier, product.id);
+
+    const warnings: string[] = [];
+    if (eligibility.defaultedLoans > 0) {
+      warnings.push('Members with a defaulted loan cannot apply for a new one');
+    } else if (principal > eligibility.disbursableNow) {
+      warnings.push(`The pool can only pay out ${eligibility.disbursableNow} right now`);
+    } else if (principal > eligibility.maxEligible) {
+      warnings.push(`Amount exceeds eligibility. Max: ${eligibility.maxEligible}`);
+    }
+
+    // Product rules are reported rather than refused, so members can see why a plan will not work
+    for (const check of [
+      () => checkTenure(product, months),
+      () => checkPreEmi(product, disbursedAt, startDate)
+    ]) {
+      try {
+        check();
+      } catch (error) {
+        if (!(error instanceof HttpError)) throw error;
+        warnings.push(error.message);
+      }
+    }
+
+    const maturity = new Date(startDate);
+    maturity.setMonth(maturity.getMonth() + months);
+    const maxMaturity = new Date(disbursedAt);
+    maxMaturity.setMonth(maxMaturity.getMonth() + product.max_term_months);
+    if (maturity > maxMaturity) {
+      warnings.push(`Repayment would run past the ${product.max_term_months}-month term of ${product.name} loans`);
+    }
+
+    const calculator = interestCalculator(product.interest_method);
+    const days = preEmiDays(disbursedAt, startDate);
+    const preEmiInterest = calculator.preEmiInterest(principal, interestRate, days);
+
+    const schedule = calculator.schedule(principal, interestRate, months, startDate);
+    const scheduleInterest = sumMoney(schedule.map(emi => emi.interest_component));
+    const scheduleTotal = sumMoney(schedule.map(emi => emi.total_emi));
 
-    const eligibility = await getMemberEligibility(userId);
-    
     res.json({
-      eligible: eligibility.maxEligible > 0,
-      ...eligibility,
-      activeLoans,
-      maxActiveLoans: maxAllowed
+      eligible: warnings.length === 0,
+      warnings,
+      amount: principal,
+      product: { id: product.id, code: product.code, name: product.name },
+      max_eligible: eligibility.maxEligible,
+      guarantee_limit: eligibility.guaranteeLimit,
+      disbursable_now: eligibility.disbursableNow,
+      total_deposits: eligibility.totalDeposits,
+      multiplier: Math.round(multiplier * 100) / 100,
+      interest_rate: interestRate,
+      interest_method: product.interest_method,
+      bracket,
+      pre_emi: {
+        disbursement_date: disbursedAt,
+        emi_start_date: startDate,
+        days,
+        interest: preEmiInterest
+      },
+      emi: schedule[0]?.total_emi ?? 0,
+      emi_months: months,
+      maturity_date: maturity,
+      schedule,
+      schedule_interest: toAmount(scheduleInterest),
+      total_interest: toAmount(scheduleInterest.plus(preEmiInterest)),
+      total_payable: toAmount(scheduleTotal.plus(preEmiInterest))
     });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to calculate eligibility' });
+    if (error instanceof HttpError) return res.status(error.status).json({ error: error.message });
+    console.error(error);
+    res.status(500).json({ error: 'Failed to simulate loan' });
   }
 });
 
 /**
  * @swagger
- * /api/loans/request:
+ * /api/loans/products:
+ *   get:
+ *     summary: Get the loan products members can apply for
+ *     tags: [Loans]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: 'Active loan products and their tenure, pre-EMI and multiplier rules' }
+ */
+router.get('/products', authenticate, async (_req: AuthRequest, res: Response) => {
+  try {
+    res.json(await listProducts(true));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch loan products' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/loans/guarantees:
+ *   get:
+ *     summary: Get the guarantees the current member has been asked for
+ *     tags: [Loans]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: 'Guarantee requests with the loan, borrower and status, newest first' }
+ */
+router.get('/guarantees', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    res.json(await listGuarantees(req.user!.id));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch guarantees' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/loans/guarantees/{id}/{decision}:
  *   post:
- *     summary: Request a new loan
+ *     summary: Accept or decline a guarantee request
+ *     description: >
+ *       Only the guarantor can answer, once, before the loan is disbursed. Accepting locks the
+ *       pledged deposits until the loan is closed; a declined guarantee blocks disbursement.
  *     tags: [Loans]
  *     security: [{ bearerAuth: [] }]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [amount]
- *             properties:
- *               amount: { type: number, description: 'Loan amount requested' }
- *               emi_start_date: { type: string, format: date, description: 'Optional EMI start date' }
  *     responses:
- *       201: { description: Loan created }
- *       400: { description: Validation error or exceeds eligibility }
+ *       200: { description: Guarantee answered }
+ *       400: { description: 'Already answered, the loan is past disbursement, or deposits no longer cover the pledge' }
+ *       404: { description: Guarantee request not found }
+ *       409: { description: Answered in the meantime }
  */
-router.post('/request', authenticate, async (req: AuthRequest, res: Response) => {
+router.post('/guarantees/:id/:decision', authenticate, validate(schema.respondToGuarantee), async (req: AuthRequest, res: Response) => {
   try {
-    const { amount, emi_start_date } = req.body;
-    const userId = req.user!.id;
+    const accept = req.params.decision === 'accept';
+    const guarantee = await respondToGuarantee(req, req.params.id as string, accept);
+    res.json({ message: accept ? 'Guarantee accepted' : 'Guarantee declined', guarantee });
+  } catch (error) {
+    if (error instanceof HttpError) return res.status(error.status).json({ error: error.message });
+    console.error('Guarantee error:', error);
+    res.status(500).json({ error: 'Failed to answer guarantee' });
+  }
+});
 
-    const activeLoans = await prisma.loans.count({
-      where: { user_id: userId, status: 'active' }
+/**
+ * @swagger
+ * /api/loans/queue:
+ *   get:
+ *     summary: Get loan applications awaiting a decision or disbursement (requires fund.view)
+ *     tags: [Loans]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Requested, under review and approved loans, oldest first }
+ *       403: { description: Requires fund.view permission }
+ */
+router.get('/queue', authenticate, requirePermission('fund.view'), async (_req: AuthRequest, res: Response) => {
+  try {
+    const loans = await prisma.loans.findMany({
+      where: { status: { in: [...PENDING_LOAN_STATUSES, 'approved'] } },
+      include: {
+        users_loans_user_idTousers: { select: { name: true, email: true, phone: true } },
+        loan_products: { select: { code: true, name: true } },
+        loan_guarantors: { include: { users: { select: { name: true, phone: true } } } }
+      },
+      orderBy: { created_at: 'asc' }
     });
-    const maxLoans = await prisma.fund_settings.findUnique({
-      where: { setting_key: 'max_active_loans' }
+    res.json(loans);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch loan queue' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/loans/defaults:
+ *   get:
+ *     summary: Get loans at risk of default and loans already defaulted (requires fund.view)
+ *     tags: [Loans]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200:
+ *         description: Default candidates and defaulted loans
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 missed_emis_required: { type: integer }
+ *                 candidates: { type: array, description: 'Active loans with missed EMIs, most missed first' }
+ *                 defaulted: { type: array }
+ *       403: { description: Requires fund.view permission }
+ */
+router.get('/defaults', authenticate, requirePermission('fund.view'), async (_req: AuthRequest, res: Response) => {
+  try {
+    const setting = await prisma.fund_settings.findUnique({
+      where: { setting_key: 'default_missed_emis' }
     });
-    if (activeLoans >= parseInt(maxLoans?.setting_value || '2')) {
-      return res.status(400).json({ error: 'Maximum active loans reached' });
-    }
+    const missedRequired = parseInt(setting?.setting_value || '3');
 
-    const eligibility = await getMemberEligibility(userId);
-    if (amount > eligibility.maxEligible) {
-      return res.status(400).json({ 
-        error: `Amount exceeds eligibility. Max: ${eligibility.maxEligible}` 
-      });
-    }
+    const missed = await prisma.emi_schedule.groupBy({
+      by: ['loan_id'],
+      where: { is_paid: false, superseded_at: null, due_date: { lt: new Date() }, loans: { status: 'active' } },
+      _count: { id: true }
+    });
+    const missedByLoan = new Map(missed.map(m => [m.loan_id, m._count.id]));
 
-    const multiplier = eligibility.totalDeposits > 0 ? amount / eligibility.totalDeposits : 0;
-    const interestRate = await getInterestRate(multiplier);
-
-    const disbursedAt = new Date();
-    const maturityDate = new Date(disbursedAt);
-    maturityDate.setFullYear(maturityDate.getFullYear() + 3);
-
-    const loan = await prisma.loans.create({
-      data: {
-        user_id: userId,
-        principal_amount: amount,
-        interest_rate: interestRate,
-        multiplier_at_disbursement: Math.round(multiplier * 100) / 100,
-        user_total_deposits_at_loan: eligibility.totalDeposits,
-        total_pool_at_loan: eligibility.totalPool,
-        max_eligible_at_loan: eligibility.maxEligible,
-        disbursed_at: disbursedAt,
-        emi_start_date: emi_start_date ? new Date(emi_start_date) : null,
-        maturity_date: maturityDate,
-        outstanding_principal: amount
-      }
+    const include = {
+      users_loans_user_idTousers: { select: { name: true, email: true, phone: true } },
+      loan_guarantors: { include: { users: { select: { name: true, phone: true } } } }
+    };
+
+    const candidates = await prisma.loans.findMany({
+      where: { id: { in: [...missedByLoan.keys()] } },
+      include
     });
 
-    res.status(201).json(loan);
+    const defaulted = await prisma.loans.findMany({
+      where: { status: 'defaulted' },
+      include,
+      orderBy: { defaulted_at: 'desc' }
+    });
+
+    res.json({
+      missed_emis_required: missedRequired,
+      candidates: candidates
+        .map(loan => ({ ...loan, missed_emis: missedByLoan.get(loan.id) || 0 }))
+        .sort((a, b) => b.missed_emis - a.missed_emis),
+      defaulted
+    });
   } catch (error) {
-    console.error(error);
-    res.status(500).json({ error: 'Failed to create loan' });
+    res.status(500).json({ error: 'Failed to fetch defaults' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/loans/{id}/review:
+ *   post:
+ *     summary: Take a loan application under review (requires loans.manage)
+ *     tags: [Loans]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Loan moved to under_review }
+ *       400: { description: Loan is not in requested state }
+ *       403: { description: Requires loans.manage permission }
+ *       404: { description: Loan not found }
+ */
+router.post('/:id/review', authenticate, requirePermission('loans.manage'), validate(schema.reviewLoan), async (req: AuthRequest, res: Response) => {
+  try {
+    const updated = await reviewLoan(req, req.params.id as string);
+    res.json({ message: 'Loan under review', loan: updated });
+  } catch (error) {
+    if (error instanceof HttpError) return res.status(error.status).json({ error: error.message });
+    res.status(500).json({ error: 'Failed to review loan' });
   }
 });
 
@@ -218,30 +496,152 @@ router.post('/request', authenticate, async (req: AuthRequest, res: Response) =>
  * @swagger
  * /api/loans/{id}/approve:
  *   post:
- *     summary: Approve a loan (Admin only)
+ *     summary: Approve a loan application after rechecking eligibility (requires loans.manage)
+ *     description: Loans above the dual_approval_loan_amount setting are queued for a second admin instead.
  *     tags: [Loans]
  *     security: [{ bearerAuth: [] }]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema: { type: string, format: uuid }
  *     responses:
  *       200: { description: Loan approved }
- *       403: { description: Admin access required }
+ *       202: { description: Large loan queued for a second admin }
+ *       400: { description: Loan is not pending or member is no longer eligible }
+ *       403: { description: Requires loans.manage permission }
+ *       404: { description: Loan not found }
+ *       409: { description: Approval is already waiting for a second admin }
  */
-router.post('/:id/approve', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.post('/:id/approve', authenticate, requirePermission('loans.manage'), validate(schema.approveLoan), async (req: AuthRequest, res: Response) => {
   try {
-    const loan = await prisma.loans.update({
-      where: { id: req.params.id as string },
-      data: { approved_by: req.user!.id }
-    });
-    res.json({ message: 'Loan approved', loan });
+    const loanId = req.params.id as string;
+    const { loan } = await checkLoanApproval(loanId);
+
+    if (await needsSecondApproval(Number(loan.principal_amount))) {
+      const pending = await requestAction(req, 'loan.approve', { loan_id: loanId });
+      return res.status(202).json({ message: 'Sent to another admin for approval', pending_action: pending });
+    }
+
+    const updated = await approveLoan(req, loanId);
+    res.json({ message: 'Loan approved', loan: updated });
   } catch (error) {
+    if (error instanceof HttpError) return res.status(error.status).json({ error: error.message });
     res.status(500).json({ error: 'Failed to approve loan' });
   }
 });
 
+/**
+ * @swagger
+ * /api/loans/{id}/reject:
+ *   post:
+ *     summary: Reject a loan application (requires loans.manage)
+ *     tags: [Loans]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Loan rejected }
+ *       400: { description: Missing reason or loan already decided }
+ *       403: { description: Requires loans.manage permission }
+ *       404: { description: Loan not found }
+ */
+router.post('/:id/reject', authenticate, requirePermission('loans.manage'), validate(schema.rejectLoan), async (req: AuthRequest, res: Response) => {
+  try {
+    const updated = await rejectLoan(req, req.params.id as string, req.body.reason);
+    res.json({ message: 'Loan rejected', loan: updated });
+  } catch (error) {
+    if (error instanceof HttpError) return res.status(error.status).json({ error: error.message });
+    res.status(500).json({ error: 'Failed to reject loan' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/loans/{id}/disburse:
+ *   post:
+ *     summary: Pay out an approved loan and make it active (requires loans.manage)
+ *     tags: [Loans]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Loan disbursed }
+ *       400: { description: 'Loan is not approved, a guarantor has not accepted, dates are inconsistent or the pool lacks free cash' }
+ *       403: { description: Requires loans.manage permission }
+ *       404: { description: Loan not found }
+ */
+router.post('/:id/disburse', authenticate, requirePermission('loans.manage'), validate(schema.disburseLoan), async (req: AuthRequest, res: Response) => {
+  try {
+    const { disbursed_at } = req.body || {};
+    const updated = await disburseLoan(req, req.params.id as string, disbursed_at);
+    res.json({ message: 'Loan disbursed', loan: updated });
+  } catch (error) {
+    if (error instanceof HttpError) return res.status(error.status).json({ error: error.message });
+    res.status(500).json({ error: 'Failed to disburse loan' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/loans/{id}/default:
+ *   post:
+ *     summary: Mark an active loan defaulted and write off the loss (requires loans.manage)
+ *     description: >
+ *       Requires at least `default_missed_emis` missed EMIs. Optionally offsets the member's
+ *       deposits against outstanding principal, then the deposits each guarantor pledged (up to
+ *       their pledge); any remaining loss is charged to the emergency fund.
+ *     tags: [Loans]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200: { description: Loan defaulted }
+ *       400: { description: Loan is not active or has too few missed EMIs }
+ *       403: { description: Requires loans.manage permission }
+ *       404: { description: Loan not found }
+ */
+router.post('/:id/default', authenticate, requirePermission('loans.manage'), validate(schema.defaultLoan), async (req: AuthRequest, res: Response) => {
+  try {
+    const { offset_deposits, offset_guarantor_deposits, notes } = req.body || {};
+
+    const loan = await defaultLoan(req, req.params.id as string, {
+      offsetDeposits: offset_deposits === true,
+      offsetGuarantors: offset_guarantor_deposits === true,
+      notes
+    });
+
+    res.json({ message: 'Loan marked as defaulted', loan });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to default loan' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/loans/{id}/recover:
+ *   post:
+ *     summary: Record an amount recovered on a defaulted loan (requires loans.manage)
+ *     description: The recovered amount is credited back to the emergency fund.
+ *     tags: [Loans]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       201: { description: Recovery recorded }
+ *       400: { description: Loan is not defaulted or amount exceeds the unrecovered write-off }
+ *       403: { description: Requires loans.manage permission }
+ *       404: { description: Loan not found }
+ */
+router.post('/:id/recover', authenticate, requirePermission('loans.manage'), validate(schema.recoverLoan), async (req: AuthRequest, res: Response) => {
+  try {
+    const { amount, payment_date, notes } = req.body;
+
+    const payment = await recordRecovery(req, req.params.id as string, {
+      amount,
+      paymentDate: payment_date ? new Date(payment_date) : new Date(),
+      notes
+    });
+
+    res.status(201).json(payment);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to record recovery' });
+  }
+});
+
 /**
  * @swagger
  * /api/loans/{id}/start-emi:
@@ -249,90 +649,103 @@ router.post('/:id/approve', authenticate, requireAdmin, async (req: AuthRequest,
  *     summary: Set EMI start date and generate EMI schedule
  *     tags: [Loans]
  *     security: [{ bearerAuth: [] }]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema: { type: string, format: uuid }
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [emi_start_date]
- *             properties:
- *               emi_start_date: { type: string, format: date }
- *               emi_months: { type: integer, default: 12, description: 'Number of EMI months' }
  *     responses:
  *       200: { description: EMI schedule generated }
+ *       400: { description: "Loan has not been disbursed, EMIs have already started, or the tenure or start date breaks the product's rules" }
+ *       403: { description: Not the borrower and missing loans.manage }
  *       404: { description: Loan not found }
  */
-router.post('/:id/start-emi', authenticate, async (req: AuthRequest, res: Response) => {
+router.post('/:id/start-emi', authenticate, validate(schema.startEmi), async (req: AuthRequest, res: Response) => {
   try {
     const { emi_start_date, emi_months } = req.body;
-    const loan = await prisma.loans.findUnique({ where: { id: req.params.id as string } });
-    
-    if (!loan) {
-      return res.status(404).json({ error: 'Loan not found' });
-    }
+    const loanId = req.params.id as string;
 
-    if (loan.user_id !== req.user!.id && req.user!.role !== 'admin') {
-      return res.status(403).json({ error: 'Access denied' });
-    }
+    const updatedLoan = await prisma.$transaction(async (tx) => {
+      // Locked so a repeated or concurrent call waits, then sees the schedule this one wrote
+      await tx.$queryRaw`SELECT id FROM loans WHERE id = ${loanId}::uuid FOR UPDATE`;
+      const loan = await tx.loans.findUnique({ where: { id: loanId } });
 
-    const startDate = new Date(emi_start_date);
-    const disbursedAt = new Date(loan.disbursed_at);
-    
-    const daysDiff = Math.floor((startDate.getTime() - disbursedAt.getTime()) / (1000 * 60 * 60 * 24));
-    const preEmiInterest = calculatePreEmiInterest(
-      Number(loan.principal_amount),
-      Number(loan.interest_rate),
-      daysDiff
-    );
-
-    await prisma.pre_emi_interest.create({
-      data: {
-        loan_id: loan.id,
-        period_start: disbursedAt,
-        period_end: startDate,
-        days_count: daysDiff,
-        principal_amount: loan.principal_amount,
-        interest_rate: loan.interest_rate,
-        interest_amount: Math.round(preEmiInterest * 100) / 100,
-        due_date: startDate
+      if (!loan) {
+        throw new HttpError(404, 'Loan not found');
+      }
+      if (loan.user_id !== req.user!.id && !hasPermission(req.user!.role, 'loans.manage')) {
+        throw new HttpError(403, 'Access denied');
+      }
+      if (loan.status !== 'active' || !loan.disbursed_at) {
+        throw new HttpError(400, 'EMI can only be started on a disbursed loan');
+      }
+      if (await tx.emi_schedule.count({ where: { loan_id: loan.id } }) > 0) {
+        throw new HttpError(400, 'EMIs have already started on this loan');
       }
-    });
 
-    const months = emi_months || 12;
-    const schedule = generateEMISchedule(
-      Number(loan.outstanding_principal),
-      Number(loan.interest_rate),
-      months,
-      startDate
-    );
-
-    await prisma.emi_schedule.createMany({
-      data: schedule.map(emi => ({
-        loan_id: loan.id,
-        ...emi
-      }))
-    });
+      const product = await loadProduct(loan.product_id, tx);
+      const months = emi_months ?? loan.tenure_months ?? product.default_tenure_months;
+      checkTenure(product, months);
+
+      const startDate = new Date(emi_start_date);
+      const disbursedAt = new Date(loan.disbursed_at);
+      checkPreEmi(product, disbursedAt, startDate);
+
+      // Worked out the way the loan was agreed, whatever the product says today
+      const calculator = interestCalculator(loan.interest_method);
+      const daysDiff = preEmiDays(disbursedAt, startDate);
+      const preEmiInterest = calculator.preEmiInterest(
+        Number(loan.principal_amount),
+        Number(loan.interest_rate),
+        daysDiff
+      );
+
+      await tx.pre_emi_interest.create({
+        data: {
+          loan_id: loan.id,
+          period_start: disbursedAt,
+          period_end: startDate,
+          days_count: daysDiff,
+          principal_amount: loan.principal_amount,
+          interest_rate: loan.interest_rate,
+          interest_amount: preEmiInterest,
+          due_date: startDate
+        }
+      });
 
-    const updatedLoan = await prisma.loans.update({
-      where: { id: loan.id },
-      data: { 
-        emi_start_date: startDate,
-        pre_emi_interest_amount: Math.round(preEmiInterest * 100) / 100
-      },
-      include: {
-        pre_emi_interest: true,
-        emi_schedule: { orderBy: { emi_number: 'asc' } }
-      }
+      const schedule = calculator.schedule(
+        Number(loan.outstanding_principal),
+        Number(loan.interest_rate),
+        months,
+        startDate
+      );
+
+      await tx.emi_schedule.createMany({
+        data: schedule.map(emi => ({
+          loan_id: loan.id,
+          ...emi,
+          remaining_due: emi.total_emi
+        }))
+      });
+
+      const updatedLoan = await tx.loans.update({
+        where: { id: loan.id },
+        data: {
+          emi_start_date: startDate,
+          pre_emi_interest_amount: preEmiInterest
+        },
+        include: {
+          pre_emi_interest: true,
+          emi_schedule: { where: { superseded_at: null }, orderBy: { emi_number: 'asc' } }
+        }
+      });
+
+      await recordAudit(req, {
+        action: 'loan.start_emi', entityType: 'loans', entityId: loanId,
+        after: { emi_start_date: startDate, emi_months: months, pre_emi_interest_amount: updatedLoan.pre_emi_interest_amount }
+      }, tx);
+
+      return updatedLoan;
     });
 
     res.json(updatedLoan);
   } catch (error) {
+    if (error instanceof HttpError) return res.status(error.status).json({ error: error.message });
     console.error(error);
     res.status(500).json({ error: 'Failed to start EMI' });
   }
@@ -342,26 +755,23 @@ router.post('/:id/start-emi', authenticate, async (req: AuthRequest, res: Respon
  * @swagger
  * /api/loans/{id}:
  *   get:
- *     summary: Get single loan details
+ *     summary: Get single loan details (borrower, guarantors and fund.view only)
  *     tags: [Loans]
  *     security: [{ bearerAuth: [] }]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema: { type: string, format: uuid }
  *     responses:
- *       200: { description: Loan details with schedules and payments }
+ *       200: { description: Loan details with schedules, payments and guarantors }
  *       404: { description: Loan not found }
  */
-router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/:id', authenticate, validate(schema.loanDetail), async (req: AuthRequest, res: Response) => {
   try {
     const loan = await prisma.loans.findUnique({
       where: { id: req.params.id as string },
       include: {
         users_loans_user_idTousers: { select: { name: true, email: true } },
+        loan_products: { select: { code: true, name: true } },
+        loan_guarantors: { include: { users: { select: { name: true, phone: true } } } },
         pre_emi_interest: true,
-        emi_schedule: { orderBy: { emi_number: 'asc' } },
+        emi_schedule: { where: { superseded_at: null }, orderBy: { emi_number: 'asc' } },
         payments: { orderBy: { payment_date: 'desc' } }
       }
     });
@@ -370,11 +780,19 @@ router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: 'Loan not found' });
     }
 
-    if (loan.user_id !== req.user!.id && req.user!.role !== 'admin') {
+    // Guarantors can see the loan they are asked to vouch for
+    const isGuarantor = loan.loan_guarantors.some(g => g.guarantor_id === req.user!.id);
+    if (loan.user_id !== req.user!.id && !isGuarantor && !hasPermission(req.user!.role, 'fund.view')) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    res.json(loan);
+    // Rows replaced by a re-amortization, kept for history
+    const supersededSchedule = await prisma.emi_schedule.findMany({
+      where: { loan_id: loan.id, superseded_at: { not: null } },
+      orderBy: [{ schedule_version: 'asc' }, { emi_number: 'asc' }]
+    });
+
+    res.json({ ...loan, superseded_emi_schedule: supersededSchedule });
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch loan' });
   }
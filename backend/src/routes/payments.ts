@@ -1,6 +1,15 @@
 import { Router, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import prisma from '../lib/prisma';
-import { authenticate, AuthRequest, requireAdmin } from '../middleware/auth';
+import { authenticate, AuthRequest, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import * as schema from '../schemas/payments';
+import { HttpError } from '../lib/errors';
+import { maxMoney, money, toAmount } from '../lib/money';
+import { hasPermission } from '../lib/permissions';
+import { recordPreEmiPayment, recordEmiPayment, recordPrepayment } from '../utils/ledger';
+import { assessPenalties, calculatePenalty, daysOverdue, emiUnpaidBase, getPenaltyRules } from '../utils/penalties';
+import { recordAudit } from '../utils/audit';
 
 const router = Router();
 
@@ -16,7 +25,7 @@ const router = Router();
  */
 router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const where = req.user!.role === 'admin' ? {} : { user_id: req.user!.id };
+    const where = hasPermission(req.user!.role, 'fund.view') ? {} : { user_id: req.user!.id };
     
     const payments = await prisma.payments.findMany({
       where,
@@ -52,7 +61,7 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
  */
 router.get('/pending', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const userId = req.user!.role === 'admin' ? undefined : req.user!.id;
+    const userId = hasPermission(req.user!.role, 'fund.view') ? undefined : req.user!.id;
 
     const preEmiDues = await prisma.pre_emi_interest.findMany({
       where: {
@@ -69,6 +78,7 @@ router.get('/pending', authenticate, async (req: AuthRequest, res: Response) =>
     const emiDues = await prisma.emi_schedule.findMany({
       where: {
         is_paid: false,
+        superseded_at: null,
         loans: userId ? { user_id: userId, status: 'active' } : { status: 'active' }
       },
       include: {
@@ -90,155 +100,166 @@ router.get('/pending', authenticate, async (req: AuthRequest, res: Response) =>
 
 /**
  * @swagger
- * /api/payments/pre-emi/{preEmiId}:
- *   post:
- *     summary: Record pre-EMI interest payment
+ * /api/payments/overdue:
+ *   get:
+ *     summary: Get overdue EMI and pre-EMI dues with late penalties as of today
  *     tags: [Payments]
  *     security: [{ bearerAuth: [] }]
- *     parameters:
- *       - in: path
- *         name: preEmiId
- *         required: true
- *         schema: { type: string, format: uuid }
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [amount, payment_date]
- *             properties:
- *               amount: { type: number }
- *               payment_date: { type: string, format: date }
  *     responses:
- *       201: { description: Payment recorded }
- *       404: { description: Pre-EMI interest not found }
+ *       200:
+ *         description: Overdue dues (admin sees all, member sees own)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 rules: { type: object }
+ *                 pre_emi_overdue: { type: array }
+ *                 emi_overdue: { type: array }
  */
-router.post('/pre-emi/:preEmiId', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/overdue', authenticate, validate(schema.overdue), async (req: AuthRequest, res: Response) => {
   try {
-    const { amount, payment_date } = req.body;
-    
-    const preEmi = await prisma.pre_emi_interest.findUnique({
-      where: { id: req.params.preEmiId as string },
-      include: { loans: true }
-    });
+    const loanId = req.query.loan_id as string | undefined;
+    const today = new Date();
+    const rules = await getPenaltyRules();
 
-    if (!preEmi) {
-      return res.status(404).json({ error: 'Pre-EMI interest not found' });
-    }
-
-    if (preEmi.loans.user_id !== req.user!.id && req.user!.role !== 'admin') {
-      return res.status(403).json({ error: 'Access denied' });
-    }
+    const loanFilter = {
+      status: 'active' as const,
+      ...(hasPermission(req.user!.role, 'fund.view') ? {} : { user_id: req.user!.id }),
+      ...(loanId ? { id: loanId } : {})
+    };
+    const include = {
+      loans: { include: { users_loans_user_idTousers: { select: { name: true } } } }
+    };
 
-    const payment = await prisma.payments.create({
-      data: {
-        loan_id: preEmi.loan_id,
-        user_id: preEmi.loans.user_id,
-        amount,
-        interest_component: amount,
-        payment_type: 'pre_emi_interest',
-        payment_date: new Date(payment_date),
-        pre_emi_interest_id: preEmi.id,
-        recorded_by: req.user!.role === 'admin' ? req.user!.id : null
-      }
+    const preEmis = await prisma.pre_emi_interest.findMany({
+      where: { is_paid: false, due_date: { lt: today }, loans: loanFilter },
+      include,
+      orderBy: { due_date: 'asc' }
     });
 
-    await prisma.pre_emi_interest.update({
-      where: { id: preEmi.id },
-      data: { is_paid: true, paid_amount: amount, paid_at: new Date(payment_date) }
+    const emis = await prisma.emi_schedule.findMany({
+      where: { is_paid: false, superseded_at: null, due_date: { lt: today }, loans: loanFilter },
+      include,
+      orderBy: { due_date: 'asc' }
     });
 
-    await prisma.loans.update({
-      where: { id: preEmi.loan_id },
-      data: { total_interest_paid: { increment: amount } }
+    // Penalties are shown as they would be charged today, even if the scan has not run yet
+    const withPenalty = <T extends { due_date: Date; penalty_amount: Prisma.Decimal | null; penalty_paid: Prisma.Decimal | null }>(
+      row: T,
+      unpaid: number
+    ) => {
+      const days = daysOverdue(row.due_date, today);
+      const penalty = maxMoney(row.penalty_amount, calculatePenalty(rules, unpaid, days));
+      return {
+        ...row,
+        days_overdue: days,
+        in_grace: days <= rules.graceDays,
+        penalty_due: toAmount(penalty.minus(money(row.penalty_paid)))
+      };
+    };
+
+    res.json({
+      rules,
+      pre_emi_overdue: preEmis.map(p => withPenalty(p, Number(p.interest_amount))),
+      emi_overdue: emis.map(e => withPenalty(e, emiUnpaidBase(e)))
     });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch overdue payments' });
+  }
+});
 
-    res.status(201).json(payment);
+/**
+ * @swagger
+ * /api/payments/overdue/assess:
+ *   post:
+ *     summary: Charge late penalties on all overdue rows (requires payments.record)
+ *     tags: [Payments]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200:
+ *         description: Number of rows whose penalty was raised
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 emi: { type: integer }
+ *                 preEmi: { type: integer }
+ */
+router.post('/overdue/assess', authenticate, requirePermission('payments.record'), async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const assessed = await assessPenalties(new Date(), undefined, tx);
+      await recordAudit(req, { action: 'penalty.assess', entityType: 'penalties', after: assessed }, tx);
+      return assessed;
+    });
+    res.json(result);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to record payment' });
+    res.status(500).json({ error: 'Failed to assess penalties' });
   }
 });
 
 /**
  * @swagger
- * /api/payments/emi/{emiId}:
+ * /api/payments/pre-emi/{preEmiId}:
  *   post:
- *     summary: Record EMI payment
+ *     summary: Record pre-EMI interest payment (any late penalty is settled first)
  *     tags: [Payments]
  *     security: [{ bearerAuth: [] }]
- *     parameters:
- *       - in: path
- *         name: emiId
- *         required: true
- *         schema: { type: string, format: uuid }
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [amount, payment_date]
- *             properties:
- *               amount: { type: number }
- *               payment_date: { type: string, format: date }
  *     responses:
  *       201: { description: Payment recorded }
- *       404: { description: EMI not found }
+ *       400: { description: Already paid, invalid amount or loan not active }
+ *       403: { description: Access denied }
+ *       404: { description: Pre-EMI interest not found }
  */
-router.post('/emi/:emiId', authenticate, async (req: AuthRequest, res: Response) => {
+router.post('/pre-emi/:preEmiId', authenticate, validate(schema.payPreEmi), async (req: AuthRequest, res: Response) => {
   try {
     const { amount, payment_date } = req.body;
-    
-    const emi = await prisma.emi_schedule.findUnique({
-      where: { id: req.params.emiId as string },
-      include: { loans: true }
-    });
 
-    if (!emi) {
-      return res.status(404).json({ error: 'EMI not found' });
-    }
+    const payment = await recordPreEmiPayment(req, req.params.preEmiId as string, {
+      amount,
+      paymentDate: new Date(payment_date)
+    });
 
-    if (emi.loans.user_id !== req.user!.id && req.user!.role !== 'admin') {
-      return res.status(403).json({ error: 'Access denied' });
+    res.status(201).json(payment);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
     }
+    res.status(500).json({ error: 'Failed to record payment' });
+  }
+});
 
-    const payment = await prisma.payments.create({
-      data: {
-        loan_id: emi.loan_id,
-        user_id: emi.loans.user_id,
-        amount,
-        principal_component: emi.principal_component,
-        interest_component: emi.interest_component,
-        payment_type: 'emi',
-        payment_date: new Date(payment_date),
-        emi_schedule_id: emi.id,
-        recorded_by: req.user!.role === 'admin' ? req.user!.id : null
-      }
-    });
-
-    await prisma.emi_schedule.update({
-      where: { id: emi.id },
-      data: { is_paid: true, paid_amount: amount, paid_at: new Date(payment_date) }
-    });
+/**
+ * @swagger
+ * /api/payments/emi/{emiId}:
+ *   post:
+ *     summary: Record EMI payment (partial amounts settle interest first, excess carries forward)
+ *     tags: [Payments]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       201: { description: Payments recorded, one per EMI settled plus any prepayment }
+ *       400: { description: Already paid, invalid amount, amount exceeds total due or loan not active }
+ *       403: { description: Access denied }
+ *       404: { description: EMI not found }
+ */
+router.post('/emi/:emiId', authenticate, validate(schema.payEmi), async (req: AuthRequest, res: Response) => {
+  try {
+    const { amount, payment_date, excess, reamortize } = req.body;
 
-    const updatedLoan = await prisma.loans.update({
-      where: { id: emi.loan_id },
-      data: {
-        outstanding_principal: { decrement: emi.principal_component },
-        total_interest_paid: { increment: emi.interest_component }
-      }
+    const payments = await recordEmiPayment(req, req.params.emiId as string, {
+      amount,
+      paymentDate: new Date(payment_date),
+      excess,
+      reamortize
     });
 
-    if (Number(updatedLoan.outstanding_principal) <= 0) {
-      await prisma.loans.update({
-        where: { id: emi.loan_id },
-        data: { status: 'completed', completed_at: new Date() }
-      });
-    }
-
-    res.status(201).json(payment);
+    res.status(201).json(payments);
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     res.status(500).json({ error: 'Failed to record payment' });
   }
 });
@@ -247,73 +268,29 @@ router.post('/emi/:emiId', authenticate, async (req: AuthRequest, res: Response)
  * @swagger
  * /api/payments/prepay/{loanId}:
  *   post:
- *     summary: Record prepayment on a loan
+ *     summary: Record prepayment on a loan and re-amortize the remaining EMIs
  *     tags: [Payments]
  *     security: [{ bearerAuth: [] }]
- *     parameters:
- *       - in: path
- *         name: loanId
- *         required: true
- *         schema: { type: string, format: uuid }
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [amount, payment_date]
- *             properties:
- *               amount: { type: number }
- *               payment_date: { type: string, format: date }
  *     responses:
  *       201: { description: Prepayment recorded }
- *       400: { description: Amount exceeds outstanding }
+ *       400: { description: Loan not active or amount exceeds outstanding }
  *       404: { description: Loan not found }
  */
-router.post('/prepay/:loanId', authenticate, async (req: AuthRequest, res: Response) => {
+router.post('/prepay/:loanId', authenticate, validate(schema.prepay), async (req: AuthRequest, res: Response) => {
   try {
-    const { amount, payment_date } = req.body;
-    
-    const loan = await prisma.loans.findUnique({ where: { id: req.params.loanId as string } });
-
-    if (!loan) {
-      return res.status(404).json({ error: 'Loan not found' });
-    }
-
-    if (loan.user_id !== req.user!.id && req.user!.role !== 'admin') {
-      return res.status(403).json({ error: 'Access denied' });
-    }
+    const { amount, payment_date, reamortize } = req.body;
 
-    if (amount > Number(loan.outstanding_principal)) {
-      return res.status(400).json({ error: 'Amount exceeds outstanding principal' });
-    }
-
-    const payment = await prisma.payments.create({
-      data: {
-        loan_id: loan.id,
-        user_id: loan.user_id,
-        amount,
-        principal_component: amount,
-        payment_type: 'prepayment',
-        payment_date: new Date(payment_date),
-        recorded_by: req.user!.role === 'admin' ? req.user!.id : null
-      }
+    const payment = await recordPrepayment(req, req.params.loanId as string, {
+      amount,
+      paymentDate: new Date(payment_date),
+      reamortize
     });
 
-    const updatedLoan = await prisma.loans.update({
-      where: { id: loan.id },
-      data: { outstanding_principal: { decrement: amount } }
-    });
-
-    if (Number(updatedLoan.outstanding_principal) <= 0) {
-      await prisma.loans.update({
-        where: { id: loan.id },
-        data: { status: 'completed', completed_at: new Date() }
-      });
-    }
-
     res.status(201).json(payment);
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     res.status(500).json({ error: 'Failed to record prepayment' });
   }
 });
@@ -0,0 +1,107 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthRequest, requirePermission } from '../middleware/auth';
+import { validate, ValidQuery } from '../middleware/validate';
+import * as schema from '../schemas/reports';
+import { HttpError } from '../lib/errors';
+import { hasPermission } from '../lib/permissions';
+import { buildStatement, renderStatementPdf } from '../utils/statements';
+import { streamExport } from '../utils/exports';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/reports/statement/{userId}:
+ *   get:
+ *     summary: Download a member statement as PDF
+ *     description: Deposits, loan payments, EMIs paid and interest shares for the period, with opening and closing balances. Members can only download their own statement.
+ *     tags: [Reports]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200:
+ *         description: Statement PDF
+ *         content:
+ *           application/pdf:
+ *             schema: { type: string, format: binary }
+ *       400: { description: Invalid date range }
+ *       403: { description: Access denied }
+ *       404: { description: Member not found }
+ */
+router.get('/statement/:userId', authenticate, validate(schema.statement), async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.params.userId as string;
+
+    if (userId !== req.user!.id && !hasPermission(req.user!.role, 'fund.view')) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const query = req.query as ValidQuery<typeof schema.statement>;
+    const today = new Date();
+    const from = query.from ? new Date(query.from) : new Date(Date.UTC(today.getFullYear(), today.getMonth(), 1));
+    const to = query.to ? new Date(query.to) : today;
+
+    if (from > to) {
+      return res.status(400).json({ error: 'Invalid date range' });
+    }
+
+    const statement = await buildStatement(userId, from, to);
+
+    const filename = `statement-${from.toISOString().split('T')[0]}-to-${to.toISOString().split('T')[0]}.pdf`;
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    renderStatementPdf(statement, res);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Statement error:', error);
+    res.status(500).json({ error: 'Failed to generate statement' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/reports/export/{dataset}:
+ *   get:
+ *     summary: Export a ledger as CSV or XLSX (requires reports.export)
+ *     description: Rows are read in pages and streamed, so full histories can be exported.
+ *     tags: [Reports]
+ *     security: [{ bearerAuth: [] }]
+ *     responses:
+ *       200:
+ *         description: Export file
+ *         content:
+ *           text/csv:
+ *             schema: { type: string, format: binary }
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema: { type: string, format: binary }
+ *       400: { description: "Unknown dataset, format or invalid date range" }
+ */
+router.get('/export/:dataset', authenticate, requirePermission('reports.export'), validate(schema.exportDataset), async (req: AuthRequest, res: Response) => {
+  const dataset = req.params.dataset as string;
+  const query = req.query as ValidQuery<typeof schema.exportDataset>;
+  const { format } = query;
+  const from = query.from ? new Date(query.from) : undefined;
+  const to = query.to ? new Date(query.to) : undefined;
+
+  const filename = `${dataset}-${new Date().toISOString().split('T')[0]}.${format}`;
+  res.setHeader('Content-Type', format === 'csv'
+    ? 'text/csv; charset=utf-8'
+    : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  try {
+    await streamExport(dataset, format, { from, to, userId: query.user_id }, res);
+  } catch (error) {
+    console.error('Export error:', error);
+    // Once rows have been sent the status can no longer change; cut the download short instead
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      res.removeHeader('Content-Disposition');
+      res.status(500).json({ error: 'Failed to export data' });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { defineRoute } from '../middleware/validate';
+import { FUND_MEMBER_ROLES } from '../lib/permissions';
+import { PENDING_ACTION_STATUSES } from '../utils/pendingActions';
+import { INTEREST_METHODS } from '../utils/interestMethods';
+import { date, idParams, memberMonth, money, queryLimit, queryOffset, requiredText, uuid } from './common';
+
+const multiplier = z.number({ error: 'Must be a number' }).min(0, { error: 'Must not be negative' });
+const months = z.number({ error: 'Must be a number' }).int({ error: 'Must be a whole number' }).min(1, { error: 'Must be at least 1' });
+const rate = z.number({ error: 'Must be a number' }).min(0, { error: 'Must not be negative' }).max(100, { error: 'Must be at most 100' });
+
+export const changeRole = defineRoute('put', '/api/admin/members/{id}/role', {
+  params: idParams,
+  body: z.object({ role: z.enum(FUND_MEMBER_ROLES) })
+});
+
+export const updateSetting = defineRoute('put', '/api/admin/settings/{key}', {
+  params: z.object({
+    key: requiredText.meta({ description: 'Setting key (e.g., min_monthly_deposit, max_active_loans)' })
+  }),
+  body: z.object({ value: requiredText })
+});
+
+export const createBracket = defineRoute('post', '/api/admin/interest-brackets', {
+  body: z.object({
+    product_id: uuid.optional().meta({ description: 'Loan product; omit for the shared set' }),
+    min_multiplier: multiplier,
+    max_multiplier: multiplier.optional(),
+    interest_rate: rate
+  })
+});
+
+export const updateBracket = defineRoute('put', '/api/admin/interest-brackets/{id}', {
+  params: idParams,
+  body: z.object({
+    product_id: uuid.nullable().optional().meta({ description: 'Loan product; null moves it to the shared set' }),
+    min_multiplier: multiplier.optional(),
+    max_multiplier: multiplier.nullable().optional(),
+    interest_rate: rate.optional(),
+    is_active: z.boolean().optional()
+  })
+});
+
+const productFields = {
+  name: requiredText,
+  description: z.string().nullable().optional(),
+  min_tenure_months: months.meta({ description: 'Fewest EMIs a member can choose' }),
+  max_tenure_months: months.meta({ description: 'Most EMIs a member can choose' }),
+  default_tenure_months: months.meta({ description: 'EMIs used when none is chosen' }),
+  max_term_months: months.meta({ description: 'Must be fully repaid within this many months of disbursement' }),
+  max_pre_emi_days: z.number({ error: 'Must be a number' }).int({ error: 'Must be a whole number' }).min(0, { error: 'Must not be negative' })
+    .nullable().optional().meta({ description: 'Longest gap between disbursement and the first EMI; null for no limit' }),
+  max_multiplier: multiplier.positive({ error: 'Must be greater than 0' })
+    .nullable().optional().meta({ description: 'Loan ÷ deposits cap; null for the top of the bracket set' }),
+  max_per_member: months.optional().meta({ description: 'Open loans of this product one member may hold (default 1)' }),
+  interest_method: z.enum(INTEREST_METHODS).optional()
+    .meta({ description: 'How interest is worked out on new loans (default reducing_balance)' })
+};
+
+export const createProduct = defineRoute('post', '/api/admin/loan-products', {
+  body: z.object({
+    code: requiredText.regex(/^[a-z0-9_]+$/, { error: 'Use lowercase letters, digits and underscores' }),
+    ...productFields
+  })
+});
+
+export const updateProduct = defineRoute('put', '/api/admin/loan-products/{id}', {
+  params: idParams,
+  body: z.object({ ...productFields, is_active: z.boolean() }).partial()
+});
+
+export const bulkDeposits = defineRoute('post', '/api/admin/bulk-deposits', {
+  body: z.object({
+    user_id: uuid,
+    deposits: z.array(z.object({
+      amount: money,
+      member_month: memberMonth,
+      deposit_date: date,
+      notes: z.string().optional()
+    })).min(1, { error: 'Add at least one deposit' })
+  })
+});
+
+export const uploadDeposits = defineRoute('post', '/api/admin/bulk-deposits/upload', {
+  contentType: 'multipart/form-data',
+  body: z.object({
+    file: z.any().optional().meta({ type: 'string', format: 'binary', description: 'Required: .csv or .xlsx' }),
+    dry_run: z.enum(['true', 'false']).default('true')
+  })
+});
+
+export const auditLog = defineRoute('get', '/api/admin/audit', {
+  query: z.object({
+    actor_id: uuid.optional(),
+    action: z.string().optional()
+      .meta({ example: 'loan.approve', description: "Exact action, or a prefix ending in '.' (e.g., 'loan.')" }),
+    entity_type: z.string().optional(),
+    entity_id: z.string().optional(),
+    from: date.optional(),
+    to: date.optional(),
+    limit: queryLimit(50, 500),
+    offset: queryOffset
+  })
+});
+
+export const loginFailures = defineRoute('get', '/api/admin/login-failures', {
+  query: z.object({
+    phone: z.string().optional(),
+    user_id: uuid.optional(),
+    reason: z.enum(['unknown_phone', 'bad_password', 'inactive', 'locked']).optional(),
+    ip_address: z.string().optional(),
+    from: date.optional(),
+    to: date.optional(),
+    limit: queryLimit(50, 500),
+    offset: queryOffset
+  })
+});
+
+export const pendingActions = defineRoute('get', '/api/admin/pending-actions', {
+  query: z.object({ status: z.enum(PENDING_ACTION_STATUSES).optional() })
+});
+
+export const decidePendingAction = defineRoute('post', '/api/admin/pending-actions/{id}/{decision}', {
+  params: z.object({ id: uuid, decision: z.enum(['approve', 'reject', 'cancel']) }),
+  body: z.object({ note: z.string().optional().meta({ description: 'Required when rejecting' }) })
+});
+
+export const jobRuns = defineRoute('get', '/api/admin/jobs/runs', {
+  query: z.object({
+    job: z.string().optional(),
+    status: z.enum(['running', 'succeeded', 'failed']).optional(),
+    limit: queryLimit(50, 500)
+  })
+});
+
+export const runJob = defineRoute('post', '/api/admin/jobs/{name}/run', {
+  params: z.object({ name: requiredText })
+});
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { defineRoute } from '../middleware/validate';
+import { date, idParams, optionalEmail, password, phone, requiredText } from './common';
+
+const registration = {
+  name: requiredText.max(100, { error: 'Must be at most 100 characters' }),
+  phone: phone.meta({ description: 'Required, must be unique' }),
+  email: optionalEmail.meta({ description: 'Optional' }),
+  password
+};
+
+export const register = defineRoute('post', '/api/auth/register', {
+  body: z.object(registration)
+});
+
+export const login = defineRoute('post', '/api/auth/login', {
+  body: z.object({ phone: requiredText, password: requiredText })
+});
+
+export const refresh = defineRoute('post', '/api/auth/refresh', {
+  body: z.object({ refresh_token: requiredText })
+});
+
+export const logout = defineRoute('post', '/api/auth/logout', {
+  body: z.object({ refresh_token: requiredText })
+});
+
+export const changePassword = defineRoute('post', '/api/auth/change-password', {
+  body: z.object({ current_password: requiredText, new_password: password })
+});
+
+export const resetPassword = defineRoute('post', '/api/auth/reset-password', {
+  body: z.object({
+    phone: requiredText,
+    code: z.string().trim().regex(/^\d{6}$/, { error: 'Must be the 6-digit code' }).meta({ example: '042917' }),
+    new_password: password
+  })
+});
+
+export const approveUser = defineRoute('post', '/api/auth/approve/{id}', { params: idParams });
+
+export const rejectUser = defineRoute('post', '/api/auth/reject/{id}', {
+  params: idParams,
+  body: z.object({ reason: z.string().trim().optional() })
+});
+
+export const adminRegister = defineRoute('post', '/api/auth/admin/register', {
+  body: z.object({
+    ...registration,
+    joined_at: date.optional().meta({ description: 'Optional join date for backdating' })
+  })
+});
+
+export const deactivateUser = defineRoute('delete', '/api/auth/admin/delete/{id}', { params: idParams });
+
+export const revokeSessions = defineRoute('post', '/api/auth/admin/revoke-sessions/{id}', { params: idParams });
+
+export const unlockUser = defineRoute('post', '/api/auth/admin/unlock/{id}', { params: idParams });
+
+export const issueResetCode = defineRoute('post', '/api/auth/admin/reset-code/{id}', { params: idParams });
+
+export const purgeUser = defineRoute('delete', '/api/auth/admin/purge/{id}', {
+  params: idParams,
+  body: z.object({ confirmName: requiredText.meta({ description: 'Must match user name exactly' }) })
+});
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+// Building blocks shared by the route schemas. Messages are shown to users as-is.
+
+export const uuid = z.guid({ error: 'Must be a valid id' });
+
+export const date = z.iso.date({ error: 'Must be a date (YYYY-MM-DD)' });
+
+export const money = z.number({ error: 'Must be a number' }).positive({ error: 'Must be greater than 0' });
+
+export const memberMonth = z.number({ error: 'Must be a number' })
+  .int({ error: 'Must be a whole number' })
+  .min(1, { error: 'Must be at least 1' });
+
+export const emiMonths = z.number({ error: 'Must be a number' })
+  .int({ error: 'Must be a whole number' })
+  .min(1, { error: 'Must be at least 1' })
+  .max(120, { error: 'Must be at most 120' });
+
+export const requiredText = z.string({ error: 'Is required' }).trim().min(1, { error: 'Is required' });
+
+export const password = z.string({ error: 'Is required' }).min(6, { error: 'Must be at least 6 characters' });
+
+export const phone = z.string({ error: 'Is required' }).trim()
+  .regex(/^\+?\d{10,14}$/, { error: 'Must be a phone number (10 to 14 digits)' });
+
+// Blank is treated as "no email"
+export const optionalEmail = z.email({ error: 'Must be a valid email' }).or(z.literal('')).optional();
+
+export const reamortizeMode = z.enum(['reduce_tenure', 'reduce_emi']);
+
+// Query strings arrive as text
+export const queryLimit = (fallback: number, max: number) =>
+  z.coerce.number().int().min(1).max(max).default(fallback);
+
+export const queryOffset = z.coerce.number().int().min(0).default(0);
+
+export const idParams = z.object({ id: uuid });
+export const userIdParams = z.object({ userId: uuid });
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { defineRoute } from '../middleware/validate';
+import { date, idParams, memberMonth, money, requiredText, userIdParams, uuid } from './common';
+
+export const memberSummary = defineRoute('get', '/api/deposits/summary/{userId}', { params: userIdParams });
+
+export const recordDeposit = defineRoute('post', '/api/deposits', {
+  body: z.object({
+    user_id: uuid,
+    amount: money.meta({ description: 'Must be a multiple of deposit_multiple (300)' }),
+    member_month: memberMonth.meta({ description: 'Member relative month number' }),
+    deposit_date: date,
+    notes: z.string().optional()
+  })
+});
+
+export const recalculate = defineRoute('post', '/api/deposits/recalculate/{userId}', { params: userIdParams });
+
+export const correctDeposit = defineRoute('put', '/api/deposits/{id}', {
+  params: idParams,
+  body: z.object({
+    amount: money.optional(),
+    member_month: memberMonth.optional(),
+    deposit_date: date.optional(),
+    reason: requiredText
+  })
+});
+
+export const reverseDeposit = defineRoute('post', '/api/deposits/{id}/reverse', {
+  params: idParams,
+  body: z.object({ reason: requiredText })
+});
@@ -0,0 +1,8 @@
+// Importing every schema module registers its routes for the API docs
+import './admin';
+import './auth';
+import './deposits';
+import './interest';
+import './loans';
+import './payments';
+import './reports';
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { defineRoute } from '../middleware/validate';
+import { memberMonth, money, uuid } from './common';
+
+export const createSnapshot = defineRoute('post', '/api/interest/snapshots', {
+  body: z.object({
+    fund_month: memberMonth,
+    month_year: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, { error: 'Must be a month (YYYY-MM)' }).meta({ example: '2023-07' })
+  })
+});
+
+export const recordInterest = defineRoute('post', '/api/interest/entries', {
+  body: z.object({
+    earned_month: memberMonth.meta({ description: 'Month when interest was received' }),
+    source: z.enum(['loan_interest', 'bank_interest', 'other']),
+    source_description: z.string().optional(),
+    loan_id: uuid.or(z.literal('')).optional(),
+    pool_source_month: memberMonth.meta({ description: 'Month whose pool funded the loan' }),
+    amount: money,
+    notes: z.string().optional()
+  })
+});
@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { defineRoute } from '../middleware/validate';
+import { date, emiMonths, idParams, money, phone, requiredText, userIdParams, uuid } from './common';
+
+const productId = uuid.optional().meta({ description: 'Loan product; defaults to the regular product' });
+const productQuery = z.object({ product_id: productId });
+
+export const eligibility = defineRoute('get', '/api/loans/eligibility', { query: productQuery });
+
+export const memberEligibility = defineRoute('get', '/api/loans/eligibility/{userId}', {
+  params: userIdParams,
+  query: productQuery
+});
+
+export const requestLoan = defineRoute('post', '/api/loans/request', {
+  body: z.object({
+    amount: money.meta({ description: 'Loan amount requested' }),
+    product_id: productId,
+    tenure_months: emiMonths.optional().meta({ description: "Number of EMIs; defaults to the product's default tenure" }),
+    emi_start_date: date.optional().meta({ description: 'Optional EMI start date' }),
+    guarantors: z.array(z.object({
+      phone: phone.meta({ description: "Guarantor's registered phone number" }),
+      amount: money.meta({ description: 'Deposits they pledge; locked while the loan is open' })
+    })).max(5, { error: 'At most 5 guarantors' }).default([])
+      .meta({ description: 'Members vouching for the loan; each must accept before disbursement' })
+  })
+});
+
+export const simulateLoan = defineRoute('post', '/api/loans/simulate', {
+  body: z.object({
+    amount: money,
+    product_id: productId,
+    emi_months: emiMonths.optional().meta({ description: "Number of EMI months; defaults to the product's default tenure" }),
+    emi_start_date: date,
+    disbursement_date: date.optional().meta({ description: 'Defaults to today' }),
+    guaranteed: money.optional().meta({ description: 'Deposits guarantors would pledge for the loan' }),
+    user_id: uuid.optional().meta({ description: 'Another member (requires fund.view); defaults to the current user' })
+  })
+});
+
+export const reviewLoan = defineRoute('post', '/api/loans/{id}/review', { params: idParams });
+
+export const approveLoan = defineRoute('post', '/api/loans/{id}/approve', { params: idParams });
+
+export const rejectLoan = defineRoute('post', '/api/loans/{id}/reject', {
+  params: idParams,
+  body: z.object({ reason: requiredText })
+});
+
+export const disburseLoan = defineRoute('post', '/api/loans/{id}/disburse', {
+  params: idParams,
+  body: z.object({ disbursed_at: date.optional().meta({ description: 'Defaults to today' }) })
+});
+
+export const defaultLoan = defineRoute('post', '/api/loans/{id}/default', {
+  params: idParams,
+  body: z.object({
+    offset_deposits: z.boolean().default(false),
+    offset_guarantor_deposits: z.boolean().default(false)
+      .meta({ description: "Also offset the deposits guarantors pledged, each up to their pledge" }),
+    notes: z.string().optional()
+  })
+});
+
+export const recoverLoan = defineRoute('post', '/api/loans/{id}/recover', {
+  params: idParams,
+  body: z.object({
+    amount: money,
+    payment_date: date.optional(),
+    notes: z.string().optional()
+  })
+});
+
+export const startEmi = defineRoute('post', '/api/loans/{id}/start-emi', {
+  params: idParams,
+  body: z.object({
+    emi_start_date: date,
+    emi_months: emiMonths.optional().meta({ description: "Number of EMI months; defaults to the tenure chosen when applying" })
+  })
+});
+
+export const respondToGuarantee = defineRoute('post', '/api/loans/guarantees/{id}/{decision}', {
+  params: z.object({ id: uuid, decision: z.enum(['accept', 'decline']) })
+});
+
+export const loanDetail = defineRoute('get', '/api/loans/{id}', { params: idParams });
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { defineRoute } from '../middleware/validate';
+import { date, money, reamortizeMode, uuid } from './common';
+
+export const overdue = defineRoute('get', '/api/payments/overdue', {
+  query: z.object({ loan_id: uuid.optional() })
+});
+
+export const payPreEmi = defineRoute('post', '/api/payments/pre-emi/{preEmiId}', {
+  params: z.object({ preEmiId: uuid }),
+  body: z.object({ amount: money, payment_date: date })
+});
+
+export const payEmi = defineRoute('post', '/api/payments/emi/{emiId}', {
+  params: z.object({ emiId: uuid }),
+  body: z.object({
+    amount: money,
+    payment_date: date,
+    excess: z.enum(['next_emi', 'prepayment']).default('next_emi')
+      .meta({ description: "Where any amount beyond this EMI's remaining due goes" }),
+    reamortize: reamortizeMode.default('reduce_tenure')
+      .meta({ description: 'How remaining EMIs are rebuilt if part of the amount becomes a prepayment' })
+  })
+});
+
+export const prepay = defineRoute('post', '/api/payments/prepay/{loanId}', {
+  params: z.object({ loanId: uuid }),
+  body: z.object({
+    amount: money,
+    payment_date: date,
+    reamortize: reamortizeMode.default('reduce_tenure')
+      .meta({ description: 'Keep the EMI and shorten the tenure, or keep the tenure and lower the EMI' })
+  })
+});
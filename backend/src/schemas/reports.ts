@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { defineRoute } from '../middleware/validate';
+import { EXPORT_DATASETS } from '../utils/exports';
+import { date, userIdParams, uuid } from './common';
+
+const dateRange = <T extends z.ZodObject>(schema: T) =>
+  schema.refine(q => !q.from || !q.to || q.from <= q.to, { error: 'Must not be before from', path: ['to'] });
+
+export const statement = defineRoute('get', '/api/reports/statement/{userId}', {
+  params: userIdParams,
+  query: dateRange(z.object({
+    from: date.optional().meta({ description: 'Defaults to the first day of the current month' }),
+    to: date.optional().meta({ description: 'Defaults to today' })
+  }))
+});
+
+export const exportDataset = defineRoute('get', '/api/reports/export/{dataset}', {
+  params: z.object({ dataset: z.enum(EXPORT_DATASETS as [string, ...string[]]) }),
+  query: dateRange(z.object({
+    format: z.enum(['csv', 'xlsx']).default('csv'),
+    from: date.optional(),
+    to: date.optional(),
+    user_id: uuid.optional()
+      .meta({ description: 'Only rows for this member (via the loan for EMIs, interest entries and emergency fund transactions)' })
+  }))
+});
@@ -1,4 +1,11 @@
 import swaggerJsdoc from 'swagger-jsdoc';
+import { z } from 'zod';
+import { getRouteDefinitions } from './middleware/validate';
+import './schemas';
+
+type JsonSchema = Record<string, unknown> & { properties?: Record<string, JsonSchema>; required?: string[] };
+type Operation = Record<string, unknown> & { responses?: Record<string, unknown> };
+type Spec = { paths?: Record<string, Record<string, Operation>> };
 
 const options: swaggerJsdoc.Options = {
   definition: {
@@ -27,7 +34,7 @@ const options: swaggerJsdoc.Options = {
             name: { type: 'string' },
             email: { type: 'string', format: 'email' },
             phone: { type: 'string' },
-            role: { type: 'string', enum: ['admin', 'member'] },
+            role: { type: 'string', enum: ['admin', 'treasurer', 'auditor', 'secretary', 'member'] },
             status: { type: 'string', enum: ['pending', 'active', 'inactive', 'rejected'] },
             joined_at: { type: 'string', format: 'date' }
           }
@@ -51,11 +58,17 @@ const options: swaggerJsdoc.Options = {
             principal_amount: { type: 'number' },
             interest_rate: { type: 'number' },
             multiplier_at_disbursement: { type: 'number' },
-            disbursed_at: { type: 'string', format: 'date' },
+            disbursed_at: { type: 'string', format: 'date', nullable: true },
             emi_start_date: { type: 'string', format: 'date' },
-            maturity_date: { type: 'string', format: 'date' },
+            maturity_date: { type: 'string', format: 'date', nullable: true },
             outstanding_principal: { type: 'number' },
-            status: { type: 'string', enum: ['active', 'completed', 'defaulted'] }
+            status: {
+              type: 'string',
+              enum: ['requested', 'under_review', 'approved', 'rejected', 'active', 'completed', 'defaulted']
+            },
+            approved_at: { type: 'string', format: 'date-time' },
+            reviewed_at: { type: 'string', format: 'date-time' },
+            rejection_reason: { type: 'string' }
           }
         },
         InterestBracket: {
@@ -73,6 +86,23 @@ const options: swaggerJsdoc.Options = {
           properties: {
             error: { type: 'string' }
           }
+        },
+        ValidationError: {
+          type: 'object',
+          properties: {
+            error: { type: 'string', description: 'Every problem, joined into one message' },
+            fields: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  in: { type: 'string', enum: ['params', 'query', 'body'] },
+                  field: { type: 'string' },
+                  message: { type: 'string' }
+                }
+              }
+            }
+          }
         }
       }
     }
@@ -80,4 +110,50 @@ const options: swaggerJsdoc.Options = {
   apis: ['./src/routes/*.ts']
 };
 
-export const swaggerSpec = swaggerJsdoc(options);
+function toJsonSchema(schema: z.ZodType): JsonSchema {
+  return z.toJSONSchema(schema, { target: 'openapi-3.0', io: 'input', unrepresentable: 'any' }) as JsonSchema;
+}
+
+function toParameters(schema: z.ZodType | undefined, location: 'path' | 'query') {
+  if (!schema) return [];
+  const json = toJsonSchema(schema);
+  return Object.entries(json.properties || {}).map(([name, { description, ...property }]) => ({
+    in: location,
+    name,
+    required: location === 'path' || (json.required || []).includes(name),
+    schema: property,
+    ...(description ? { description } : {})
+  }));
+}
+
+// Parameters and request bodies are generated from the schemas routes validate with (src/schemas),
+// so the docs cannot drift from what the API accepts. The JSDoc blocks on the routes supply the rest.
+function applyRouteSchemas(spec: Spec) {
+  spec.paths = spec.paths || {};
+  for (const route of getRouteDefinitions()) {
+    const path = (spec.paths[route.path] = spec.paths[route.path] || {});
+    const operation = (path[route.method] = path[route.method] || { responses: {} });
+
+    const parameters = [...toParameters(route.params, 'path'), ...toParameters(route.query, 'query')];
+    if (parameters.length) operation.parameters = parameters;
+
+    if (route.body) {
+      const body = toJsonSchema(route.body);
+      operation.requestBody = {
+        required: (body.required || []).length > 0,
+        content: { [route.contentType || 'application/json']: { schema: body } }
+      };
+    }
+
+    operation.responses = operation.responses || {};
+    if (!operation.responses['400']) {
+      operation.responses['400'] = {
+        description: 'Invalid request',
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/ValidationError' } } }
+      };
+    }
+  }
+  return spec;
+}
+
+export const swaggerSpec = applyRouteSchemas(swaggerJsdoc(options) as Spec);
@@ -0,0 +1,80 @@
+import { money, roundMoney, toAmount } from '../lib/money';
+
+// Monthly reducing balance arithmetic. Pure functions with no database access, so the
+// interest methods built on them can be used (and tested) on their own.
+
+// Calculate pre-EMI total: Principal × (1 + Rate/12)^(Days/30)
+export function calculatePreEmiTotal(principal: number, ratePercent: number, days: number): number {
+  const monthlyRate = money(ratePercent).div(100).div(12);
+  const periods = money(days).div(30);
+  return toAmount(money(principal).times(monthlyRate.plus(1).pow(periods)));
+}
+
+// Calculate pre-EMI interest only
+export function calculatePreEmiInterest(principal: number, ratePercent: number, days: number): number {
+  return toAmount(money(calculatePreEmiTotal(principal, ratePercent, days)).minus(principal));
+}
+
+// Calculate EMI (reducing balance)
+export function calculateEMI(principal: number, annualRate: number, months: number): number {
+  const monthlyRate = money(annualRate).div(100).div(12);
+  if (monthlyRate.isZero()) return toAmount(money(principal).div(months));
+
+  const growth = monthlyRate.plus(1).pow(months);
+  const emi = money(principal).times(monthlyRate).times(growth).div(growth.minus(1));
+  return toAmount(emi);
+}
+
+// Number of months needed to repay principal at a given EMI (reducing balance)
+export function calculateTenure(principal: number, annualRate: number, emi: number): number {
+  const monthlyRate = annualRate / 100 / 12;
+  if (monthlyRate === 0) return Math.ceil(principal / emi);
+
+  // EMI must at least cover the first month's interest
+  if (emi <= principal * monthlyRate) return Infinity;
+
+  const months = -Math.log(1 - principal * monthlyRate / emi) / Math.log(1 + monthlyRate);
+  return Math.ceil(Math.round(months * 1e6) / 1e6);
+}
+
+// Generate EMI schedule
+export function generateEMISchedule(
+  principal: number, 
+  annualRate: number, 
+  months: number,
+  startDate: Date
+): Array<{
+  emi_number: number;
+  due_date: Date;
+  principal_component: number;
+  interest_component: number;
+  total_emi: number;
+  outstanding_after: number;
+}> {
+  const schedule = [];
+  const monthlyRate = money(annualRate).div(100).div(12);
+  const emi = money(calculateEMI(principal, annualRate, months));
+  let outstanding = roundMoney(principal);
+
+  for (let i = 1; i <= months; i++) {
+    const interestComponent = roundMoney(outstanding.times(monthlyRate));
+    // The last EMI clears whatever is left, so the principal components add up to the loan exactly
+    const principalComponent = i === months ? outstanding : emi.minus(interestComponent);
+    const totalEmi = i === months ? principalComponent.plus(interestComponent) : emi;
+    outstanding = outstanding.minus(principalComponent);
+
+    const dueDate = new Date(startDate);
+    dueDate.setMonth(dueDate.getMonth() + i);
+
+    schedule.push({
+      emi_number: i,
+      due_date: dueDate,
+      principal_component: principalComponent.toNumber(),
+      interest_component: interestComponent.toNumber(),
+      total_emi: totalEmi.toNumber(),
+      outstanding_after: outstanding.toNumber()
+    });
+  }
+
+  return schedule;
+}
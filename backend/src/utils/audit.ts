@@ -0,0 +1,45 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { AuthRequest } from '../middleware/auth';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export interface AuditEntry {
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Decimals and Dates serialize to strings, so round-trip through JSON before storing
+function toJson(value: unknown) {
+  if (value === undefined || value === null) return Prisma.DbNull;
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+}
+
+// The access token carries no email, so look it up. Stored with the entry, it still names
+// the actor after their user row is purged.
+async function actorEmail(actorId: string | undefined, db: Db) {
+  if (!actorId) return null;
+  const actor = await db.users.findUnique({ where: { id: actorId }, select: { email: true } });
+  return actor?.email || null;
+}
+
+// Append an entry to the audit log. Pass null for changes made by the system (scheduled jobs).
+// The table rejects UPDATE and DELETE, so entries can only ever be added.
+export async function recordAudit(req: AuthRequest | null, entry: AuditEntry, db: Db = prisma) {
+  return db.audit_log.create({
+    data: {
+      actor_id: req?.user?.id || null,
+      actor_email: await actorEmail(req?.user?.id, db),
+      action: entry.action,
+      entity_type: entry.entityType,
+      entity_id: entry.entityId || null,
+      before_data: toJson(entry.before),
+      after_data: toJson(entry.after),
+      ip_address: req?.ip || null,
+      user_agent: req?.get('user-agent') || null
+    }
+  });
+}
@@ -0,0 +1,202 @@
+import { Prisma, deposits } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../lib/errors';
+import { money } from '../lib/money';
+import { AuthRequest } from '../middleware/auth';
+import { recordAudit } from './audit';
+import { LedgerActor } from './ledger';
+
+type Tx = Prisma.TransactionClient;
+
+// Entries that can still be corrected: original deposits and the corrections that replaced them
+export const CORRECTABLE_ENTRY_TYPES = ['deposit', 'correction'];
+
+export interface DepositCorrection {
+  amount?: number;
+  memberMonth?: number;
+  depositDate?: Date;
+  reason: string;
+}
+
+// Recompute every running total for a member in entry order
+export async function rebuildCumulativeTotals(tx: Tx, userId: string) {
+  const deposits = await tx.deposits.findMany({
+    where: { user_id: userId },
+    orderBy: [{ member_month: 'asc' }, { deposit_date: 'asc' }, { created_at: 'asc' }]
+  });
+
+  let runningTotal = money(0);
+  for (const deposit of deposits) {
+    runningTotal = runningTotal.plus(money(deposit.amount));
+    if (!runningTotal.equals(money(deposit.cumulative_total))) {
+      await tx.deposits.update({
+        where: { id: deposit.id },
+        data: { cumulative_total: runningTotal.toNumber() }
+      });
+    }
+  }
+
+  return { updated: deposits.length, finalTotal: runningTotal.toNumber() };
+}
+
+// Finalized pool snapshots for the deposit's month or later already counted it
+export async function finalizedSnapshotsCovering(depositDate: Date, db: Tx = prisma) {
+  const monthYear = depositDate.toISOString().slice(0, 7);
+  const snapshots = await db.monthly_pool_snapshot.findMany({
+    where: { is_finalized: true, month_year: { gte: monthYear } },
+    select: { fund_month: true, month_year: true },
+    orderBy: { fund_month: 'asc' }
+  });
+  return snapshots;
+}
+
+// Lock the member's deposits so new entries, corrections and rebuilds for one member run one at a time
+export async function lockMemberDeposits(tx: Tx, userId: string) {
+  await tx.$queryRaw`SELECT id FROM deposits WHERE user_id = ${userId}::uuid FOR UPDATE`;
+}
+
+async function lockDeposit(tx: Tx, depositId: string) {
+  const deposit = await tx.deposits.findUnique({ where: { id: depositId } });
+  if (!deposit) {
+    throw new HttpError(404, 'Deposit not found');
+  }
+  await lockMemberDeposits(tx, deposit.user_id);
+
+  const locked = await tx.deposits.findUnique({ where: { id: depositId } });
+  if (!CORRECTABLE_ENTRY_TYPES.includes(locked!.entry_type)) {
+    throw new HttpError(400, `A ${locked!.entry_type} entry cannot be corrected`);
+  }
+  if (locked!.reversed_at) {
+    throw new HttpError(400, 'Deposit has already been reversed or corrected');
+  }
+  return locked!;
+}
+
+function assertReason(reason: string) {
+  if (!reason || !String(reason).trim()) {
+    throw new HttpError(400, 'A reason is required');
+  }
+}
+
+// Post the negative entry that cancels a deposit and mark the original as reversed
+async function postReversal(
+  tx: Tx,
+  deposit: deposits,
+  reason: string,
+  actor: LedgerActor,
+  flagged: boolean
+) {
+  const reversal = await tx.deposits.create({
+    data: {
+      user_id: deposit.user_id,
+      amount: -Number(deposit.amount),
+      entry_type: 'reversal',
+      member_month: deposit.member_month,
+      deposit_date: deposit.deposit_date,
+      cumulative_total: 0,
+      notes: `Reversal of month ${deposit.member_month} entry`,
+      correction_reason: reason,
+      corrects_deposit_id: deposit.id,
+      in_finalized_snapshot: flagged,
+      recorded_by: actor.id
+    }
+  });
+
+  await tx.deposits.update({
+    where: { id: deposit.id },
+    data: { reversed_at: new Date(), reversed_by: actor.id }
+  });
+
+  return reversal;
+}
+
+// Reverse a deposit. The original row stays; a negative 'reversal' entry cancels it.
+export async function reverseDeposit(req: AuthRequest, depositId: string, input: { reason: string }) {
+  assertReason(input.reason);
+  const reason = String(input.reason).trim();
+
+  return prisma.$transaction(async (tx) => {
+    const deposit = await lockDeposit(tx, depositId);
+    const snapshots = await finalizedSnapshotsCovering(deposit.deposit_date, tx);
+
+    const reversal = await postReversal(tx, deposit, reason, req.user!, snapshots.length > 0);
+    const totals = await rebuildCumulativeTotals(tx, deposit.user_id);
+
+    await recordAudit(req, {
+      action: 'deposit.reverse', entityType: 'deposits', entityId: deposit.id,
+      before: deposit,
+      after: { reversal, reason, snapshots }
+    }, tx);
+
+    return { original: deposit, reversal, snapshots, totals };
+  });
+}
+
+// Correct a deposit's amount, month or date. The original row stays: it is reversed and a
+// 'correction' entry is posted with the corrected values. The correction can itself be corrected later.
+export async function correctDeposit(req: AuthRequest, depositId: string, input: DepositCorrection) {
+  assertReason(input.reason);
+  const reason = String(input.reason).trim();
+
+  const setting = await prisma.fund_settings.findUnique({
+    where: { setting_key: 'deposit_multiple' }
+  });
+  const multiple = parseInt(setting?.setting_value || '300');
+
+  return prisma.$transaction(async (tx) => {
+    const deposit = await lockDeposit(tx, depositId);
+
+    const amount = input.amount ?? Number(deposit.amount);
+    const memberMonth = input.memberMonth ?? deposit.member_month;
+    const depositDate = input.depositDate ?? deposit.deposit_date;
+
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0 || amount % multiple !== 0) {
+      throw new HttpError(400, `Amount must be a positive multiple of ${multiple}`);
+    }
+    if (!Number.isInteger(memberMonth) || memberMonth < 1) {
+      throw new HttpError(400, 'member_month must be at least 1');
+    }
+    if (Number.isNaN(depositDate.getTime())) {
+      throw new HttpError(400, 'Invalid deposit_date');
+    }
+    if (amount === Number(deposit.amount) && memberMonth === deposit.member_month
+      && depositDate.getTime() === deposit.deposit_date.getTime()) {
+      throw new HttpError(400, 'Nothing to correct');
+    }
+
+    // Either side of the correction may land in an already finalized snapshot
+    const snapshots = [
+      ...await finalizedSnapshotsCovering(deposit.deposit_date, tx),
+      ...await finalizedSnapshotsCovering(depositDate, tx)
+    ].filter((s, i, all) => all.findIndex(o => o.fund_month === s.fund_month) === i);
+    const flagged = snapshots.length > 0;
+
+    const reversal = await postReversal(tx, deposit, reason, req.user!, flagged);
+    const correction = await tx.deposits.create({
+      data: {
+        user_id: deposit.user_id,
+        amount,
+        entry_type: 'correction',
+        member_month: memberMonth,
+        deposit_date: depositDate,
+        cumulative_total: 0,
+        notes: deposit.notes,
+        correction_reason: reason,
+        corrects_deposit_id: deposit.id,
+        in_finalized_snapshot: flagged,
+        recorded_by: req.user!.id
+      }
+    });
+
+    const totals = await rebuildCumulativeTotals(tx, deposit.user_id);
+    const updated = await tx.deposits.findUnique({ where: { id: correction.id } });
+
+    await recordAudit(req, {
+      action: 'deposit.correct', entityType: 'deposits', entityId: deposit.id,
+      before: deposit,
+      after: { reversal_id: reversal.id, correction: updated, reason, snapshots }
+    }, tx);
+
+    return { original: deposit, reversal, correction: updated!, snapshots, totals };
+  });
+}
@@ -0,0 +1,292 @@
+import ExcelJS from 'exceljs';
+import { Prisma } from '@prisma/client';
+import { Writable } from 'stream';
+import prisma from '../lib/prisma';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportFilters {
+  from?: Date;
+  to?: Date;
+  userId?: string;
+}
+
+interface Column<Row> {
+  header: string;
+  width?: number;
+  value: (row: Row) => unknown;
+}
+
+// One page of rows in a stable order, starting after the row with id `cursor`
+type PageQuery<Row> = (filters: ExportFilters, cursor: string | undefined, take: number) => PromiseLike<Row[]>;
+
+// A dataset once its columns have been applied: each row is its id and the column values
+interface ExportDataset {
+  columns: { header: string; width?: number }[];
+  page: PageQuery<{ id: string; values: unknown[] }>;
+}
+
+// Pair a query with the columns read from its rows. Curried so the row type is inferred from
+// the query alone, before the columns are checked against it.
+function dataset<Row extends { id: string }>(page: PageQuery<Row>) {
+  return (columns: Column<Row>[]): ExportDataset => ({
+    columns: columns.map(({ header, width }) => ({ header, width })),
+    page: async (filters, cursor, take) => (await page(filters, cursor, take))
+      .map(row => ({ id: row.id, values: columns.map(c => c.value(row)) }))
+  });
+}
+
+const PAGE_SIZE = 500;
+
+// Date range on a DATE/TIMESTAMP column; `to` covers the whole day
+function dateRange(filters: ExportFilters) {
+  if (!filters.from && !filters.to) return undefined;
+  const range: { gte?: Date; lt?: Date } = {};
+  if (filters.from) range.gte = filters.from;
+  if (filters.to) {
+    const end = new Date(filters.to);
+    end.setDate(end.getDate() + 1);
+    range.lt = end;
+  }
+  return range;
+}
+
+function paging(cursor: string | undefined, take: number): { cursor?: { id: string }; skip?: number; take: number } {
+  return cursor ? { cursor: { id: cursor }, skip: 1, take } : { take };
+}
+
+// The member a row belongs to, through whichever relation its query included
+interface MemberRelations {
+  users_deposits_user_idTousers?: { name: string } | null;
+  users_loans_user_idTousers?: { name: string } | null;
+  users_payments_user_idTousers?: { name: string } | null;
+  loans?: { users_loans_user_idTousers: { name: string } } | null;
+  users?: { name: string } | null;
+}
+
+const memberName = (row: MemberRelations) => row.users_deposits_user_idTousers?.name
+  ?? row.users_loans_user_idTousers?.name
+  ?? row.users_payments_user_idTousers?.name
+  ?? row.loans?.users_loans_user_idTousers?.name
+  ?? row.users?.name
+  ?? '';
+
+const EXPORTS: Record<string, ExportDataset> = {
+  deposits: dataset(
+    (filters, cursor, take) => prisma.deposits.findMany({
+      where: { user_id: filters.userId, deposit_date: dateRange(filters) },
+      include: { users_deposits_user_idTousers: { select: { name: true } } },
+      orderBy: [{ deposit_date: 'asc' }, { id: 'asc' }],
+      ...paging(cursor, take)
+    })
+  )([
+    { header: 'Date', value: r => r.deposit_date },
+    { header: 'Member', width: 24, value: memberName },
+    { header: 'Member Month', value: r => r.member_month },
+    { header: 'Type', value: r => r.entry_type },
+    { header: 'Amount', value: r => r.amount },
+    { header: 'Cumulative Total', value: r => r.cumulative_total },
+    { header: 'Reversed At', value: r => r.reversed_at },
+    { header: 'Reason', width: 30, value: r => r.correction_reason },
+    { header: 'Notes', width: 30, value: r => r.notes },
+    { header: 'ID', width: 38, value: r => r.id }
+  ]),
+  loans: dataset(
+    (filters, cursor, take) => prisma.loans.findMany({
+      where: { user_id: filters.userId, created_at: dateRange(filters) },
+      include: { users_loans_user_idTousers: { select: { name: true } } },
+      orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+      ...paging(cursor, take)
+    })
+  )([
+    { header: 'Requested', value: r => r.created_at },
+    { header: 'Member', width: 24, value: memberName },
+    { header: 'Status', value: r => r.status },
+    { header: 'Principal', value: r => r.principal_amount },
+    { header: 'Interest Rate', value: r => r.interest_rate },
+    { header: 'Interest Method', value: r => r.interest_method },
+    { header: 'Multiplier', value: r => r.multiplier_at_disbursement },
+    { header: 'Disbursed', value: r => r.disbursed_at },
+    { header: 'EMI Start', value: r => r.emi_start_date },
+    { header: 'Maturity', value: r => r.maturity_date },
+    { header: 'Outstanding', value: r => r.outstanding_principal },
+    { header: 'Interest Paid', value: r => r.total_interest_paid },
+    { header: 'Written Off', value: r => r.written_off_amount },
+    { header: 'Recovered', value: r => r.recovered_amount },
+    { header: 'ID', width: 38, value: r => r.id }
+  ]),
+  emi_schedule: dataset(
+    (filters, cursor, take) => prisma.emi_schedule.findMany({
+      where: {
+        due_date: dateRange(filters),
+        loans: filters.userId ? { user_id: filters.userId } : undefined
+      },
+      include: { loans: { select: { users_loans_user_idTousers: { select: { name: true } } } } },
+      orderBy: [{ due_date: 'asc' }, { id: 'asc' }],
+      ...paging(cursor, take)
+    })
+  )([
+    { header: 'Due Date', value: r => r.due_date },
+    { header: 'Member', width: 24, value: memberName },
+    { header: 'EMI #', value: r => r.emi_number },
+    { header: 'Schedule Version', value: r => r.schedule_version },
+    { header: 'Superseded At', value: r => r.superseded_at },
+    { header: 'Principal', value: r => r.principal_component },
+    { header: 'Interest', value: r => r.interest_component },
+    { header: 'Total EMI', value: r => r.total_emi },
+    { header: 'Penalty', value: r => r.penalty_amount },
+    { header: 'Paid', value: r => r.paid_amount },
+    { header: 'Remaining Due', value: r => r.remaining_due },
+    { header: 'Is Paid', value: r => r.is_paid },
+    { header: 'Loan ID', width: 38, value: r => r.loan_id }
+  ]),
+  payments: dataset(
+    (filters, cursor, take) => prisma.payments.findMany({
+      where: { user_id: filters.userId, payment_date: dateRange(filters) },
+      include: { users_payments_user_idTousers: { select: { name: true } } },
+      orderBy: [{ payment_date: 'asc' }, { id: 'asc' }],
+      ...paging(cursor, take)
+    })
+  )([
+    { header: 'Date', value: r => r.payment_date },
+    { header: 'Member', width: 24, value: memberName },
+    { header: 'Type', value: r => r.payment_type },
+    { header: 'Amount', value: r => r.amount },
+    { header: 'Principal', value: r => r.principal_component },
+    { header: 'Interest', value: r => r.interest_component },
+    { header: 'Penalty', value: r => r.penalty_component },
+    { header: 'Notes', width: 30, value: r => r.notes },
+    { header: 'Loan ID', width: 38, value: r => r.loan_id },
+    { header: 'ID', width: 38, value: r => r.id }
+  ]),
+  monthly_interest: dataset(
+    (filters, cursor, take) => prisma.monthly_interest.findMany({
+      where: {
+        created_at: dateRange(filters),
+        loans: filters.userId ? { user_id: filters.userId } : undefined
+      },
+      orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+      ...paging(cursor, take)
+    })
+  )([
+    { header: 'Recorded', value: r => r.created_at },
+    { header: 'Earned Month', value: r => r.earned_month },
+    { header: 'Source', value: r => r.source },
+    { header: 'Description', width: 30, value: r => r.source_description },
+    { header: 'Pool Source Month', value: r => r.pool_source_month },
+    { header: 'Amount', value: r => r.amount },
+    { header: 'Loan ID', width: 38, value: r => r.loan_id },
+    { header: 'ID', width: 38, value: r => r.id }
+  ]),
+  member_interest_shares: dataset(
+    (filters, cursor, take) => prisma.member_interest_shares.findMany({
+      where: { user_id: filters.userId, created_at: dateRange(filters) },
+      include: {
+        users: { select: { name: true } },
+        monthly_interest: { select: { earned_month: true, source: true, source_description: true } }
+      },
+      orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+      ...paging(cursor, take)
+    })
+  )([
+    { header: 'Credited', value: r => r.created_at },
+    { header: 'Member', width: 24, value: memberName },
+    { header: 'Earned Month', value: r => r.monthly_interest.earned_month },
+    { header: 'Source', width: 30, value: r => r.monthly_interest.source_description || r.monthly_interest.source },
+    { header: 'Member Units', value: r => r.member_cumulative_units },
+    { header: 'Pool Units', value: r => r.total_pool_units },
+    { header: 'Share %', value: r => r.share_percentage },
+    { header: 'Share', value: r => r.interest_share },
+    { header: 'Interest ID', width: 38, value: r => r.monthly_interest_id }
+  ]),
+  emergency_fund_transactions: dataset(
+    (filters, cursor, take) => prisma.emergency_fund_transactions.findMany({
+      where: {
+        created_at: dateRange(filters),
+        loans: filters.userId ? { user_id: filters.userId } : undefined
+      },
+      include: { loans: { select: { users_loans_user_idTousers: { select: { name: true } } } } },
+      orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+      ...paging(cursor, take)
+    })
+  )([
+    { header: 'Date', value: r => r.created_at },
+    { header: 'Type', value: r => r.transaction_type },
+    { header: 'Amount', value: r => r.amount },
+    { header: 'Balance After', value: r => r.balance_after },
+    { header: 'Description', width: 30, value: r => r.description },
+    { header: 'Member', width: 24, value: memberName },
+    { header: 'Loan ID', width: 38, value: r => r.loan_id },
+    { header: 'ID', width: 38, value: r => r.id }
+  ])
+};
+
+export const EXPORT_DATASETS = Object.keys(EXPORTS);
+
+// Decimals become numbers and dates keep their type so spreadsheets can sum and sort them
+function cell(value: unknown): string | number | boolean | Date | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (value instanceof Prisma.Decimal) return value.toNumber();
+  return String(value);
+}
+
+function csvField(value: ReturnType<typeof cell>): string {
+  if (value === null) return '';
+  if (value instanceof Date) return value.toISOString().replace('T00:00:00.000Z', '');
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Respect backpressure so a slow client does not make us buffer the whole history
+function write(output: Writable, chunk: string): Promise<void> {
+  return new Promise(resolve => {
+    if (output.write(chunk)) resolve();
+    else output.once('drain', resolve);
+  });
+}
+
+// Walk the dataset page by page, handing each page of rows to `onRows`
+async function eachPage(
+  dataset: ExportDataset,
+  filters: ExportFilters,
+  onRows: (rows: { id: string; values: unknown[] }[]) => Promise<void>
+) {
+  let cursor: string | undefined;
+  for (;;) {
+    const rows = await dataset.page(filters, cursor, PAGE_SIZE);
+    if (rows.length === 0) break;
+    await onRows(rows);
+    if (rows.length < PAGE_SIZE) break;
+    cursor = rows[rows.length - 1].id;
+  }
+}
+
+// Stream a dataset to `output` as CSV or XLSX. Rows are read and written in pages.
+export async function streamExport(name: string, format: ExportFormat, filters: ExportFilters, output: Writable) {
+  const dataset = EXPORTS[name];
+
+  if (format === 'csv') {
+    await write(output, dataset.columns.map(c => csvField(c.header)).join(',') + '\r\n');
+    await eachPage(dataset, filters, async rows => {
+      const lines = rows.map(row => row.values.map(value => csvField(cell(value))).join(','));
+      await write(output, lines.join('\r\n') + '\r\n');
+    });
+    output.end();
+    return;
+  }
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+  const sheet = workbook.addWorksheet(name);
+  sheet.columns = dataset.columns.map(c => ({ header: c.header, width: c.width || 16 }));
+  sheet.getRow(1).font = { bold: true };
+
+  await eachPage(dataset, filters, async rows => {
+    for (const row of rows) {
+      sheet.addRow(row.values.map(cell)).commit();
+    }
+  });
+
+  sheet.commit();
+  await workbook.commit();
+}
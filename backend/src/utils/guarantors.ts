@@ -0,0 +1,130 @@
+import { loan_status, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../lib/errors';
+import { money, sumMoney } from '../lib/money';
+import { AuthRequest } from '../middleware/auth';
+import { recordAudit } from './audit';
+import { PENDING_LOAN_STATUSES, pledgedDeposits } from './interest';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+// A member vouching for a borrower, named by the phone number they log in with
+export interface GuaranteeInput {
+  phone: string;
+  amount: number;
+}
+
+// Guarantors can answer until the loan is paid out
+const ANSWERABLE_LOAN_STATUSES: loan_status[] = [...PENDING_LOAN_STATUSES, 'approved'];
+
+// Deposits a member can still pledge: everything not already pledged for an open loan
+export async function freeDeposits(userId: string, db: Db = prisma) {
+  const deposits = await db.deposits.aggregate({
+    where: { user_id: userId },
+    _sum: { amount: true }
+  });
+  return money(deposits._sum.amount).minus(await pledgedDeposits(userId, db));
+}
+
+// Look up and check the guarantors named on an application. Each must be another active
+// member in good standing with enough free deposits to cover their pledge.
+export async function resolveGuarantors(borrowerId: string, guarantees: GuaranteeInput[], db: Db = prisma) {
+  const resolved: { guarantor: { id: string; name: string }; amount: number }[] = [];
+  for (const { phone, amount } of guarantees) {
+    const guarantor = await db.users.findFirst({
+      where: { phone, status: 'active' },
+      select: { id: true, name: true }
+    });
+    if (!guarantor) {
+      throw new HttpError(400, `No active member has the phone number ${phone}`);
+    }
+    if (guarantor.id === borrowerId) {
+      throw new HttpError(400, 'You cannot guarantee your own loan');
+    }
+    if (resolved.some(r => r.guarantor.id === guarantor.id)) {
+      throw new HttpError(400, `${guarantor.name} is named more than once`);
+    }
+
+    const defaulted = await db.loans.count({ where: { user_id: guarantor.id, status: 'defaulted' } });
+    if (defaulted > 0) {
+      throw new HttpError(400, `${guarantor.name} has a defaulted loan and cannot be a guarantor`);
+    }
+    if (money(amount).greaterThan(await freeDeposits(guarantor.id, db))) {
+      throw new HttpError(400, `${guarantor.name} does not have ${amount} in free deposits to pledge`);
+    }
+
+    resolved.push({ guarantor, amount });
+  }
+  return resolved;
+}
+
+export function totalGuaranteed(guarantees: GuaranteeInput[]) {
+  return sumMoney(guarantees.map(g => g.amount)).toNumber();
+}
+
+// Every guarantor must have accepted before the loan is paid out
+export async function checkGuaranteesAccepted(loanId: string, db: Db = prisma) {
+  const unanswered = await db.loan_guarantors.findMany({
+    where: { loan_id: loanId, status: { not: 'accepted' } },
+    include: { users: { select: { name: true } } }
+  });
+  if (unanswered.length > 0) {
+    const names = unanswered.map(g => `${g.users.name} (${g.status})`).join(', ');
+    throw new HttpError(400, `All guarantors must accept before disbursement: ${names}`);
+  }
+}
+
+// Guarantees a member has been asked for, newest first
+export function listGuarantees(guarantorId: string) {
+  return prisma.loan_guarantors.findMany({
+    where: { guarantor_id: guarantorId },
+    include: {
+      loans: {
+        select: {
+          id: true, principal_amount: true, outstanding_principal: true, status: true, tenure_months: true,
+          users_loans_user_idTousers: { select: { name: true } },
+          loan_products: { select: { code: true, name: true } }
+        }
+      }
+    },
+    orderBy: { created_at: 'desc' }
+  });
+}
+
+// The guarantor accepts or declines, once. Accepting rechecks that their deposits still cover
+// everything they have pledged (a deposit may have been reversed since the application).
+export async function respondToGuarantee(req: AuthRequest, guaranteeId: string, accept: boolean) {
+  const before = await prisma.loan_guarantors.findUnique({ where: { id: guaranteeId } });
+  if (!before || before.guarantor_id !== req.user!.id) {
+    throw new HttpError(404, 'Guarantee request not found');
+  }
+  if (before.status !== 'pending') {
+    throw new HttpError(400, `This guarantee is already ${before.status}`);
+  }
+  const loan = await prisma.loans.findUniqueOrThrow({ where: { id: before.loan_id }, select: { status: true } });
+  if (!ANSWERABLE_LOAN_STATUSES.includes(loan.status!)) {
+    throw new HttpError(400, `The loan is ${loan.status}; it no longer needs an answer`);
+  }
+  if (accept && (await freeDeposits(req.user!.id)).isNegative()) {
+    throw new HttpError(400, 'Your deposits no longer cover everything you have pledged');
+  }
+
+  // Conditional update, so two answers sent together cannot both apply
+  const { count } = await prisma.loan_guarantors.updateMany({
+    where: { id: guaranteeId, status: 'pending' },
+    data: { status: accept ? 'accepted' : 'declined', responded_at: new Date(), updated_at: new Date() }
+  });
+  if (count === 0) {
+    throw new HttpError(409, 'This guarantee was answered in the meantime');
+  }
+
+  const after = await prisma.loan_guarantors.findUniqueOrThrow({ where: { id: guaranteeId } });
+  await recordAudit(req, {
+    action: accept ? 'guarantee.accept' : 'guarantee.decline',
+    entityType: 'loan_guarantors',
+    entityId: guaranteeId,
+    before,
+    after
+  });
+  return after;
+}
@@ -0,0 +1,353 @@
+import ExcelJS from 'exceljs';
+import prisma from '../lib/prisma';
+import { HttpError } from '../lib/errors';
+import { money, sumMoney, toAmount } from '../lib/money';
+import { FUND_MEMBER_ROLES } from '../lib/permissions';
+import { AuthRequest } from '../middleware/auth';
+import { recordAudit } from './audit';
+import { CORRECTABLE_ENTRY_TYPES, lockMemberDeposits, rebuildCumulativeTotals } from './deposits';
+
+export const MAX_IMPORT_ROWS = 5000;
+
+// Accepted spellings for each column, compared lower-cased with spaces/underscores removed
+const HEADER_ALIASES: Record<string, string[]> = {
+  phone: ['phone', 'mobile', 'phonenumber', 'mobilenumber'],
+  name: ['name', 'member', 'membername'],
+  amount: ['amount', 'deposit', 'depositamount'],
+  member_month: ['membermonth', 'month', 'monthno', 'month#'],
+  deposit_date: ['depositdate', 'date'],
+  notes: ['notes', 'note', 'remarks']
+};
+
+type ImportColumn = keyof typeof HEADER_ALIASES;
+type RawRow = Partial<Record<ImportColumn, string>>;
+
+export interface ImportRow {
+  row: number;
+  phone: string | null;
+  name: string | null;
+  user_id: string | null;
+  member_name: string | null;
+  amount: number | null;
+  member_month: number | null;
+  deposit_date: string | null;
+  notes: string | null;
+  cumulative_total: number | null;
+  errors: string[];
+}
+
+export interface ImportPreview {
+  rows: ImportRow[];
+  summary: { rows: number; valid: number; invalid: number; members: number; total_amount: number };
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_]/g, '');
+}
+
+function normalizePhone(phone: string): string {
+  return phone.replace(/\D/g, '').slice(-10);
+}
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes and newlines inside quotes
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      rows.push(row); row = [];
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+// Spreadsheet cells can hold dates, numbers, formulas or rich text
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if (typeof value === 'object') {
+    if ('result' in value) return cellText(value.result as ExcelJS.CellValue);
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('text' in value) return String(value.text);
+    return '';
+  }
+  return String(value);
+}
+
+async function readXlsx(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: false }, row => {
+    const values = row.values as ExcelJS.CellValue[];
+    // row.values is 1-based
+    rows.push(values.slice(1).map(cellText));
+  });
+  return rows;
+}
+
+// Read the uploaded file into header-mapped rows
+export async function readDepositFile(buffer: Buffer, filename: string): Promise<RawRow[]> {
+  const lower = filename.toLowerCase();
+  let table: string[][];
+  if (lower.endsWith('.xlsx')) {
+    try {
+      table = await readXlsx(buffer);
+    } catch {
+      throw new HttpError(400, 'Could not read the Excel file');
+    }
+  } else if (lower.endsWith('.csv')) {
+    table = parseCsv(buffer.toString('utf8').replace(/^\uFEFF/, ''));
+  } else {
+    throw new HttpError(400, 'Upload a .csv or .xlsx file');
+  }
+
+  if (table.length < 2) {
+    throw new HttpError(400, 'The file has no data rows');
+  }
+  if (table.length - 1 > MAX_IMPORT_ROWS) {
+    throw new HttpError(400, `A file can have at most ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const columns = table[0].map(header => {
+    const key = normalizeHeader(header);
+    return (Object.keys(HEADER_ALIASES) as ImportColumn[]).find(col => HEADER_ALIASES[col].includes(key));
+  });
+  if (!columns.includes('phone') && !columns.includes('name')) {
+    throw new HttpError(400, 'The file needs a phone or name column');
+  }
+  for (const required of ['amount', 'member_month', 'deposit_date'] as ImportColumn[]) {
+    if (!columns.includes(required)) {
+      throw new HttpError(400, `The file is missing the ${required} column`);
+    }
+  }
+
+  return table.slice(1).map(cells => {
+    const raw: RawRow = {};
+    columns.forEach((col, i) => {
+      if (col && cells[i] !== undefined && cells[i].trim() !== '') raw[col] = cells[i].trim();
+    });
+    return raw;
+  });
+}
+
+// Accepts YYYY-MM-DD as well as the DD/MM/YYYY and DD-MM-YYYY used in passbooks
+function parseDate(value: string): Date | null {
+  let match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  let date: Date | null = null;
+  if (match) {
+    date = new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]));
+  } else if ((match = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/))) {
+    date = new Date(Date.UTC(+match[3], +match[2] - 1, +match[1]));
+  }
+  return date && !Number.isNaN(date.getTime()) ? date : null;
+}
+
+// Match rows to members and check every rule without writing anything
+export async function previewDepositImport(rawRows: RawRow[]): Promise<ImportPreview> {
+  const [multipleSetting, minimumSetting] = await Promise.all([
+    prisma.fund_settings.findUnique({ where: { setting_key: 'deposit_multiple' } }),
+    prisma.fund_settings.findUnique({ where: { setting_key: 'min_monthly_deposit' } })
+  ]);
+  const multiple = parseInt(multipleSetting?.setting_value || '300');
+  const minMonthly = parseInt(minimumSetting?.setting_value || '300');
+
+  const members = await prisma.users.findMany({
+    where: { role: { in: FUND_MEMBER_ROLES }, status: 'active' },
+    select: { id: true, name: true, phone: true }
+  });
+  const byPhone = new Map(members.filter(m => m.phone).map(m => [normalizePhone(m.phone!), m]));
+  const byName = new Map<string, typeof members>();
+  for (const member of members) {
+    const key = member.name.trim().toLowerCase();
+    byName.set(key, [...(byName.get(key) || []), member]);
+  }
+
+  const rows: ImportRow[] = rawRows.map((raw, i) => {
+    const errors: string[] = [];
+
+    // Phone wins over name; names are only used when they are unique
+    let member: (typeof members)[number] | undefined;
+    if (raw.phone) {
+      member = byPhone.get(normalizePhone(raw.phone));
+      if (!member) errors.push(`No active member with phone ${raw.phone}`);
+    } else if (raw.name) {
+      const matches = byName.get(raw.name.toLowerCase()) || [];
+      if (matches.length === 1) member = matches[0];
+      else if (matches.length > 1) errors.push(`More than one member is named ${raw.name}; use phone instead`);
+      else errors.push(`No active member named ${raw.name}`);
+    } else {
+      errors.push('Phone or name is required');
+    }
+
+    const amount = raw.amount !== undefined ? Number(raw.amount.replace(/,/g, '')) : NaN;
+    if (!Number.isFinite(amount) || amount <= 0 || amount % multiple !== 0) {
+      errors.push(`Amount must be a positive multiple of ${multiple}`);
+    }
+    const memberMonth = raw.member_month !== undefined ? Number(raw.member_month) : NaN;
+    if (!Number.isInteger(memberMonth) || memberMonth < 1) {
+      errors.push('member_month must be a whole number of at least 1');
+    }
+    const depositDate = raw.deposit_date ? parseDate(raw.deposit_date) : null;
+    if (!depositDate) {
+      errors.push('deposit_date must be YYYY-MM-DD or DD/MM/YYYY');
+    }
+
+    return {
+      row: i + 2,
+      phone: raw.phone || null,
+      name: raw.name || null,
+      user_id: member?.id || null,
+      member_name: member?.name || null,
+      amount: Number.isFinite(amount) ? amount : null,
+      member_month: Number.isInteger(memberMonth) ? memberMonth : null,
+      deposit_date: depositDate ? depositDate.toISOString().split('T')[0] : null,
+      notes: raw.notes || null,
+      cumulative_total: null,
+      errors
+    };
+  });
+
+  // One deposit per member month: flag months repeated in the file or already recorded
+  // (reversed entries do not count, so a reversed month can be imported again)
+  const userIds = [...new Set(rows.filter(r => r.user_id).map(r => r.user_id!))];
+  const recorded = await prisma.deposits.findMany({
+    where: { user_id: { in: userIds }, entry_type: { in: CORRECTABLE_ENTRY_TYPES }, reversed_at: null },
+    select: { user_id: true, member_month: true }
+  });
+  const recordedMonths = new Set(recorded.map(d => `${d.user_id}:${d.member_month}`));
+  const firstRowByMonth = new Map<string, number>();
+  for (const row of rows) {
+    if (!row.user_id || row.member_month === null) continue;
+    const key = `${row.user_id}:${row.member_month}`;
+    if (recordedMonths.has(key)) {
+      row.errors.push(`${row.member_name} already has a deposit for month ${row.member_month}`);
+    }
+    const first = firstRowByMonth.get(key);
+    if (first !== undefined) {
+      row.errors.push(`Month ${row.member_month} for ${row.member_name} is already on row ${first}`);
+    } else {
+      firstRowByMonth.set(key, row.row);
+    }
+  }
+
+  // Minimum cumulative rule: by the end of each member month a member must have deposited
+  // min_monthly_deposit x month. Check it over the existing deposits plus the file, in month order.
+  const existing = await prisma.deposits.groupBy({
+    by: ['user_id', 'member_month'],
+    where: { user_id: { in: userIds } },
+    _sum: { amount: true },
+    orderBy: { member_month: 'asc' }
+  });
+
+  for (const userId of userIds) {
+    const memberRows = rows
+      .filter(r => r.user_id === userId && r.amount !== null && r.member_month !== null)
+      .sort((a, b) => a.member_month! - b.member_month! || a.row - b.row);
+    const existingByMonth = existing.filter(e => e.user_id === userId);
+
+    let runningTotal = money(0);
+    let counted = 0;
+    for (const row of memberRows) {
+      for (const entry of existingByMonth.slice(counted)) {
+        if (entry.member_month > row.member_month!) break;
+        runningTotal = runningTotal.plus(money(entry._sum.amount));
+        counted++;
+      }
+      runningTotal = runningTotal.plus(row.amount!);
+      row.cumulative_total = toAmount(runningTotal);
+
+      const required = minMonthly * row.member_month!;
+      if (runningTotal.lessThan(required)) {
+        row.errors.push(`Cumulative deposits (${row.cumulative_total}) must be at least ${required} by month ${row.member_month}`);
+      }
+    }
+  }
+
+  const valid = rows.filter(r => r.errors.length === 0);
+  return {
+    rows,
+    summary: {
+      rows: rows.length,
+      valid: valid.length,
+      invalid: rows.length - valid.length,
+      members: userIds.length,
+      total_amount: toAmount(sumMoney(valid.map(r => r.amount)))
+    }
+  };
+}
+
+// Commit a previewed import. All rows must be valid; nothing is written otherwise.
+export async function commitDepositImport(req: AuthRequest, preview: ImportPreview) {
+  if (preview.summary.invalid > 0) {
+    throw new HttpError(400, `${preview.summary.invalid} row(s) have errors; fix them and upload again`);
+  }
+
+  // The minimum deposit trigger checks the running total on every insert, so each member's
+  // rows go in month order whatever order the file listed them in
+  const ordered = [...preview.rows].sort((a, b) =>
+    a.user_id!.localeCompare(b.user_id!) ||
+    a.member_month! - b.member_month! ||
+    a.deposit_date!.localeCompare(b.deposit_date!) ||
+    a.row - b.row
+  );
+
+  // Members in one order, so concurrent imports take their locks the same way round
+  const userIds = [...new Set(ordered.map(r => r.user_id!))];
+
+  return prisma.$transaction(async (tx) => {
+    for (const userId of userIds) {
+      await lockMemberDeposits(tx, userId);
+    }
+
+    const created = [];
+    for (const row of ordered) {
+      created.push(await tx.deposits.create({
+        data: {
+          user_id: row.user_id!,
+          amount: row.amount!,
+          member_month: row.member_month!,
+          deposit_date: new Date(row.deposit_date!),
+          cumulative_total: 0,
+          notes: row.notes || 'File import',
+          recorded_by: req.user!.id
+        }
+      }));
+    }
+
+    for (const userId of userIds) {
+      await rebuildCumulativeTotals(tx, userId);
+    }
+
+    const result = { count: created.length, members: userIds.length, ids: created.map(d => d.id) };
+    await recordAudit(req, {
+      action: 'deposit.file_import', entityType: 'deposits', entityId: null,
+      after: { file: req.file?.originalname, count: result.count, members: result.members, total_amount: preview.summary.total_amount, ids: result.ids }
+    }, tx);
+
+    return result;
+  }, { timeout: 60000 });
+}
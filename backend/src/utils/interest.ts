@@ -1,21 +1,50 @@
+import { loan_status, Prisma } from '@prisma/client';
 import prisma from '../lib/prisma';
+import { money, toAmount } from '../lib/money';
 
-// Calculate pre-EMI total: Principal × (1 + Rate/12)^(Days/30)
-export function calculatePreEmiTotal(principal: number, ratePercent: number, days: number): number {
-  const monthlyRate = ratePercent / 100 / 12;
-  const periods = days / 30;
-  return principal * Math.pow(1 + monthlyRate, periods);
+type Db = Prisma.TransactionClient | typeof prisma;
+
+// Loans that hold a claim on the pool (approved and waiting for payout, or disbursed)
+export const COMMITTED_LOAN_STATUSES: loan_status[] = ['approved', 'active'];
+
+// Applications that have not been decided yet
+export const PENDING_LOAN_STATUSES: loan_status[] = ['requested', 'under_review'];
+
+// Loans that count towards the max_active_loans limit
+export const OPEN_LOAN_STATUSES: loan_status[] = [...PENDING_LOAN_STATUSES, ...COMMITTED_LOAN_STATUSES];
+
+// Guarantees that back an open loan: waiting for the guarantor's answer, or accepted
+export const HELD_GUARANTEE_STATUSES = ['pending', 'accepted'];
+
+// Deposits a member has pledged as guarantor for other members' open loans. They stay locked
+// until those loans are closed, rejected or defaulted.
+export async function pledgedDeposits(userId: string, db: Db = prisma) {
+  const pledged = await db.loan_guarantors.aggregate({
+    where: {
+      guarantor_id: userId,
+      status: { in: HELD_GUARANTEE_STATUSES },
+      loans: { status: { in: OPEN_LOAN_STATUSES } }
+    },
+    _sum: { amount: true }
+  });
+  return money(pledged._sum.amount);
 }
 
-// Calculate pre-EMI interest only
-export function calculatePreEmiInterest(principal: number, ratePercent: number, days: number): number {
-  return calculatePreEmiTotal(principal, ratePercent, days) - principal;
+// A product with active brackets of its own is priced from those only; every other product
+// uses the shared set (brackets with no product)
+async function bracketSetFor(productId?: string | null, db: Db = prisma) {
+  if (productId) {
+    const own = await db.interest_brackets.count({ where: { product_id: productId, is_active: true } });
+    if (own > 0) return { product_id: productId };
+  }
+  return { product_id: null };
 }
 
-// Get interest rate for a given multiplier
-export async function getInterestRate(multiplier: number): Promise<number> {
-  const bracket = await prisma.interest_brackets.findFirst({
+// Get the active interest bracket a multiplier falls into (null if none matches)
+export async function getInterestBracket(multiplier: number, productId?: string | null, db: Db = prisma) {
+  return db.interest_brackets.findFirst({
     where: {
+      ...(await bracketSetFor(productId, db)),
       is_active: true,
       min_multiplier: { lt: multiplier },
       OR: [
@@ -24,121 +53,213 @@ export async function getInterestRate(multiplier: number): Promise<number> {
       ]
     }
   });
+}
+
+// Get interest rate for a given multiplier
+export async function getInterestRate(multiplier: number, productId?: string | null, db: Db = prisma): Promise<number> {
+  const bracket = await getInterestBracket(multiplier, productId, db);
   return bracket ? Number(bracket.interest_rate) : 12.0;
 }
 
+export interface PoolLiquidity {
+  deposits: number;
+  emergencyFund: number;
+  // Principal still out on disbursed loans
+  lentOut: number;
+  cashOnHand: number;
+  reservePercentage: number;
+  reserve: number;
+  // Approved loans waiting to be paid out, and undecided applications
+  committed: number;
+  pending: number;
+  disbursableNow: number;
+}
+
+// How much cash the fund can pay out right now: deposits and the emergency fund, less what is
+// lent out, the reserve kept back, and what approved loans and open applications already claim.
+// Pass excludeLoanId to leave one loan's own claim out (rechecking it for approval or payout).
+export async function getPoolLiquidity(excludeLoanId?: string, db: Db = prisma): Promise<PoolLiquidity> {
+  const notExcluded = excludeLoanId ? { id: { not: excludeLoanId } } : {};
+
+  const deposits = await db.deposits.aggregate({ _sum: { amount: true } });
+  const emergencyFund = await db.emergency_fund.findFirst();
+  const lentOut = await db.loans.aggregate({
+    where: { status: 'active' },
+    _sum: { outstanding_principal: true }
+  });
+  const committed = await db.loans.aggregate({
+    where: { status: 'approved', ...notExcluded },
+    _sum: { principal_amount: true }
+  });
+  const pending = await db.loans.aggregate({
+    where: { status: { in: PENDING_LOAN_STATUSES }, ...notExcluded },
+    _sum: { principal_amount: true }
+  });
+  const setting = await db.fund_settings.findUnique({
+    where: { setting_key: 'liquidity_reserve_percentage' }
+  });
+  const reservePercentage = parseFloat(setting?.setting_value || '10');
+
+  const pool = money(deposits._sum.amount).plus(money(emergencyFund?.total_balance));
+  const cashOnHand = pool.minus(money(lentOut._sum.outstanding_principal));
+  const reserve = pool.times(reservePercentage).div(100);
+  const free = cashOnHand
+    .minus(reserve)
+    .minus(money(committed._sum.principal_amount))
+    .minus(money(pending._sum.principal_amount));
+
+  return {
+    deposits: toAmount(deposits._sum.amount),
+    emergencyFund: toAmount(emergencyFund?.total_balance),
+    lentOut: toAmount(lentOut._sum.outstanding_principal),
+    cashOnHand: toAmount(cashOnHand),
+    reservePercentage,
+    reserve: toAmount(reserve),
+    committed: toAmount(committed._sum.principal_amount),
+    pending: toAmount(pending._sum.principal_amount),
+    disbursableNow: free.isNegative() ? 0 : toAmount(free)
+  };
+}
+
+export interface EligibilityOptions {
+  // Recheck an application against everything except itself
+  excludeLoanId?: string;
+  // Loan product applied for: its bracket set and multiplier cap apply (shared set when omitted)
+  product?: { id: string; max_multiplier: Prisma.Decimal | null } | null;
+  // Deposits guarantors pledge for a new application, on top of the guarantees already
+  // backing the member's open loans
+  guaranteed?: number;
+  // Transaction client, to read inside a pool lock (see withPoolLock)
+  db?: Db;
+}
+
 // Calculate member's max eligibility
-export async function getMemberEligibility(userId: string): Promise<{
+// Pending applications are deducted too, so a member cannot stack requests past the cap.
+// Members with a defaulted loan cannot borrow at all.
+// It is also capped at what the pool can pay out right now (see getPoolLiquidity).
+// Deposits pledged for other members do not count towards the member's own limit; pledges
+// from guarantors raise it by up to max_guarantee_percentage.
+export async function getMemberEligibility(
+  userId: string,
+  { excludeLoanId, product, guaranteed: newGuarantees, db = prisma }: EligibilityOptions = {}
+): Promise<{
   totalDeposits: number;
   totalPool: number;
   outstanding: number;
+  pending: number;
+  defaultedLoans: number;
+  lockedAsGuarantor: number;
+  guaranteed: number;
+  guaranteeLimit: number;
+  disbursableNow: number;
   maxEligible: number;
   maxMultiplier: number;
 }> {
   // Get user's total deposits
-  const userDeposits = await prisma.deposits.aggregate({
+  const userDeposits = await db.deposits.aggregate({
     where: { user_id: userId },
     _sum: { amount: true }
   });
-  const totalDeposits = Number(userDeposits._sum.amount || 0);
+  const totalDeposits = money(userDeposits._sum.amount);
 
   // Get total pool
-  const poolTotal = await prisma.deposits.aggregate({
+  const poolTotal = await db.deposits.aggregate({
     _sum: { amount: true }
   });
-  const totalPool = Number(poolTotal._sum.amount || 0);
+  const totalPool = money(poolTotal._sum.amount);
 
   // Get user's outstanding loans
-  const outstandingLoans = await prisma.loans.aggregate({
-    where: { user_id: userId, status: 'active' },
+  const outstandingLoans = await db.loans.aggregate({
+    where: { user_id: userId, status: { in: COMMITTED_LOAN_STATUSES } },
     _sum: { outstanding_principal: true }
   });
-  const outstanding = Number(outstandingLoans._sum.outstanding_principal || 0);
+  const outstanding = money(outstandingLoans._sum.outstanding_principal);
+
+  // Get user's undecided applications
+  const pendingLoans = await db.loans.aggregate({
+    where: {
+      user_id: userId,
+      status: { in: PENDING_LOAN_STATUSES },
+      ...(excludeLoanId ? { id: { not: excludeLoanId } } : {})
+    },
+    _sum: { principal_amount: true }
+  });
+  const pending = money(pendingLoans._sum.principal_amount);
+
+  const defaultedLoans = await db.loans.count({
+    where: { user_id: userId, status: 'defaulted' }
+  });
+
+  const lockedAsGuarantor = await pledgedDeposits(userId, db);
+
+  // Guarantees backing the member's open loans (the one being rechecked included)
+  const backing = await db.loan_guarantors.aggregate({
+    where: {
+      status: { in: HELD_GUARANTEE_STATUSES },
+      loans: { user_id: userId, status: { in: OPEN_LOAN_STATUSES } }
+    },
+    _sum: { amount: true }
+  });
+  const guaranteed = money(backing._sum.amount).plus(money(newGuarantees));
+
+  const { disbursableNow } = await getPoolLiquidity(excludeLoanId, db);
+
+  const amounts = {
+    totalDeposits: toAmount(totalDeposits),
+    totalPool: toAmount(totalPool),
+    outstanding: toAmount(outstanding),
+    pending: toAmount(pending),
+    defaultedLoans,
+    lockedAsGuarantor: toAmount(lockedAsGuarantor),
+    guaranteed: toAmount(guaranteed),
+    disbursableNow
+  };
 
-  // If user has no deposits, they are not eligible
-  if (totalDeposits === 0) {
-    return { totalDeposits, totalPool, outstanding, maxEligible: 0, maxMultiplier: 0 };
+  // If user has no deposits or has defaulted, they are not eligible
+  if (totalDeposits.isZero() || defaultedLoans > 0) {
+    return { ...amounts, guaranteeLimit: 0, maxEligible: 0, maxMultiplier: 0 };
   }
 
   // Get max pool percentage from settings
-  const setting = await prisma.fund_settings.findUnique({
+  const setting = await db.fund_settings.findUnique({
     where: { setting_key: 'max_pool_percentage' }
   });
-  const maxPoolPercent = parseInt(setting?.setting_value || '40') / 100;
+  const maxPoolPercent = money(parseInt(setting?.setting_value || '40')).div(100);
 
   // Get max multiplier from interest brackets (highest max_multiplier or if null, use min_multiplier of that bracket)
-  const maxBracket = await prisma.interest_brackets.findFirst({
-    where: { is_active: true },
+  const maxBracket = await db.interest_brackets.findFirst({
+    where: { ...(await bracketSetFor(product?.id, db)), is_active: true },
     orderBy: { min_multiplier: 'desc' }
   });
   // If max_multiplier is null, it means unlimited, so use min_multiplier as the cap
-  const maxMultiplier = maxBracket?.max_multiplier 
+  const bracketMultiplier = maxBracket?.max_multiplier 
     ? Number(maxBracket.max_multiplier) 
     : Number(maxBracket?.min_multiplier || 11);
+  // The product may cap it lower
+  const maxMultiplier = product?.max_multiplier
+    ? Math.min(bracketMultiplier, Number(product.max_multiplier))
+    : bracketMultiplier;
 
   // Max from pool = 40% of total pool
-  const maxFromPool = totalPool * maxPoolPercent;
-
-  // Max from user's deposits = deposits × max multiplier
-  const maxFromDeposits = totalDeposits * maxMultiplier;
-
-  // Max eligible = min(40% of pool, deposits × max multiplier) - outstanding
-  const maxEligible = Math.max(Math.min(maxFromPool, maxFromDeposits) - outstanding, 0);
-
-  return { totalDeposits, totalPool, outstanding, maxEligible, maxMultiplier };
-}
+  const maxFromPool = totalPool.times(maxPoolPercent);
 
-// Calculate EMI (reducing balance)
-export function calculateEMI(principal: number, annualRate: number, months: number): number {
-  const monthlyRate = annualRate / 100 / 12;
-  if (monthlyRate === 0) return principal / months;
-  
-  const emi = principal * monthlyRate * Math.pow(1 + monthlyRate, months) / 
-              (Math.pow(1 + monthlyRate, months) - 1);
-  return Math.round(emi * 100) / 100;
-}
+  // Max from user's deposits = unpledged deposits × max multiplier
+  const freeDeposits = totalDeposits.minus(lockedAsGuarantor);
+  const maxFromDeposits = freeDeposits.isNegative() ? money(0) : freeDeposits.times(maxMultiplier);
 
-// Generate EMI schedule
-export function generateEMISchedule(
-  principal: number, 
-  annualRate: number, 
-  months: number,
-  startDate: Date
-): Array<{
-  emi_number: number;
-  due_date: Date;
-  principal_component: number;
-  interest_component: number;
-  total_emi: number;
-  outstanding_after: number;
-}> {
-  const schedule = [];
-  const monthlyRate = annualRate / 100 / 12;
-  const emi = calculateEMI(principal, annualRate, months);
-  let outstanding = principal;
-
-  for (let i = 1; i <= months; i++) {
-    const interestComponent = Math.round(outstanding * monthlyRate * 100) / 100;
-    const principalComponent = Math.round((emi - interestComponent) * 100) / 100;
-    outstanding = Math.round((outstanding - principalComponent) * 100) / 100;
-    
-    // Handle last EMI rounding
-    if (i === months) {
-      outstanding = 0;
-    }
+  // Guarantees add to that, up to max_guarantee_percentage of it
+  const guaranteeSetting = await db.fund_settings.findUnique({
+    where: { setting_key: 'max_guarantee_percentage' }
+  });
+  const guaranteeLimit = maxFromDeposits.times(parseFloat(guaranteeSetting?.setting_value || '100')).div(100);
+  const maxWithGuarantees = maxFromDeposits.plus(guaranteed.lessThan(guaranteeLimit) ? guaranteed : guaranteeLimit);
 
-    const dueDate = new Date(startDate);
-    dueDate.setMonth(dueDate.getMonth() + i);
-
-    schedule.push({
-      emi_number: i,
-      due_date: dueDate,
-      principal_component: principalComponent,
-      interest_component: interestComponent,
-      total_emi: emi,
-      outstanding_after: outstanding
-    });
-  }
+  // Max eligible = min(40% of pool, deposits × max multiplier + guarantees) - outstanding - pending,
+  // and never more than the pool can pay out
+  const cap = maxFromPool.lessThan(maxWithGuarantees) ? maxFromPool : maxWithGuarantees;
+  const remaining = cap.minus(outstanding).minus(pending);
+  const limit = remaining.lessThan(disbursableNow) ? remaining : money(disbursableNow);
+  const maxEligible = limit.isNegative() ? 0 : toAmount(limit);
 
-  return schedule;
+  return { ...amounts, guaranteeLimit: toAmount(guaranteeLimit), maxEligible, maxMultiplier };
 }
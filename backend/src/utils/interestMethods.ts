@@ -0,0 +1,189 @@
+import Decimal from 'decimal.js';
+import { allocate, money, roundMoney } from '../lib/money';
+import { calculateEMI, calculatePreEmiInterest, calculateTenure, generateEMISchedule } from './amortization';
+
+// How a loan's interest is worked out. Each loan stores the method it was agreed on
+// (loans.interest_method), so changing a product never changes loans already taken.
+export const INTEREST_METHODS = ['reducing_balance', 'flat', 'daily_reducing'] as const;
+
+export type InterestMethod = (typeof INTEREST_METHODS)[number];
+
+export const INTEREST_METHOD_LABELS: Record<InterestMethod, string> = {
+  reducing_balance: 'Reducing balance (monthly)',
+  flat: 'Flat',
+  daily_reducing: 'Daily reducing (actual/365)'
+};
+
+export interface ScheduleRow {
+  emi_number: number;
+  due_date: Date;
+  principal_component: number;
+  interest_component: number;
+  total_emi: number;
+  outstanding_after: number;
+}
+
+export interface InterestCalculator {
+  // Interest for the days between disbursement and the EMI start date
+  preEmiInterest(principal: number, annualRate: number, days: number): number;
+  // Schedule of `months` EMIs, the first due a month after startDate. The last EMI clears
+  // whatever is left, so the principal components add up to the loan exactly.
+  schedule(principal: number, annualRate: number, months: number, startDate: Date): ScheduleRow[];
+  // Fewest EMIs that repay the principal with an EMI no higher than `emi` (Infinity if none can)
+  tenure(principal: number, annualRate: number, emi: number, startDate: Date): number;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Longest schedule the tenure search will try before giving up
+const MAX_TENURE_MONTHS = 1200;
+
+function dueDate(startDate: Date, emiNumber: number) {
+  const due = new Date(startDate);
+  due.setMonth(due.getMonth() + emiNumber);
+  return due;
+}
+
+// Simple interest on the actual days, actual/365
+function simpleInterest(principal: number, annualRate: number, days: number) {
+  return roundMoney(money(principal).times(annualRate).div(100).times(days).div(365)).toNumber();
+}
+
+// Monthly reducing balance: interest on the outstanding balance at rate/12 a month, level EMI.
+// Pre-EMI interest compounds monthly over 30-day months. Every loan used this before the
+// other methods were added.
+const reducingBalance: InterestCalculator = {
+  preEmiInterest: calculatePreEmiInterest,
+  schedule: generateEMISchedule,
+
+  // The formula answer can land a month long: a schedule's EMI is rounded to the paisa, often
+  // just under the exact one. Step back while a shorter schedule's rounded EMI still fits.
+  tenure(principal, annualRate, emi) {
+    let months = calculateTenure(principal, annualRate, emi);
+    if (!Number.isFinite(months)) return Infinity;
+    while (months > 1 && calculateEMI(principal, annualRate, months - 1) <= emi) months--;
+    return months;
+  }
+};
+
+// Flat: interest is charged on the original principal for the whole tenure and spread evenly.
+// Paise left over by rounding go to the earliest EMIs (see allocate).
+const flat: InterestCalculator = {
+  preEmiInterest: simpleInterest,
+
+  schedule(principal, annualRate, months, startDate) {
+    const totalInterest = roundMoney(money(principal).times(annualRate).div(100).times(months).div(12));
+    const even = Array.from({ length: months }, () => 1);
+    const principalParts = allocate(principal, even);
+    const interestParts = allocate(totalInterest, even);
+
+    let outstanding = roundMoney(principal);
+    return principalParts.map((principalComponent, i) => {
+      outstanding = outstanding.minus(principalComponent);
+      return {
+        emi_number: i + 1,
+        due_date: dueDate(startDate, i + 1),
+        principal_component: principalComponent.toNumber(),
+        interest_component: interestParts[i].toNumber(),
+        total_emi: principalComponent.plus(interestParts[i]).toNumber(),
+        outstanding_after: outstanding.toNumber()
+      };
+    });
+  },
+
+  // EMI = principal/n + principal × rate/12, so n = principal / (emi - principal × rate/12)
+  tenure(principal, annualRate, emi) {
+    const monthlyInterest = money(principal).times(annualRate).div(100).div(12);
+    const towardsPrincipal = money(emi).minus(monthlyInterest);
+    if (towardsPrincipal.lessThanOrEqualTo(0)) return Infinity;
+    return money(principal).div(towardsPrincipal).toDecimalPlaces(6).ceil().toNumber();
+  }
+};
+
+// Growth factor of a month in a daily reducing schedule: 1 + rate × days/365, where days
+// is the actual length of the month ending on EMI number `emiNumber`
+function dailyFactor(dailyRate: Decimal, startDate: Date, emiNumber: number): Decimal {
+  const days = Math.round((dueDate(startDate, emiNumber).getTime() - dueDate(startDate, emiNumber - 1).getTime()) / DAY_MS);
+  return dailyRate.times(days).plus(1);
+}
+
+// Level EMI that brings the balance to exactly zero on the last due date: EMI = P × G / S, where
+// G is the product of every month's factor and S sums the product of the factors after each EMI.
+// Both are built up a month at a time: G × f and S × f + 1.
+function dailyReducingEMI(principal: number, annualRate: number, months: number, startDate: Date) {
+  const dailyRate = money(annualRate).div(100).div(365);
+  let growth = money(1);
+  let paidGrowth = money(0);
+  for (let i = 1; i <= months; i++) {
+    const factor = dailyFactor(dailyRate, startDate, i);
+    growth = growth.times(factor);
+    paidGrowth = paidGrowth.times(factor).plus(1);
+  }
+  return roundMoney(money(principal).times(growth).div(paidGrowth));
+}
+
+// Daily reducing: interest on the outstanding balance for the actual days in each month,
+// actual/365, with a level EMI. Pre-EMI interest is simple interest on the actual days.
+const dailyReducing: InterestCalculator = {
+  preEmiInterest: simpleInterest,
+
+  schedule(principal, annualRate, months, startDate) {
+    const emi = dailyReducingEMI(principal, annualRate, months, startDate);
+    const dailyRate = money(annualRate).div(100).div(365);
+    const schedule: ScheduleRow[] = [];
+    let outstanding = roundMoney(principal);
+    let previous = startDate;
+
+    for (let i = 1; i <= months; i++) {
+      const due = dueDate(startDate, i);
+      const days = Math.round((due.getTime() - previous.getTime()) / DAY_MS);
+      const interestComponent = roundMoney(outstanding.times(dailyRate).times(days));
+      const principalComponent = i === months ? outstanding : emi.minus(interestComponent);
+      const totalEmi = i === months ? principalComponent.plus(interestComponent) : emi;
+      outstanding = outstanding.minus(principalComponent);
+      previous = due;
+
+      schedule.push({
+        emi_number: i,
+        due_date: due,
+        principal_component: principalComponent.toNumber(),
+        interest_component: interestComponent.toNumber(),
+        total_emi: totalEmi.toNumber(),
+        outstanding_after: outstanding.toNumber()
+      });
+    }
+
+    return schedule;
+  },
+
+  // The EMI only falls as the tenure grows, so the first tenure whose EMI fits is the answer.
+  // Each month extends the running products of dailyReducingEMI instead of starting over.
+  tenure(principal, annualRate, emi, startDate) {
+    if (!Number.isFinite(calculateTenure(principal, annualRate, emi))) return Infinity;
+
+    const dailyRate = money(annualRate).div(100).div(365);
+    let growth = money(1);
+    let paidGrowth = money(0);
+    for (let months = 1; months <= MAX_TENURE_MONTHS; months++) {
+      const factor = dailyFactor(dailyRate, startDate, months);
+      growth = growth.times(factor);
+      paidGrowth = paidGrowth.times(factor).plus(1);
+      if (roundMoney(money(principal).times(growth).div(paidGrowth)).lessThanOrEqualTo(emi)) return months;
+    }
+    return Infinity;
+  }
+};
+
+const CALCULATORS: Record<InterestMethod, InterestCalculator> = {
+  reducing_balance: reducingBalance,
+  flat,
+  daily_reducing: dailyReducing
+};
+
+export function interestCalculator(method: string): InterestCalculator {
+  const calculator = CALCULATORS[method as InterestMethod];
+  if (!calculator) {
+    throw new Error(`Unknown interest method: ${method}`);
+  }
+  return calculator;
+}
@@ -0,0 +1,607 @@
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import prisma from '../lib/prisma';
+import { HttpError } from '../lib/errors';
+import { minMoney, money, roundMoney, sumMoney, toAmount } from '../lib/money';
+import { hasPermission } from '../lib/permissions';
+import { AuthRequest } from '../middleware/auth';
+import { recordAudit } from './audit';
+import { interestCalculator } from './interestMethods';
+import { assessPenalties } from './penalties';
+
+type Tx = Prisma.TransactionClient;
+
+export interface LedgerActor {
+  id: string;
+  role: string;
+}
+
+interface PaymentInput {
+  amount: number;
+  paymentDate: Date;
+}
+
+// How the remaining EMIs are rebuilt after a prepayment:
+// keep the EMI and finish sooner, or keep the end date and pay less each month
+export type ReamortizeMode = 'reduce_tenure' | 'reduce_emi';
+
+// Lock the loan row for the rest of the transaction.
+// Every posting locks the loan first, then the schedule row, so concurrent postings queue up.
+async function lockLoan(tx: Tx, loanId: string) {
+  await tx.$queryRaw`SELECT id FROM loans WHERE id = ${loanId}::uuid FOR UPDATE`;
+  const loan = await tx.loans.findUnique({ where: { id: loanId } });
+  if (!loan) {
+    throw new HttpError(404, 'Loan not found');
+  }
+  return loan;
+}
+
+function assertCanPay(loan: { user_id: string; status: string | null }, actor: LedgerActor) {
+  if (loan.user_id !== actor.id && !hasPermission(actor.role, 'payments.record')) {
+    throw new HttpError(403, 'Access denied');
+  }
+  if (loan.status !== 'active') {
+    throw new HttpError(400, `Cannot record a payment on a loan that is ${loan.status}`);
+  }
+}
+
+function assertAmount(amount: number) {
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+    throw new HttpError(400, 'Amount must be a positive number');
+  }
+}
+
+// Apply principal/interest to the loan and close it when nothing is left
+async function applyToLoan(tx: Tx, loanId: string, principal: number, interest: number) {
+  const updatedLoan = await tx.loans.update({
+    where: { id: loanId },
+    data: {
+      outstanding_principal: { decrement: principal },
+      total_interest_paid: { increment: interest },
+      updated_at: new Date()
+    }
+  });
+
+  if (!money(updatedLoan.outstanding_principal).greaterThan(0)) {
+    return tx.loans.update({
+      where: { id: loanId },
+      data: { status: 'completed', completed_at: new Date() }
+    });
+  }
+  return updatedLoan;
+}
+
+// Rebuild the untouched part of the current EMI schedule from the loan's outstanding principal.
+// Rows that have not received any money or penalties are marked superseded (kept for history) and replaced
+// by a new schedule version; paid and partly paid rows stay as they are.
+async function reamortize(tx: Tx, loanId: string, mode: ReamortizeMode) {
+  const loan = await tx.loans.findUniqueOrThrow({ where: { id: loanId } });
+  const current = await tx.emi_schedule.findMany({
+    where: { loan_id: loanId, superseded_at: null },
+    orderBy: { emi_number: 'asc' }
+  });
+
+  const open = current.filter(row =>
+    !row.is_paid && money(row.paid_amount).isZero() && money(row.penalty_amount).isZero()
+  );
+  if (open.length === 0 || !loan.emi_start_date) return;
+
+  const kept = current.filter(row => !open.includes(row));
+  const lastKept = kept[kept.length - 1];
+
+  // Principal still owed on partly paid rows is already scheduled
+  const scheduledPrincipal = sumMoney(kept
+    .filter(row => !row.is_paid)
+    .map(row => money(row.principal_component).minus(money(row.principal_paid))));
+  const principal = toAmount(money(loan.outstanding_principal).minus(scheduledPrincipal));
+
+  await tx.emi_schedule.updateMany({
+    where: { id: { in: open.map(row => row.id) } },
+    data: { superseded_at: new Date() }
+  });
+
+  if (principal <= 0) return;
+
+  // Regenerated with the method the loan was agreed on
+  const calculator = interestCalculator(loan.interest_method);
+  const rate = Number(loan.interest_rate);
+  const startDate = lastKept ? lastKept.due_date : loan.emi_start_date;
+  const months = mode === 'reduce_emi'
+    ? open.length
+    : Math.min(calculator.tenure(principal, rate, Number(open[0].total_emi), startDate), open.length);
+
+  const latest = await tx.emi_schedule.aggregate({
+    where: { loan_id: loanId },
+    _max: { schedule_version: true }
+  });
+  const version = (latest._max.schedule_version || 1) + 1;
+
+  const schedule = calculator.schedule(principal, rate, months, startDate);
+
+  await tx.emi_schedule.createMany({
+    data: schedule.map(emi => ({
+      loan_id: loanId,
+      ...emi,
+      emi_number: open[0].emi_number + emi.emi_number - 1,
+      schedule_version: version,
+      remaining_due: emi.total_emi
+    }))
+  });
+}
+
+// Record a pre-EMI interest payment
+export async function recordPreEmiPayment(req: AuthRequest, preEmiId: string, input: PaymentInput) {
+  assertAmount(input.amount);
+  const actor = req.user!;
+
+  const row = await prisma.pre_emi_interest.findUnique({ where: { id: preEmiId }, select: { loan_id: true } });
+  if (!row) {
+    throw new HttpError(404, 'Pre-EMI interest not found');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const loan = await lockLoan(tx, row.loan_id);
+    assertCanPay(loan, actor);
+
+    await tx.$queryRaw`SELECT id FROM pre_emi_interest WHERE id = ${preEmiId}::uuid FOR UPDATE`;
+    await assessPenalties(input.paymentDate, loan.id, tx);
+
+    const preEmi = await tx.pre_emi_interest.findUniqueOrThrow({ where: { id: preEmiId } });
+    if (preEmi.is_paid) {
+      throw new HttpError(400, 'Pre-EMI interest is already paid');
+    }
+
+    // Late penalty is settled before interest
+    const penalty = roundMoney(money(preEmi.penalty_amount).minus(money(preEmi.penalty_paid)));
+    const owed = roundMoney(preEmi.interest_amount).plus(penalty);
+    // Pre-EMI interest has no principal to take an excess, so the amount must match exactly
+    if (!money(input.amount).equals(owed)) {
+      throw new HttpError(400, `Amount must equal the interest and late penalty due (${owed.toNumber()})`);
+    }
+    const interest = toAmount(money(input.amount).minus(penalty));
+
+    const payment = await tx.payments.create({
+      data: {
+        loan_id: loan.id,
+        user_id: loan.user_id,
+        amount: input.amount,
+        interest_component: interest,
+        penalty_component: penalty.toNumber(),
+        payment_type: 'pre_emi_interest',
+        payment_date: input.paymentDate,
+        pre_emi_interest_id: preEmi.id,
+        recorded_by: hasPermission(actor.role, 'payments.record') ? actor.id : null
+      }
+    });
+
+    await tx.pre_emi_interest.update({
+      where: { id: preEmi.id },
+      data: {
+        is_paid: true,
+        paid_amount: input.amount,
+        paid_at: input.paymentDate,
+        penalty_paid: { increment: penalty.toNumber() }
+      }
+    });
+
+    await applyToLoan(tx, loan.id, 0, interest);
+    await recordAudit(req, { action: 'payment.pre_emi', entityType: 'payments', entityId: payment.id, after: payment }, tx);
+
+    return payment;
+  });
+}
+
+// Where money left over after settling an EMI goes
+export type ExcessTarget = 'next_emi' | 'prepayment';
+
+interface EmiPaymentInput extends PaymentInput {
+  excess?: ExcessTarget;
+  reamortize?: ReamortizeMode;
+}
+
+// Split an amount across what is still owed on an EMI row: late penalty, then interest, then principal
+function allocateToEmi(
+  emi: {
+    penalty_amount: Prisma.Decimal | null;
+    penalty_paid: Prisma.Decimal | null;
+    interest_component: Prisma.Decimal;
+    principal_component: Prisma.Decimal;
+    interest_paid: Prisma.Decimal | null;
+    principal_paid: Prisma.Decimal | null;
+  },
+  amount: Decimal
+) {
+  const penaltyOwed = roundMoney(money(emi.penalty_amount).minus(money(emi.penalty_paid)));
+  const interestOwed = roundMoney(money(emi.interest_component).minus(money(emi.interest_paid)));
+  const principalOwed = roundMoney(money(emi.principal_component).minus(money(emi.principal_paid)));
+
+  const penalty = minMoney(amount, penaltyOwed);
+  const interest = minMoney(amount.minus(penalty), interestOwed);
+  const principal = minMoney(amount.minus(penalty).minus(interest), principalOwed);
+  const remainingDue = sumMoney([penaltyOwed, interestOwed, principalOwed]).minus(sumMoney([penalty, interest, principal]));
+
+  return { penalty, interest, principal, remainingDue };
+}
+
+// Record an EMI payment against a schedule row.
+// Partial amounts settle any late penalty, then interest, then principal, and leave the row open.
+// Anything beyond the row's remaining due flows into later EMIs, or straight to principal
+// when excess is 'prepayment' or no unpaid EMIs are left, after which the schedule is re-amortized.
+export async function recordEmiPayment(req: AuthRequest, emiId: string, input: EmiPaymentInput) {
+  assertAmount(input.amount);
+  const actor = req.user!;
+
+  const row = await prisma.emi_schedule.findUnique({ where: { id: emiId }, select: { loan_id: true } });
+  if (!row) {
+    throw new HttpError(404, 'EMI not found');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const loan = await lockLoan(tx, row.loan_id);
+    assertCanPay(loan, actor);
+
+    await tx.$queryRaw`SELECT id FROM emi_schedule WHERE loan_id = ${loan.id}::uuid AND is_paid = false AND superseded_at IS NULL FOR UPDATE`;
+    await assessPenalties(input.paymentDate, loan.id, tx);
+
+    const emi = await tx.emi_schedule.findUniqueOrThrow({ where: { id: emiId } });
+    if (emi.is_paid) {
+      throw new HttpError(400, 'EMI is already paid');
+    }
+    if (emi.superseded_at) {
+      throw new HttpError(400, 'EMI has been replaced by a newer schedule');
+    }
+
+    const laterEmis = input.excess === 'prepayment' ? [] : await tx.emi_schedule.findMany({
+      where: { loan_id: loan.id, is_paid: false, superseded_at: null, emi_number: { gt: emi.emi_number } },
+      orderBy: { emi_number: 'asc' }
+    });
+
+    const recordedBy = hasPermission(actor.role, 'payments.record') ? actor.id : null;
+    const payments = [];
+    let remaining = roundMoney(input.amount);
+    let principalTotal = money(0);
+    let interestTotal = money(0);
+
+    for (const target of [emi, ...laterEmis]) {
+      if (!remaining.greaterThan(0)) break;
+
+      const { penalty, interest, principal, remainingDue } = allocateToEmi(target, remaining);
+      const applied = sumMoney([penalty, interest, principal]);
+      const paidOff = !remainingDue.greaterThan(0);
+
+      payments.push(await tx.payments.create({
+        data: {
+          loan_id: loan.id,
+          user_id: loan.user_id,
+          amount: applied.toNumber(),
+          principal_component: principal.toNumber(),
+          interest_component: interest.toNumber(),
+          penalty_component: penalty.toNumber(),
+          payment_type: 'emi',
+          payment_date: input.paymentDate,
+          emi_schedule_id: target.id,
+          recorded_by: recordedBy
+        }
+      }));
+
+      await tx.emi_schedule.update({
+        where: { id: target.id },
+        data: {
+          paid_amount: toAmount(money(target.paid_amount).plus(applied)),
+          penalty_paid: { increment: penalty.toNumber() },
+          interest_paid: { increment: interest.toNumber() },
+          principal_paid: { increment: principal.toNumber() },
+          remaining_due: remainingDue.toNumber(),
+          is_paid: paidOff,
+          paid_at: paidOff ? input.paymentDate : null
+        }
+      });
+
+      principalTotal = principalTotal.plus(principal);
+      interestTotal = interestTotal.plus(interest);
+      remaining = remaining.minus(applied);
+    }
+
+    const excess = remaining.greaterThan(0);
+    if (excess) {
+      if (principalTotal.plus(remaining).greaterThan(money(loan.outstanding_principal))) {
+        throw new HttpError(400, 'Amount exceeds the total due on this loan');
+      }
+
+      payments.push(await tx.payments.create({
+        data: {
+          loan_id: loan.id,
+          user_id: loan.user_id,
+          amount: remaining.toNumber(),
+          principal_component: remaining.toNumber(),
+          payment_type: 'prepayment',
+          payment_date: input.paymentDate,
+          notes: `Excess from EMI #${emi.emi_number} payment`,
+          recorded_by: recordedBy
+        }
+      }));
+      principalTotal = principalTotal.plus(remaining);
+    }
+
+    await applyToLoan(tx, loan.id, principalTotal.toNumber(), interestTotal.toNumber());
+
+    if (excess) {
+      await reamortize(tx, loan.id, input.reamortize || 'reduce_tenure');
+    }
+    await recordAudit(req, { action: 'payment.emi', entityType: 'emi_schedule', entityId: emiId, after: payments }, tx);
+
+    return payments;
+  });
+}
+
+// Record a prepayment straight against outstanding principal and re-amortize the remaining EMIs
+export async function recordPrepayment(req: AuthRequest, loanId: string, input: PaymentInput & { reamortize?: ReamortizeMode }) {
+  assertAmount(input.amount);
+  const actor = req.user!;
+
+  return prisma.$transaction(async (tx) => {
+    const loan = await lockLoan(tx, loanId);
+    assertCanPay(loan, actor);
+
+    if (money(input.amount).greaterThan(money(loan.outstanding_principal))) {
+      throw new HttpError(400, 'Amount exceeds outstanding principal');
+    }
+
+    const payment = await tx.payments.create({
+      data: {
+        loan_id: loan.id,
+        user_id: loan.user_id,
+        amount: input.amount,
+        principal_component: input.amount,
+        payment_type: 'prepayment',
+        payment_date: input.paymentDate,
+        recorded_by: hasPermission(actor.role, 'payments.record') ? actor.id : null
+      }
+    });
+
+    await applyToLoan(tx, loan.id, input.amount, 0);
+    await reamortize(tx, loan.id, input.reamortize || 'reduce_tenure');
+    await recordAudit(req, {
+      action: 'payment.prepay', entityType: 'payments', entityId: payment.id,
+      after: { ...payment, reamortize: input.reamortize }
+    }, tx);
+
+    return payment;
+  });
+}
+
+// Move money in or out of the emergency fund and record the transaction
+async function postEmergencyFund(
+  tx: Tx,
+  entry: {
+    type: 'loan_write_off' | 'loan_recovery';
+    amount: number;
+    loanId: string;
+    description: string;
+    actor: LedgerActor;
+  }
+) {
+  await tx.$queryRaw`SELECT id FROM emergency_fund FOR UPDATE`;
+  let fund = await tx.emergency_fund.findFirst();
+  if (!fund) {
+    fund = await tx.emergency_fund.create({ data: { total_balance: 0, last_interest_month: 0 } });
+  }
+
+  const balance = money(fund.total_balance);
+  const balanceAfter = toAmount(entry.type === 'loan_write_off' ? balance.minus(entry.amount) : balance.plus(entry.amount));
+
+  await tx.emergency_fund.update({
+    where: { id: fund.id },
+    data: { total_balance: balanceAfter, updated_at: new Date() }
+  });
+
+  await tx.emergency_fund_transactions.create({
+    data: {
+      transaction_type: entry.type,
+      amount: entry.amount,
+      loan_id: entry.loanId,
+      balance_after: balanceAfter,
+      description: entry.description,
+      recorded_by: entry.actor.id
+    }
+  });
+
+  return balanceAfter;
+}
+
+// Unpaid EMIs on the current schedule whose due date has passed
+export async function countMissedEmis(loanId: string, asOf: Date = new Date(), db: Tx = prisma) {
+  return db.emi_schedule.count({
+    where: { loan_id: loanId, is_paid: false, superseded_at: null, due_date: { lt: asOf } }
+  });
+}
+
+// Apply part of a member's deposits to a defaulted loan: a negative 'loan_offset' deposit and
+// a matching payment. Returns the amount taken (never more than the member has).
+async function offsetDeposits(
+  tx: Tx,
+  loan: { id: string },
+  memberId: string,
+  input: { amount: Decimal; paymentType: string; notes: string; actor: LedgerActor; today: Date }
+) {
+  const deposits = await tx.deposits.aggregate({
+    where: { user_id: memberId },
+    _sum: { amount: true },
+    _max: { member_month: true }
+  });
+  const depositTotal = money(deposits._sum.amount);
+  const offset = roundMoney(minMoney(depositTotal, input.amount));
+  if (!offset.greaterThan(0)) return money(0);
+
+  await tx.deposits.create({
+    data: {
+      user_id: memberId,
+      amount: offset.negated().toNumber(),
+      entry_type: 'loan_offset',
+      member_month: deposits._max.member_month || 1,
+      deposit_date: input.today,
+      cumulative_total: toAmount(depositTotal.minus(offset)),
+      notes: `Offset against defaulted loan ${loan.id}`,
+      recorded_by: input.actor.id
+    }
+  });
+
+  await tx.payments.create({
+    data: {
+      loan_id: loan.id,
+      user_id: memberId,
+      amount: offset.toNumber(),
+      principal_component: offset.toNumber(),
+      payment_type: input.paymentType,
+      payment_date: input.today,
+      notes: input.notes,
+      recorded_by: input.actor.id
+    }
+  });
+
+  return offset;
+}
+
+// Mark an active loan defaulted and write off what is left.
+// The member's deposits can be offset against outstanding principal first, then the deposits
+// its guarantors pledged (each up to their pledge); whatever remains is charged to the
+// emergency fund and stays on the loan as recoverable.
+export async function defaultLoan(
+  req: AuthRequest,
+  loanId: string,
+  input: { offsetDeposits: boolean; offsetGuarantors: boolean; notes?: string }
+) {
+  const actor = req.user!;
+  const setting = await prisma.fund_settings.findUnique({
+    where: { setting_key: 'default_missed_emis' }
+  });
+  const missedRequired = parseInt(setting?.setting_value || '3');
+
+  return prisma.$transaction(async (tx) => {
+    const loan = await lockLoan(tx, loanId);
+    if (loan.status !== 'active') {
+      throw new HttpError(400, `Cannot default a loan that is ${loan.status}`);
+    }
+
+    const missed = await countMissedEmis(loan.id, new Date(), tx);
+    if (missed < missedRequired) {
+      throw new HttpError(400, `Loan has ${missed} missed EMIs (at least ${missedRequired} required to default)`);
+    }
+
+    const today = new Date();
+    const outstanding = money(loan.outstanding_principal);
+    let offset = money(0);
+    let guarantorOffset = money(0);
+
+    if (input.offsetDeposits) {
+      offset = await offsetDeposits(tx, loan, loan.user_id, {
+        amount: outstanding, paymentType: 'deposit_offset', notes: 'Deposits offset on default', actor, today
+      });
+    }
+
+    // A defaulted loan no longer locks its pledges; the ones drawn on here are marked invoked
+    if (input.offsetGuarantors) {
+      const guarantees = await tx.loan_guarantors.findMany({
+        where: { loan_id: loan.id, status: 'accepted' },
+        orderBy: { created_at: 'asc' }
+      });
+      for (const guarantee of guarantees) {
+        const remaining = outstanding.minus(offset).minus(guarantorOffset);
+        if (!remaining.greaterThan(0)) break;
+
+        const taken = await offsetDeposits(tx, loan, guarantee.guarantor_id, {
+          amount: minMoney(guarantee.amount, remaining),
+          paymentType: 'guarantor_offset',
+          notes: 'Guarantor deposits offset on default',
+          actor,
+          today
+        });
+        if (taken.greaterThan(0)) {
+          await tx.loan_guarantors.update({
+            where: { id: guarantee.id },
+            data: { status: 'invoked', offset_amount: taken.toNumber(), updated_at: today }
+          });
+          guarantorOffset = guarantorOffset.plus(taken);
+        }
+      }
+    }
+
+    const loss = toAmount(outstanding.minus(offset).minus(guarantorOffset));
+    if (loss > 0) {
+      await postEmergencyFund(tx, {
+        type: 'loan_write_off',
+        amount: loss,
+        loanId: loan.id,
+        description: input.notes || `Write-off of defaulted loan after ${missed} missed EMIs`,
+        actor
+      });
+    }
+
+    const updated = await tx.loans.update({
+      where: { id: loan.id },
+      data: {
+        status: 'defaulted',
+        outstanding_principal: loss,
+        defaulted_at: today,
+        defaulted_by: actor.id,
+        deposit_offset_amount: offset.toNumber(),
+        written_off_amount: loss,
+        updated_at: today
+      }
+    });
+    await recordAudit(req, { action: 'loan.default', entityType: 'loans', entityId: loan.id, before: loan, after: updated }, tx);
+
+    return updated;
+  });
+}
+
+// Record money recovered on a defaulted loan; it goes back to the emergency fund
+export async function recordRecovery(req: AuthRequest, loanId: string, input: PaymentInput & { notes?: string }) {
+  assertAmount(input.amount);
+  const actor = req.user!;
+
+  return prisma.$transaction(async (tx) => {
+    const loan = await lockLoan(tx, loanId);
+    if (loan.status !== 'defaulted') {
+      throw new HttpError(400, 'Recoveries can only be recorded on defaulted loans');
+    }
+
+    const recoverable = roundMoney(money(loan.written_off_amount).minus(money(loan.recovered_amount)));
+    if (money(input.amount).greaterThan(recoverable)) {
+      throw new HttpError(400, `Amount exceeds the unrecovered write-off (${recoverable.toNumber()})`);
+    }
+
+    const payment = await tx.payments.create({
+      data: {
+        loan_id: loan.id,
+        user_id: loan.user_id,
+        amount: input.amount,
+        principal_component: input.amount,
+        payment_type: 'recovery',
+        payment_date: input.paymentDate,
+        notes: input.notes,
+        recorded_by: actor.id
+      }
+    });
+
+    await postEmergencyFund(tx, {
+      type: 'loan_recovery',
+      amount: input.amount,
+      loanId: loan.id,
+      description: input.notes || 'Recovery on defaulted loan',
+      actor
+    });
+
+    await tx.loans.update({
+      where: { id: loan.id },
+      data: {
+        outstanding_principal: { decrement: input.amount },
+        recovered_amount: { increment: input.amount },
+        updated_at: new Date()
+      }
+    });
+    await recordAudit(req, { action: 'loan.recover', entityType: 'loans', entityId: loan.id, after: payment }, tx);
+
+    return payment;
+  });
+}
@@ -0,0 +1,239 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../lib/errors';
+import { AuthRequest } from '../middleware/auth';
+import { recordAudit } from './audit';
+import { checkGuaranteesAccepted, GuaranteeInput, resolveGuarantors, totalGuaranteed } from './guarantors';
+import { checkPreEmi, checkProductLimit, checkTenure, loadProduct, maturityDate, resolveProduct } from './products';
+import {
+  getInterestRate, getMemberEligibility, getPoolLiquidity, OPEN_LOAN_STATUSES, PENDING_LOAN_STATUSES
+} from './interest';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+// Checking eligibility and then writing the loan is not atomic: two requests can both read the
+// same headroom and together take more than the pool has. Everything that reserves pool money
+// runs through this lock, one at a time. It is released when the transaction ends.
+export function withPoolLock<T>(fn: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('loan_pool'))`;
+    return fn(tx);
+  }, { timeout: 15000 });
+}
+
+export interface LoanRequestInput {
+  amount: number;
+  // Defaults to the regular product
+  productId?: string;
+  // Number of EMIs; defaults to the product's default tenure
+  tenureMonths?: number;
+  emiStartDate?: string;
+  // Members pledging deposits towards the borrower's eligibility; each must accept in-app
+  guarantors?: GuaranteeInput[];
+}
+
+// Apply for a loan. The application reserves its amount from the pool until it is decided,
+// and the guarantors' pledges are locked from the moment it is made.
+export async function requestLoan(
+  req: AuthRequest,
+  { amount, productId, tenureMonths, emiStartDate, guarantors = [] }: LoanRequestInput
+) {
+  const userId = req.user!.id;
+
+  return withPoolLock(async (tx) => {
+    const product = await resolveProduct(productId, tx);
+    const tenure = tenureMonths ?? product.default_tenure_months;
+    checkTenure(product, tenure);
+
+    const activeLoans = await tx.loans.count({
+      where: { user_id: userId, status: { in: OPEN_LOAN_STATUSES } }
+    });
+    const maxLoans = await tx.fund_settings.findUnique({
+      where: { setting_key: 'max_active_loans' }
+    });
+    if (activeLoans >= parseInt(maxLoans?.setting_value || '2')) {
+      throw new HttpError(400, 'Maximum active loans reached');
+    }
+    await checkProductLimit(userId, product, tx);
+    const guarantees = await resolveGuarantors(userId, guarantors, tx);
+
+    const eligibility = await getMemberEligibility(userId, { product, guaranteed: totalGuaranteed(guarantors), db: tx });
+    if (eligibility.defaultedLoans > 0) {
+      throw new HttpError(400, 'Members with a defaulted loan cannot apply for a new one');
+    }
+    if (amount > eligibility.disbursableNow) {
+      throw new HttpError(400, `The pool can only pay out ${eligibility.disbursableNow} right now`);
+    }
+    if (amount > eligibility.maxEligible) {
+      throw new HttpError(400, `Amount exceeds eligibility. Max: ${eligibility.maxEligible}`);
+    }
+
+    const multiplier = eligibility.totalDeposits > 0 ? amount / eligibility.totalDeposits : 0;
+    const interestRate = await getInterestRate(multiplier, product.id, tx);
+
+    // Nothing is paid out yet: disbursed_at and maturity_date are set on disbursement
+    const loan = await tx.loans.create({
+      data: {
+        user_id: userId,
+        product_id: product.id,
+        tenure_months: tenure,
+        interest_method: product.interest_method,
+        principal_amount: amount,
+        interest_rate: interestRate,
+        multiplier_at_disbursement: Math.round(multiplier * 100) / 100,
+        user_total_deposits_at_loan: eligibility.totalDeposits,
+        total_pool_at_loan: eligibility.totalPool,
+        max_eligible_at_loan: eligibility.maxEligible,
+        emi_start_date: emiStartDate ? new Date(emiStartDate) : null,
+        outstanding_principal: amount,
+        status: 'requested',
+        loan_guarantors: {
+          create: guarantees.map(({ guarantor, amount }) => ({ guarantor_id: guarantor.id, amount }))
+        }
+      },
+      include: { loan_guarantors: true }
+    });
+
+    await recordAudit(req, { action: 'loan.request', entityType: 'loans', entityId: loan.id, after: loan }, tx);
+    return loan;
+  });
+}
+
+// Check a loan can still be approved. Deposits, the pool and other loans may have moved
+// since the application, so eligibility is recalculated.
+export async function checkLoanApproval(loanId: string, db: Db = prisma) {
+  const loan = await db.loans.findUnique({ where: { id: loanId } });
+  if (!loan) {
+    throw new HttpError(404, 'Loan not found');
+  }
+  if (!PENDING_LOAN_STATUSES.includes(loan.status!)) {
+    throw new HttpError(400, `Cannot approve a loan that is ${loan.status}`);
+  }
+
+  // The product's rules at the time of approval apply, even if it has since been retired
+  const product = await loadProduct(loan.product_id, db);
+  const amount = Number(loan.principal_amount);
+  const eligibility = await getMemberEligibility(loan.user_id, { excludeLoanId: loan.id, product, db });
+  if (amount > eligibility.disbursableNow) {
+    throw new HttpError(400, `The pool can only pay out ${eligibility.disbursableNow} right now`);
+  }
+  if (amount > eligibility.maxEligible) {
+    throw new HttpError(400, `Member is no longer eligible for this amount. Max: ${eligibility.maxEligible}`);
+  }
+  return { loan, product, eligibility };
+}
+
+export async function approveLoan(req: AuthRequest, loanId: string) {
+  return withPoolLock(async (tx) => {
+    const { loan, product, eligibility } = await checkLoanApproval(loanId, tx);
+
+    const amount = Number(loan.principal_amount);
+    const multiplier = eligibility.totalDeposits > 0 ? amount / eligibility.totalDeposits : 0;
+    const interestRate = await getInterestRate(multiplier, product.id, tx);
+
+    const updated = await tx.loans.update({
+      where: { id: loan.id },
+      data: {
+        status: 'approved',
+        interest_rate: interestRate,
+        multiplier_at_disbursement: Math.round(multiplier * 100) / 100,
+        user_total_deposits_at_loan: eligibility.totalDeposits,
+        total_pool_at_loan: eligibility.totalPool,
+        max_eligible_at_loan: eligibility.maxEligible,
+        approved_by: req.user!.id,
+        approved_at: new Date()
+      }
+    });
+    await recordAudit(req, { action: 'loan.approve', entityType: 'loans', entityId: loan.id, before: loan, after: updated }, tx);
+    return updated;
+  });
+}
+
+// Take an application under review. Runs under the pool lock so it cannot interleave with an
+// approval or disbursement of the same loan.
+export async function reviewLoan(req: AuthRequest, loanId: string) {
+  return withPoolLock(async (tx) => {
+    const loan = await tx.loans.findUnique({ where: { id: loanId } });
+    if (!loan) {
+      throw new HttpError(404, 'Loan not found');
+    }
+    if (loan.status !== 'requested') {
+      throw new HttpError(400, `Cannot review a loan that is ${loan.status}`);
+    }
+
+    const updated = await tx.loans.update({
+      where: { id: loan.id },
+      data: { status: 'under_review', reviewed_by: req.user!.id, reviewed_at: new Date() }
+    });
+    await recordAudit(req, { action: 'loan.review', entityType: 'loans', entityId: loan.id, before: loan, after: updated }, tx);
+    return updated;
+  });
+}
+
+// Turn an application down. Approved loans can still be rejected as long as nothing was paid
+// out; the pool lock keeps a rejection from overwriting a disbursement made at the same time.
+export async function rejectLoan(req: AuthRequest, loanId: string, reason: string) {
+  return withPoolLock(async (tx) => {
+    const loan = await tx.loans.findUnique({ where: { id: loanId } });
+    if (!loan) {
+      throw new HttpError(404, 'Loan not found');
+    }
+    if (![...PENDING_LOAN_STATUSES, 'approved'].includes(loan.status!)) {
+      throw new HttpError(400, `Cannot reject a loan that is ${loan.status}`);
+    }
+
+    const updated = await tx.loans.update({
+      where: { id: loan.id },
+      data: {
+        status: 'rejected',
+        rejection_reason: String(reason).trim(),
+        reviewed_by: req.user!.id,
+        reviewed_at: new Date()
+      }
+    });
+    await recordAudit(req, { action: 'loan.reject', entityType: 'loans', entityId: loan.id, before: loan, after: updated }, tx);
+    return updated;
+  });
+}
+
+// Pay out an approved loan. The cash it was approved against may have gone since (a write-off
+// charged to the emergency fund, a deposit reversal), so liquidity is checked again.
+export async function disburseLoan(req: AuthRequest, loanId: string, disbursedOn?: string) {
+  return withPoolLock(async (tx) => {
+    const loan = await tx.loans.findUnique({ where: { id: loanId } });
+    if (!loan) {
+      throw new HttpError(404, 'Loan not found');
+    }
+    if (loan.status !== 'approved') {
+      throw new HttpError(400, `Only approved loans can be disbursed (loan is ${loan.status})`);
+    }
+    await checkGuaranteesAccepted(loan.id, tx);
+
+    const product = await loadProduct(loan.product_id, tx);
+    const disbursedAt = disbursedOn ? new Date(disbursedOn) : new Date();
+    if (loan.emi_start_date && loan.emi_start_date < disbursedAt) {
+      throw new HttpError(400, 'EMI start date cannot be before the disbursement date');
+    }
+    if (loan.emi_start_date) {
+      checkPreEmi(product, disbursedAt, loan.emi_start_date);
+    }
+
+    const { disbursableNow } = await getPoolLiquidity(loan.id, tx);
+    if (Number(loan.principal_amount) > disbursableNow) {
+      throw new HttpError(400, `Not enough free cash to pay out this loan. Disbursable now: ${disbursableNow}`);
+    }
+
+    const updated = await tx.loans.update({
+      where: { id: loan.id },
+      data: { status: 'active', disbursed_at: disbursedAt, maturity_date: maturityDate(product, disbursedAt) }
+    });
+    await recordAudit(req, { action: 'loan.disburse', entityType: 'loans', entityId: loan.id, before: loan, after: updated }, tx);
+    return updated;
+  });
+}
+
+// Loans above dual_approval_loan_amount need a second admin to approve them
+export async function needsSecondApproval(amount: number) {
+  const setting = await prisma.fund_settings.findUnique({ where: { setting_key: 'dual_approval_loan_amount' } });
+  return amount > parseFloat(setting?.setting_value || '100000');
+}
@@ -0,0 +1,82 @@
+import { Request } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+type FailureReason = 'unknown_phone' | 'bad_password' | 'inactive' | 'locked';
+
+interface LockableUser {
+  id: string;
+  locked_until: Date | null;
+}
+
+const MAX_FAILURES = parseInt(process.env.LOGIN_MAX_FAILURES || '5');
+const LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '5');
+const MAX_LOCKOUT_MINUTES = 24 * 60;
+
+// Time left on a lock, or null when the account can log in
+export function lockRemaining(user: LockableUser): number | null {
+  if (!user.locked_until) return null;
+  const ms = user.locked_until.getTime() - Date.now();
+  return ms > 0 ? ms : null;
+}
+
+export async function recordLoginFailure(
+  req: Request,
+  failure: { phone: unknown; userId?: string; reason: FailureReason }
+) {
+  try {
+    await prisma.login_failures.create({
+      data: {
+        phone: typeof failure.phone === 'string' ? failure.phone.slice(0, 15) : null,
+        user_id: failure.userId || null,
+        reason: failure.reason,
+        ip_address: req.ip || null,
+        user_agent: req.get('user-agent') || null
+      }
+    });
+  } catch (error) {
+    // Recording must never turn a failed login into a server error
+    console.error('Failed to record login failure:', error);
+  }
+}
+
+// Count a wrong password. Every MAX_FAILURES in a row locks the account, each lock twice as long
+// as the last. Returns the lock expiry when this failure caused a lock.
+export async function registerBadPassword(userId: string): Promise<Date | null> {
+  const user = await prisma.users.update({
+    where: { id: userId },
+    data: { failed_login_count: { increment: 1 } },
+    select: { failed_login_count: true, lockout_count: true }
+  });
+  if (user.failed_login_count < MAX_FAILURES) {
+    return null;
+  }
+
+  const minutes = Math.min(LOCKOUT_MINUTES * 2 ** user.lockout_count, MAX_LOCKOUT_MINUTES);
+  const lockedUntil = new Date(Date.now() + minutes * 60 * 1000);
+  await prisma.users.update({
+    where: { id: userId },
+    data: { failed_login_count: 0, lockout_count: { increment: 1 }, locked_until: lockedUntil }
+  });
+  return lockedUntil;
+}
+
+// A successful login clears the counters so the backoff starts over
+export async function clearLoginFailures(userId: string, db: Db = prisma) {
+  await db.users.updateMany({
+    where: {
+      id: userId,
+      OR: [{ failed_login_count: { gt: 0 } }, { lockout_count: { gt: 0 } }, { locked_until: { not: null } }]
+    },
+    data: { failed_login_count: 0, lockout_count: 0, locked_until: null }
+  });
+}
+
+export function describeLock(ms: number): string {
+  const minutes = Math.ceil(ms / 60000);
+  return minutes >= 60
+    ? `Too many failed attempts. Account locked for ${Math.ceil(minutes / 60)} hour(s).`
+    : `Too many failed attempts. Account locked for ${minutes} minute(s).`;
+}
@@ -0,0 +1,72 @@
+import prisma from '../lib/prisma';
+import { HttpError } from '../lib/errors';
+import { AuthRequest } from '../middleware/auth';
+import { recordAudit } from './audit';
+import { pledgedDeposits } from './interest';
+
+// Check a user can be permanently deleted; the typed name must match exactly
+export async function checkPurge(userId: string, confirmName: unknown) {
+  const user = await prisma.users.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new HttpError(404, 'User not found');
+  }
+  if (user.role === 'admin') {
+    throw new HttpError(400, 'Cannot delete admin users');
+  }
+  if (confirmName !== user.name) {
+    throw new HttpError(400, 'Confirmation name does not match. Please type the exact user name.');
+  }
+
+  const activeLoans = await prisma.loans.count({
+    where: { user_id: userId, status: 'active' }
+  });
+  if (activeLoans > 0) {
+    throw new HttpError(400, 'Cannot permanently delete user with active loans. Deactivate or close loans first.');
+  }
+  if ((await pledgedDeposits(userId)).greaterThan(0)) {
+    throw new HttpError(400, "Cannot permanently delete a member who guarantees other members' open loans.");
+  }
+  return user;
+}
+
+// Permanently delete a user and everything recorded against them
+export async function purgeUser(req: AuthRequest, userId: string, confirmName: unknown) {
+  const user = await checkPurge(userId, confirmName);
+
+  // Keep a record of what is about to be destroyed
+  const removed = {
+    user: { id: user.id, name: user.name, phone: user.phone, email: user.email, status: user.status, joined_at: user.joined_at },
+    deposits: await prisma.deposits.aggregate({ where: { user_id: userId }, _sum: { amount: true }, _count: true }),
+    loans: await prisma.loans.findMany({
+      where: { user_id: userId },
+      select: { id: true, principal_amount: true, status: true, outstanding_principal: true }
+    }),
+    payments: await prisma.payments.count({ where: { user_id: userId } })
+  };
+
+  // Delete in order due to foreign key constraints
+  // 1. Delete payments
+  await prisma.payments.deleteMany({ where: { user_id: userId } });
+  
+  // 2. Delete EMI schedules and pre-EMI interest for user's loans
+  const userLoans = await prisma.loans.findMany({ where: { user_id: userId }, select: { id: true } });
+  const loanIds = userLoans.map(l => l.id);
+  
+  if (loanIds.length > 0) {
+    await prisma.emi_schedule.deleteMany({ where: { loan_id: { in: loanIds } } });
+    await prisma.pre_emi_interest.deleteMany({ where: { loan_id: { in: loanIds } } });
+  }
+  
+  // 3. Delete guarantees they gave, then loans (their own loans' guarantees go with them)
+  await prisma.loan_guarantors.deleteMany({ where: { guarantor_id: userId } });
+  await prisma.loans.deleteMany({ where: { user_id: userId } });
+  
+  // 4. Delete deposits
+  await prisma.deposits.deleteMany({ where: { user_id: userId } });
+  
+  // 5. Delete user
+  await prisma.users.delete({ where: { id: userId } });
+
+  await recordAudit(req, { action: 'user.purge', entityType: 'users', entityId: userId, before: removed });
+  return user;
+}
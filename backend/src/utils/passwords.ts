@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { Request } from 'express';
+import prisma from '../lib/prisma';
+import { HttpError } from '../lib/errors';
+import { AuthRequest } from '../middleware/auth';
+import { notify } from '../notifications';
+import { recordAudit } from './audit';
+import { revokeAllSessions } from './sessions';
+
+const MIN_PASSWORD_LENGTH = 6;
+const MAX_CODE_ATTEMPTS = 5;
+const RESET_CODE_MINUTES = parseInt(process.env.PASSWORD_RESET_MINUTES || '30');
+
+function hashCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+function assertPassword(password: string) {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+// Change a logged-in user's password. Their other sessions are ended; the current one stays.
+export async function changePassword(req: AuthRequest, input: { currentPassword: string; newPassword: string }) {
+  const userId = req.user!.id;
+  const user = await prisma.users.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new HttpError(404, 'User not found');
+  }
+
+  const valid = await bcrypt.compare(String(input.currentPassword || ''), user.password_hash);
+  if (!valid) {
+    throw new HttpError(400, 'Current password is incorrect');
+  }
+  assertPassword(input.newPassword);
+  if (input.newPassword === input.currentPassword) {
+    throw new HttpError(400, 'New password must be different');
+  }
+
+  const passwordHash = await bcrypt.hash(input.newPassword, 10);
+  const sessionsEnded = await prisma.$transaction(async (tx) => {
+    await tx.users.update({
+      where: { id: userId },
+      data: { password_hash: passwordHash, updated_at: new Date() }
+    });
+    const ended = await revokeAllSessions(userId, 'revoked', req.user!.sid, tx);
+    await recordAudit(req, { action: 'user.change_password', entityType: 'users', entityId: userId, after: { other_sessions_ended: ended } }, tx);
+    return ended;
+  });
+
+  return { sessionsEnded };
+}
+
+// Issue a one-time reset code and send it to the member. Earlier unused codes stop working.
+export async function issueResetCode(req: AuthRequest, userId: string) {
+  const user = await prisma.users.findUnique({
+    where: { id: userId },
+    select: { id: true, name: true, phone: true, email: true, status: true }
+  });
+  if (!user) {
+    throw new HttpError(404, 'User not found');
+  }
+  if (user.status !== 'active') {
+    throw new HttpError(400, `Account is ${user.status}`);
+  }
+
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+  const expiresAt = new Date(Date.now() + RESET_CODE_MINUTES * 60 * 1000);
+
+  const row = await prisma.$transaction(async (tx) => {
+    await tx.password_reset_codes.updateMany({
+      where: { user_id: userId, used_at: null },
+      data: { used_at: new Date() }
+    });
+    const created = await tx.password_reset_codes.create({
+      data: { user_id: userId, code_hash: hashCode(code), expires_at: expiresAt, created_by: req.user!.id }
+    });
+    await recordAudit(req, { action: 'user.reset_code_issue', entityType: 'users', entityId: userId, after: { reset_id: created.id, expires_at: expiresAt } }, tx);
+    return created;
+  });
+
+  const channel = await notify({
+    to: { user_id: user.id, name: user.name, phone: user.phone, email: user.email },
+    subject: 'Saarthi Fund password reset',
+    body: `Your password reset code is ${code}. It expires in ${RESET_CODE_MINUTES} minutes. `
+      + 'Enter it with your phone number on the reset password page.'
+  });
+  await prisma.password_reset_codes.update({ where: { id: row.id }, data: { channel } });
+
+  return { id: row.id, user, expiresAt, channel };
+}
+
+// Redeem a reset code: set the new password and end every session
+export async function redeemResetCode(req: Request, input: { phone: string; code: string; newPassword: string }) {
+  const invalid = new HttpError(400, 'Invalid or expired reset code');
+
+  const user = await prisma.users.findFirst({ where: { phone: String(input.phone || '') } });
+  if (!user || user.status !== 'active') {
+    throw invalid;
+  }
+
+  const reset = await prisma.password_reset_codes.findFirst({
+    where: { user_id: user.id, used_at: null, expires_at: { gt: new Date() } },
+    orderBy: { created_at: 'desc' }
+  });
+  if (!reset) {
+    throw invalid;
+  }
+
+  // Take an attempt before comparing, so concurrent guesses cannot get past the limit
+  const attempt = await prisma.password_reset_codes.updateMany({
+    where: { id: reset.id, used_at: null, attempts: { lt: MAX_CODE_ATTEMPTS } },
+    data: { attempts: { increment: 1 } }
+  });
+  if (attempt.count !== 1) {
+    throw invalid;
+  }
+
+  const given = Buffer.from(hashCode(String(input.code || '').trim()));
+  if (!crypto.timingSafeEqual(given, Buffer.from(reset.code_hash))) {
+    throw invalid;
+  }
+  assertPassword(input.newPassword);
+
+  const passwordHash = await bcrypt.hash(input.newPassword, 10);
+  const sessionsEnded = await prisma.$transaction(async (tx) => {
+    // Claim the code so it cannot be redeemed twice
+    const claimed = await tx.password_reset_codes.updateMany({
+      where: { id: reset.id, used_at: null },
+      data: { used_at: new Date() }
+    });
+    if (claimed.count === 0) {
+      throw invalid;
+    }
+
+    await tx.users.update({
+      where: { id: user.id },
+      data: { password_hash: passwordHash, updated_at: new Date() }
+    });
+    const ended = await revokeAllSessions(user.id, 'revoked', undefined, tx);
+    await recordAudit(req, { action: 'user.reset_password', entityType: 'users', entityId: user.id, after: { reset_id: reset.id, sessions_ended: ended } }, tx);
+    return ended;
+  });
+
+  return { userId: user.id, resetId: reset.id, sessionsEnded };
+}
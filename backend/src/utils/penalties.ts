@@ -0,0 +1,120 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { minMoney, money, toAmount } from '../lib/money';
+
+export type PenaltyType = 'none' | 'flat' | 'daily_percent';
+
+export interface PenaltyRules {
+  graceDays: number;
+  type: PenaltyType;
+  flatAmount: number;
+  dailyPercent: number;
+  cap: number;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Read late payment rules from fund_settings
+export async function getPenaltyRules(db: Prisma.TransactionClient = prisma): Promise<PenaltyRules> {
+  const settings = await db.fund_settings.findMany({
+    where: { setting_key: { startsWith: 'penalty_' } }
+  });
+  const value = (key: string, fallback: string) =>
+    settings.find(s => s.setting_key === key)?.setting_value || fallback;
+
+  const type = value('penalty_type', 'none');
+
+  return {
+    graceDays: parseInt(value('penalty_grace_days', '0')),
+    type: type === 'flat' || type === 'daily_percent' ? type : 'none',
+    flatAmount: parseFloat(value('penalty_flat_amount', '0')),
+    dailyPercent: parseFloat(value('penalty_daily_percent', '0')),
+    cap: parseFloat(value('penalty_cap', '0'))
+  };
+}
+
+// Whole days between a due date and a given date (0 if not yet due)
+export function daysOverdue(dueDate: Date, asOf: Date): number {
+  return Math.max(Math.floor((asOf.getTime() - new Date(dueDate).getTime()) / DAY_MS), 0);
+}
+
+// Penalty for an amount left unpaid for `days` past its due date.
+// Flat fees are charged once the grace period ends; daily percentages accrue per day beyond it.
+// A cap of 0 means no cap.
+export function calculatePenalty(rules: PenaltyRules, unpaid: number, days: number): number {
+  if (rules.type === 'none' || unpaid <= 0 || days <= rules.graceDays) return 0;
+
+  const penalty = rules.type === 'flat'
+    ? money(rules.flatAmount)
+    : money(unpaid).times(rules.dailyPercent).div(100).times(days - rules.graceDays);
+  const capped = rules.cap > 0 ? minMoney(penalty, rules.cap) : penalty;
+
+  return toAmount(capped);
+}
+
+// Unpaid installment on an EMI row, not counting penalties
+export function emiUnpaidBase(emi: {
+  interest_component: Prisma.Decimal;
+  principal_component: Prisma.Decimal;
+  interest_paid: Prisma.Decimal | null;
+  principal_paid: Prisma.Decimal | null;
+}): number {
+  return toAmount(
+    money(emi.interest_component).minus(money(emi.interest_paid))
+      .plus(money(emi.principal_component)).minus(money(emi.principal_paid))
+  );
+}
+
+// Bring stored penalties on overdue rows up to date as of a date.
+// Penalties only ever grow; a row keeps what it was already charged.
+// Each write only applies if the row is still unpaid and carries the penalty read here, so an
+// assessment running alongside another one, or alongside a payment, cannot charge twice.
+export async function assessPenalties(
+  asOf: Date = new Date(),
+  loanId?: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<{ emi: number; preEmi: number }> {
+  const rules = await getPenaltyRules(db);
+  const result = { emi: 0, preEmi: 0 };
+  if (rules.type === 'none') return result;
+
+  const cutoff = new Date(asOf.getTime() - rules.graceDays * DAY_MS);
+  const loanFilter = loanId ? { id: loanId, status: 'active' as const } : { status: 'active' as const };
+
+  const overdueEmis = await db.emi_schedule.findMany({
+    where: { is_paid: false, superseded_at: null, due_date: { lt: cutoff }, loans: loanFilter }
+  });
+
+  for (const emi of overdueEmis) {
+    const penalty = calculatePenalty(rules, emiUnpaidBase(emi), daysOverdue(emi.due_date, asOf));
+    const increase = toAmount(money(penalty).minus(money(emi.penalty_amount)));
+    if (increase <= 0) continue;
+
+    const { count } = await db.emi_schedule.updateMany({
+      where: { id: emi.id, is_paid: false, superseded_at: null, penalty_amount: emi.penalty_amount },
+      data: {
+        penalty_amount: penalty,
+        remaining_due: { increment: increase }
+      }
+    });
+    result.emi += count;
+  }
+
+  const overduePreEmis = await db.pre_emi_interest.findMany({
+    where: { is_paid: false, due_date: { lt: cutoff }, loans: loanFilter }
+  });
+
+  for (const preEmi of overduePreEmis) {
+    const penalty = calculatePenalty(rules, Number(preEmi.interest_amount), daysOverdue(preEmi.due_date, asOf));
+    const increase = toAmount(money(penalty).minus(money(preEmi.penalty_amount)));
+    if (increase <= 0) continue;
+
+    const { count } = await db.pre_emi_interest.updateMany({
+      where: { id: preEmi.id, is_paid: false, penalty_amount: preEmi.penalty_amount },
+      data: { penalty_amount: penalty }
+    });
+    result.preEmi += count;
+  }
+
+  return result;
+}
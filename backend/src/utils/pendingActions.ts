@@ -0,0 +1,260 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../lib/errors';
+import { hasPermission, Permission } from '../lib/permissions';
+import { AuthRequest } from '../middleware/auth';
+import { recordAudit } from './audit';
+import { approveLoan, checkLoanApproval } from './loans';
+import { checkPurge, purgeUser } from './members';
+import {
+  bracketProductName, BracketInput, checkNewBracket, checkSetting, createBracket, getBracket, updateBracket, updateSetting
+} from './settings';
+import { checkNewProduct, checkProductUpdate, createProduct, ProductInput, ProductUpdate, updateProduct } from './products';
+
+export const PENDING_ACTION_STATUSES = ['pending', 'applying', 'applied', 'rejected', 'cancelled', 'failed'] as const;
+
+interface ActionPayloads {
+  'loan.approve': { loan_id: string };
+  'setting.update': { key: string; value: string };
+  'bracket.create': BracketInput;
+  'bracket.update': BracketInput & { id: string };
+  'product.create': ProductInput;
+  'product.update': ProductUpdate & { id: string };
+  'user.purge': { user_id: string; confirm_name: string };
+}
+
+export type ActionType = keyof ActionPayloads;
+
+interface ActionHandler<P> {
+  // Needed by both the maker and the checker
+  permission: Permission;
+  entityType: string;
+  // Validate the request and describe it for the checker. Throws HttpError when it cannot be applied.
+  prepare: (payload: P) => Promise<{ entityId: string | null; summary: string }>;
+  // Apply the change; runs the same checks again since things may have moved while it waited
+  apply: (req: AuthRequest, payload: P) => Promise<unknown>;
+}
+
+function bracketRange(min: unknown, max: unknown) {
+  return `${min}x – ${max === null || max === undefined ? '∞' : `${max}x`}`;
+}
+
+const HANDLERS: { [K in ActionType]: ActionHandler<ActionPayloads[K]> } = {
+  'loan.approve': {
+    permission: 'loans.manage',
+    entityType: 'loans',
+    prepare: async ({ loan_id }) => {
+      const { loan } = await checkLoanApproval(loan_id);
+      const member = await prisma.users.findUnique({ where: { id: loan.user_id }, select: { name: true } });
+      return { entityId: loan.id, summary: `Approve loan of ₹${Number(loan.principal_amount)} for ${member?.name}` };
+    },
+    apply: (req, { loan_id }) => approveLoan(req, loan_id)
+  },
+  'setting.update': {
+    permission: 'settings.manage',
+    entityType: 'fund_settings',
+    prepare: async ({ key, value }) => {
+      const before = await checkSetting(key, value);
+      return { entityId: key, summary: `Change ${key} from ${before.setting_value} to ${value}` };
+    },
+    apply: (req, { key, value }) => updateSetting(req, key, value)
+  },
+  'bracket.create': {
+    permission: 'settings.manage',
+    entityType: 'interest_brackets',
+    prepare: async (input) => {
+      const productName = await checkNewBracket(input);
+      return {
+        entityId: null,
+        summary: `Add ${productName} interest bracket ${bracketRange(input.min_multiplier, input.max_multiplier)} at ${input.interest_rate}%`
+      };
+    },
+    apply: (req, input) => createBracket(req, input)
+  },
+  'bracket.update': {
+    permission: 'settings.manage',
+    entityType: 'interest_brackets',
+    prepare: async ({ id, ...input }) => {
+      const before = await getBracket(id);
+      const changes = (Object.keys(input) as (keyof BracketInput)[])
+        .filter(field => input[field] !== undefined && String(input[field]) !== String(before[field]))
+        .map(field => `${field} ${before[field]} → ${input[field]}`);
+      const range = bracketRange(before.min_multiplier, before.max_multiplier);
+      const productName = await bracketProductName(before.product_id);
+      return {
+        entityId: id,
+        summary: `Update ${productName} interest bracket ${range}: ${changes.length ? changes.join(', ') : 'no changes'}`
+      };
+    },
+    apply: (req, { id, ...input }) => updateBracket(req, id, input)
+  },
+  'product.create': {
+    permission: 'settings.manage',
+    entityType: 'loan_products',
+    prepare: async (input) => {
+      await checkNewProduct(input);
+      return {
+        entityId: null,
+        summary: `Add loan product ${input.name} (${input.code}): ${input.min_tenure_months}–${input.max_tenure_months} EMIs`
+      };
+    },
+    apply: (req, input) => createProduct(req, input)
+  },
+  'product.update': {
+    permission: 'settings.manage',
+    entityType: 'loan_products',
+    prepare: async ({ id, ...input }) => {
+      const before = await checkProductUpdate(id, input);
+      const changes = (Object.keys(input) as (keyof ProductUpdate)[])
+        .filter(field => input[field] !== undefined && String(input[field]) !== String(before[field]))
+        .map(field => `${field} ${before[field]} → ${input[field]}`);
+      return {
+        entityId: id,
+        summary: `Update loan product ${before.name}: ${changes.length ? changes.join(', ') : 'no changes'}`
+      };
+    },
+    apply: (req, { id, ...input }) => updateProduct(req, id, input)
+  },
+  'user.purge': {
+    permission: 'members.manage',
+    entityType: 'users',
+    prepare: async ({ user_id, confirm_name }) => {
+      const user = await checkPurge(user_id, confirm_name);
+      return { entityId: user.id, summary: `Permanently delete ${user.name} and all their data` };
+    },
+    apply: async (req, { user_id, confirm_name }) => {
+      const user = await purgeUser(req, user_id, confirm_name);
+      return { id: user.id, name: user.name };
+    }
+  }
+};
+
+// Payloads and results are stored as plain JSON
+function toJson(value: unknown) {
+  if (value === undefined || value === null) return Prisma.DbNull;
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+}
+
+export function listPendingActions(status?: string) {
+  return prisma.pending_actions.findMany({
+    where: status ? { status } : {},
+    include: {
+      users_pending_actions_requested_byTousers: { select: { name: true } },
+      users_pending_actions_decided_byTousers: { select: { name: true } }
+    },
+    orderBy: { requested_at: 'desc' },
+    take: 200
+  });
+}
+
+// Queue an action for a second admin instead of applying it
+export async function requestAction<K extends ActionType>(req: AuthRequest, actionType: K, payload: ActionPayloads[K]) {
+  const handler = HANDLERS[actionType] as ActionHandler<ActionPayloads[K]>;
+  const { entityId, summary } = await handler.prepare(payload);
+
+  let action;
+  try {
+    action = await prisma.pending_actions.create({
+      data: {
+        action_type: actionType,
+        entity_type: handler.entityType,
+        entity_id: entityId,
+        payload: toJson(payload) as Prisma.InputJsonValue,
+        summary,
+        requested_by: req.user!.id
+      }
+    });
+  } catch (error) {
+    // Only one open request per record (idx_pending_actions_open)
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new HttpError(409, 'A change to this record is already waiting for approval');
+    }
+    throw error;
+  }
+
+  await recordAudit(req, { action: 'pending_action.request', entityType: 'pending_actions', entityId: action.id, after: action });
+  return action;
+}
+
+async function getOpenAction(id: string) {
+  const action = await prisma.pending_actions.findUnique({ where: { id } });
+  if (!action) {
+    throw new HttpError(404, 'Pending action not found');
+  }
+  if (action.status !== 'pending') {
+    throw new HttpError(400, `This request is already ${action.status}`);
+  }
+  return action;
+}
+
+// Move an action out of 'pending'. Only one concurrent decision can win.
+async function claimAction(id: string, status: string, req: AuthRequest, note?: string) {
+  const claimed = await prisma.pending_actions.updateMany({
+    where: { id, status: 'pending' },
+    data: { status, decided_by: req.user!.id, decided_at: new Date(), decision_note: note || null }
+  });
+  if (claimed.count === 0) {
+    throw new HttpError(409, 'This request was decided by someone else');
+  }
+}
+
+// Checker approves: the change is applied now, as the checker.
+// The action is held as 'applying' while the change runs and marked 'applied' only once it has gone through.
+export async function approveAction(req: AuthRequest, id: string, note?: string) {
+  const action = await getOpenAction(id);
+  const handler = HANDLERS[action.action_type as ActionType] as ActionHandler<unknown>;
+
+  if (action.requested_by === req.user!.id) {
+    throw new HttpError(403, 'You cannot approve your own request');
+  }
+  if (!hasPermission(req.user!.role, handler.permission)) {
+    throw new HttpError(403, `Permission required: ${handler.permission}`);
+  }
+
+  await claimAction(id, 'applying', req, note);
+
+  try {
+    const result = await handler.apply(req, action.payload);
+    const applied = await prisma.pending_actions.update({ where: { id }, data: { status: 'applied', result: toJson(result) } });
+    await recordAudit(req, { action: 'pending_action.approve', entityType: 'pending_actions', entityId: id, before: action, after: applied });
+    return applied;
+  } catch (error) {
+    const message = error instanceof HttpError ? error.message : 'Unexpected error while applying';
+    const failed = await prisma.pending_actions.update({ where: { id }, data: { status: 'failed', error: message } });
+    await recordAudit(req, { action: 'pending_action.fail', entityType: 'pending_actions', entityId: id, before: action, after: failed });
+    throw error;
+  }
+}
+
+// Checker turns the request down; nothing is applied. Vetoing needs the same permission as approving.
+export async function rejectAction(req: AuthRequest, id: string, note?: string) {
+  const action = await getOpenAction(id);
+  if (action.requested_by === req.user!.id) {
+    throw new HttpError(400, 'Cancel your own request instead of rejecting it');
+  }
+  const handler = HANDLERS[action.action_type as ActionType] as ActionHandler<unknown>;
+  if (!hasPermission(req.user!.role, handler.permission)) {
+    throw new HttpError(403, `Permission required: ${handler.permission}`);
+  }
+  if (!note || !String(note).trim()) {
+    throw new HttpError(400, 'A reason is required to reject a request');
+  }
+
+  await claimAction(id, 'rejected', req, note);
+  const rejected = await prisma.pending_actions.findUnique({ where: { id } });
+  await recordAudit(req, { action: 'pending_action.reject', entityType: 'pending_actions', entityId: id, before: action, after: rejected });
+  return rejected;
+}
+
+// Maker withdraws their own request
+export async function cancelAction(req: AuthRequest, id: string, note?: string) {
+  const action = await getOpenAction(id);
+  if (action.requested_by !== req.user!.id) {
+    throw new HttpError(403, 'Only the admin who made the request can cancel it');
+  }
+
+  await claimAction(id, 'cancelled', req, note);
+  const cancelled = await prisma.pending_actions.findUnique({ where: { id } });
+  await recordAudit(req, { action: 'pending_action.cancel', entityType: 'pending_actions', entityId: id, before: action, after: cancelled });
+  return cancelled;
+}
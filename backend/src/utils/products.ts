@@ -0,0 +1,170 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../lib/errors';
+import { AuthRequest } from '../middleware/auth';
+import { recordAudit } from './audit';
+import { OPEN_LOAN_STATUSES } from './interest';
+import { InterestMethod } from './interestMethods';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+type LoanProduct = Prisma.loan_productsGetPayload<object>;
+
+// Applications that do not name a product get this one
+export const DEFAULT_PRODUCT_CODE = 'regular';
+
+export interface ProductInput {
+  code?: string;
+  name?: string;
+  description?: string | null;
+  min_tenure_months?: number;
+  max_tenure_months?: number;
+  default_tenure_months?: number;
+  max_term_months?: number;
+  max_pre_emi_days?: number | null;
+  max_multiplier?: number | null;
+  max_per_member?: number;
+  interest_method?: InterestMethod;
+  is_active?: boolean;
+}
+
+// The code is what other records and the default lookup use, so it cannot change
+export type ProductUpdate = Omit<ProductInput, 'code'>;
+
+const REQUIRED_FIELDS = [
+  'code', 'name', 'min_tenure_months', 'max_tenure_months', 'default_tenure_months', 'max_term_months'
+] as const;
+
+export function listProducts(activeOnly = false) {
+  return prisma.loan_products.findMany({
+    where: activeOnly ? { is_active: true } : {},
+    orderBy: { created_at: 'asc' }
+  });
+}
+
+export async function getProduct(id: string, db: Db = prisma) {
+  const product = await db.loan_products.findUnique({ where: { id } });
+  if (!product) {
+    throw new HttpError(404, 'Loan product not found');
+  }
+  return product;
+}
+
+// The loan's own product, or the default one for loans and applications without one
+export async function loadProduct(productId?: string | null, db: Db = prisma) {
+  if (productId) return getProduct(productId, db);
+  const product = await db.loan_products.findUnique({ where: { code: DEFAULT_PRODUCT_CODE } });
+  if (!product) {
+    throw new HttpError(404, `The ${DEFAULT_PRODUCT_CODE} loan product is missing`);
+  }
+  return product;
+}
+
+// Product a member is applying for; inactive products take no new applications
+export async function resolveProduct(productId?: string | null, db: Db = prisma) {
+  const product = await loadProduct(productId, db);
+  if (!product.is_active) {
+    throw new HttpError(400, `${product.name} loans are not available right now`);
+  }
+  return product;
+}
+
+export function checkTenure(product: LoanProduct, months: number) {
+  if (months < product.min_tenure_months || months > product.max_tenure_months) {
+    throw new HttpError(400,
+      `${product.name} loans are repaid in ${product.min_tenure_months} to ${product.max_tenure_months} EMIs`);
+  }
+}
+
+export function preEmiDays(disbursedAt: Date, emiStartDate: Date) {
+  return Math.floor((emiStartDate.getTime() - disbursedAt.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+export function checkPreEmi(product: LoanProduct, disbursedAt: Date, emiStartDate: Date) {
+  if (product.max_pre_emi_days !== null && preEmiDays(disbursedAt, emiStartDate) > product.max_pre_emi_days) {
+    throw new HttpError(400,
+      `EMIs on ${product.name} loans must start within ${product.max_pre_emi_days} days of disbursement`);
+  }
+}
+
+// Date by which the loan must be fully repaid
+export function maturityDate(product: LoanProduct, disbursedAt: Date) {
+  const maturity = new Date(disbursedAt);
+  maturity.setMonth(maturity.getMonth() + product.max_term_months);
+  return maturity;
+}
+
+// A member can hold only max_per_member open loans of each product
+export async function checkProductLimit(userId: string, product: LoanProduct, db: Db = prisma) {
+  const open = await db.loans.count({
+    where: { user_id: userId, product_id: product.id, status: { in: OPEN_LOAN_STATUSES } }
+  });
+  if (open >= product.max_per_member) {
+    throw new HttpError(400, `Already has ${open} open ${product.name} loan(s) (max: ${product.max_per_member})`);
+  }
+}
+
+// Same rules as the valid_tenure and valid_limits CHECK constraints, with readable messages
+function checkProductRules(
+  product: Pick<ProductInput, 'min_tenure_months' | 'default_tenure_months' | 'max_tenure_months' | 'max_term_months'>
+) {
+  const { min_tenure_months: min, default_tenure_months: fallback, max_tenure_months: max, max_term_months: term } = product;
+  if (min! > fallback! || fallback! > max!) {
+    throw new HttpError(400, 'Tenures must be ordered: min ≤ default ≤ max');
+  }
+  if (max! > term!) {
+    throw new HttpError(400, 'max_tenure_months cannot be longer than max_term_months');
+  }
+}
+
+export async function checkNewProduct(input: ProductInput) {
+  const missing = REQUIRED_FIELDS.filter(field => input[field] === undefined);
+  if (missing.length) {
+    throw new HttpError(400, `${missing.join(', ')} ${missing.length === 1 ? 'is' : 'are'} required`);
+  }
+  checkProductRules(input);
+  const existing = await prisma.loan_products.findUnique({ where: { code: input.code } });
+  if (existing) {
+    throw new HttpError(409, `A loan product with code ${input.code} already exists`);
+  }
+}
+
+// Check an update against the product it changes. Loans already taken keep their terms.
+export async function checkProductUpdate(id: string, input: ProductUpdate) {
+  const before = await getProduct(id);
+  checkProductRules({
+    ...before,
+    ...Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined))
+  });
+  return before;
+}
+
+export async function createProduct(req: AuthRequest, input: ProductInput) {
+  await checkNewProduct(input);
+  const product = await prisma.loan_products.create({
+    data: {
+      code: input.code!,
+      name: input.name!,
+      description: input.description,
+      min_tenure_months: input.min_tenure_months!,
+      max_tenure_months: input.max_tenure_months!,
+      default_tenure_months: input.default_tenure_months!,
+      max_term_months: input.max_term_months!,
+      max_pre_emi_days: input.max_pre_emi_days,
+      max_multiplier: input.max_multiplier,
+      max_per_member: input.max_per_member,
+      interest_method: input.interest_method
+    }
+  });
+  await recordAudit(req, { action: 'product.create', entityType: 'loan_products', entityId: product.id, after: product });
+  return product;
+}
+
+export async function updateProduct(req: AuthRequest, id: string, input: ProductUpdate) {
+  const before = await checkProductUpdate(id, input);
+  const product = await prisma.loan_products.update({
+    where: { id },
+    data: { ...input, updated_at: new Date() }
+  });
+  await recordAudit(req, { action: 'product.update', entityType: 'loan_products', entityId: product.id, before, after: product });
+  return product;
+}
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Request } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../lib/errors';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+type RevokeReason = 'logout' | 'revoked' | 'reuse' | 'deactivated';
+
+interface SessionUser {
+  id: string;
+  phone: string | null;
+  role: string | null;
+}
+
+// Access tokens are checked against the session on every request, so they can stay short
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+const REFRESH_TOKEN_DAYS = parseInt(process.env.REFRESH_TOKEN_DAYS || '30');
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function signAccessToken(user: SessionUser, familyId: string): string {
+  return jwt.sign(
+    { id: user.id, phone: user.phone, role: user.role, sid: familyId },
+    process.env.JWT_SECRET!,
+    { expiresIn: ACCESS_TOKEN_TTL as jwt.SignOptions['expiresIn'] }
+  );
+}
+
+async function storeRefreshToken(userId: string, familyId: string, req: Request | null) {
+  const token = crypto.randomBytes(48).toString('base64url');
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_DAYS);
+
+  const row = await prisma.refresh_tokens.create({
+    data: {
+      user_id: userId,
+      family_id: familyId,
+      token_hash: hashToken(token),
+      expires_at: expiresAt,
+      ip_address: req?.ip || null,
+      user_agent: req?.get('user-agent') || null
+    }
+  });
+  return { token, row };
+}
+
+// Start a new session after a successful login
+export async function issueSession(user: SessionUser, req: Request) {
+  const familyId = crypto.randomUUID();
+  const { token } = await storeRefreshToken(user.id, familyId, req);
+  return {
+    token: signAccessToken(user, familyId),
+    refresh_token: token,
+    session_id: familyId
+  };
+}
+
+// Exchange a refresh token for a new pair. Each refresh token works once; presenting a used one
+// means it was copied, so the whole session is revoked.
+export async function rotateRefreshToken(refreshToken: string, req: Request) {
+  const current = await prisma.refresh_tokens.findUnique({
+    where: { token_hash: hashToken(String(refreshToken)) },
+    include: { users: { select: { id: true, phone: true, role: true, status: true } } }
+  });
+  if (!current) {
+    throw new HttpError(401, 'Invalid refresh token');
+  }
+
+  if (current.revoked_at) {
+    if (current.revoked_reason === 'rotated') {
+      await revokeSession(current.family_id, 'reuse');
+    }
+    throw new HttpError(401, 'Session has ended');
+  }
+  if (current.expires_at < new Date()) {
+    throw new HttpError(401, 'Session has expired');
+  }
+  if (current.users.status !== 'active') {
+    await revokeSession(current.family_id, 'deactivated');
+    throw new HttpError(403, `Account is ${current.users.status}`);
+  }
+
+  const { token, row } = await storeRefreshToken(current.user_id, current.family_id, req);
+
+  // Only one concurrent refresh can claim the old token
+  const claimed = await prisma.refresh_tokens.updateMany({
+    where: { id: current.id, revoked_at: null },
+    data: { revoked_at: new Date(), revoked_reason: 'rotated', replaced_by: row.id }
+  });
+  if (claimed.count === 0) {
+    await prisma.refresh_tokens.delete({ where: { id: row.id } });
+    await revokeSession(current.family_id, 'reuse');
+    throw new HttpError(401, 'Session has ended');
+  }
+
+  return {
+    token: signAccessToken(current.users, current.family_id),
+    refresh_token: token,
+    user_id: current.user_id,
+    session_id: current.family_id
+  };
+}
+
+// Look up the session a refresh token belongs to (used by logout)
+export async function findSessionByToken(refreshToken: string) {
+  return prisma.refresh_tokens.findUnique({
+    where: { token_hash: hashToken(String(refreshToken)) },
+    select: { user_id: true, family_id: true }
+  });
+}
+
+export async function revokeSession(familyId: string, reason: RevokeReason, db: Db = prisma) {
+  const result = await db.refresh_tokens.updateMany({
+    where: { family_id: familyId, revoked_at: null },
+    data: { revoked_at: new Date(), revoked_reason: reason }
+  });
+  return result.count;
+}
+
+// End every session a user has (optionally keeping one); returns the number of sessions ended
+export async function revokeAllSessions(userId: string, reason: RevokeReason, exceptFamilyId?: string, db: Db = prisma) {
+  const where = {
+    user_id: userId,
+    revoked_at: null,
+    ...(exceptFamilyId ? { family_id: { not: exceptFamilyId } } : {})
+  };
+  const live = await db.refresh_tokens.findMany({
+    where,
+    distinct: ['family_id'],
+    select: { family_id: true }
+  });
+  await db.refresh_tokens.updateMany({
+    where,
+    data: { revoked_at: new Date(), revoked_reason: reason }
+  });
+  return live.length;
+}
+
+// A session is live while it still has a usable refresh token
+export async function getActiveSession(familyId: string) {
+  return prisma.refresh_tokens.findFirst({
+    where: { family_id: familyId, revoked_at: null, expires_at: { gt: new Date() } },
+    select: { user_id: true, users: { select: { status: true, role: true } } }
+  });
+}
@@ -0,0 +1,89 @@
+import prisma from '../lib/prisma';
+import { HttpError } from '../lib/errors';
+import { AuthRequest } from '../middleware/auth';
+import { recordAudit } from './audit';
+
+export interface BracketInput {
+  // Loan product the bracket belongs to; null for the shared set
+  product_id?: string | null;
+  min_multiplier?: number;
+  max_multiplier?: number | null;
+  interest_rate?: number;
+  is_active?: boolean;
+}
+
+export async function getSetting(key: string) {
+  const setting = await prisma.fund_settings.findUnique({ where: { setting_key: key } });
+  if (!setting) {
+    throw new HttpError(404, `Unknown setting: ${key}`);
+  }
+  return setting;
+}
+
+// Check a setting exists and the new value is usable
+export async function checkSetting(key: string, value: unknown) {
+  if (value === undefined || value === null || String(value).trim() === '') {
+    throw new HttpError(400, 'value is required');
+  }
+  return getSetting(key);
+}
+
+export async function updateSetting(req: AuthRequest, key: string, value: unknown) {
+  const before = await checkSetting(key, value);
+  const setting = await prisma.fund_settings.update({
+    where: { setting_key: key },
+    data: { setting_value: String(value), updated_at: new Date() }
+  });
+  await recordAudit(req, {
+    action: 'setting.update', entityType: 'fund_settings', entityId: setting.setting_key,
+    before: { setting_value: before.setting_value }, after: { setting_value: setting.setting_value }
+  });
+  return setting;
+}
+
+export async function getBracket(id: string) {
+  const bracket = await prisma.interest_brackets.findUnique({ where: { id } });
+  if (!bracket) {
+    throw new HttpError(404, 'Bracket not found');
+  }
+  return bracket;
+}
+
+// Name of the product a bracket is for, for messages and approval summaries
+export async function bracketProductName(productId?: string | null) {
+  if (!productId) return 'shared';
+  const product = await prisma.loan_products.findUnique({ where: { id: productId } });
+  if (!product) {
+    throw new HttpError(404, 'Loan product not found');
+  }
+  return product.name;
+}
+
+export async function checkNewBracket(input: BracketInput) {
+  if (input.min_multiplier === undefined || input.interest_rate === undefined) {
+    throw new HttpError(400, 'min_multiplier and interest_rate are required');
+  }
+  return bracketProductName(input.product_id);
+}
+
+export async function createBracket(req: AuthRequest, input: BracketInput) {
+  await checkNewBracket(input);
+  const { product_id, min_multiplier, max_multiplier, interest_rate } = input;
+  const bracket = await prisma.interest_brackets.create({
+    data: { product_id, min_multiplier: min_multiplier!, max_multiplier, interest_rate: interest_rate! }
+  });
+  await recordAudit(req, { action: 'bracket.create', entityType: 'interest_brackets', entityId: bracket.id, after: bracket });
+  return bracket;
+}
+
+export async function updateBracket(req: AuthRequest, id: string, input: BracketInput) {
+  const before = await getBracket(id);
+  if (input.product_id) await bracketProductName(input.product_id);
+  const { product_id, min_multiplier, max_multiplier, interest_rate, is_active } = input;
+  const bracket = await prisma.interest_brackets.update({
+    where: { id },
+    data: { product_id, min_multiplier, max_multiplier, interest_rate, is_active }
+  });
+  await recordAudit(req, { action: 'bracket.update', entityType: 'interest_brackets', entityId: bracket.id, before, after: bracket });
+  return bracket;
+}
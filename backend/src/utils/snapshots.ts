@@ -0,0 +1,33 @@
+import prisma from '../lib/prisma';
+import { money, sumMoney } from '../lib/money';
+
+// Freeze the pool composition for a fund month.
+// Each member's units are their total deposits / 300, stored so later interest can be split by them.
+export async function createPoolSnapshot(fundMonth: number, monthYear: string, finalizedBy: string | null) {
+  const deposits = await prisma.deposits.groupBy({
+    by: ['user_id'],
+    _sum: { amount: true }
+  });
+
+  const memberSnapshots: Record<string, number> = {};
+  for (const dep of deposits) {
+    memberSnapshots[dep.user_id] = money(dep._sum.amount).div(300).floor().toNumber();
+  }
+
+  const totalAmount = sumMoney(deposits.map(dep => dep._sum.amount));
+  const totalUnits = totalAmount.div(300).floor().toNumber();
+
+  return prisma.monthly_pool_snapshot.create({
+    data: {
+      fund_month: fundMonth,
+      month_year: monthYear,
+      total_pool_amount: totalAmount.toNumber(),
+      total_pool_units: totalUnits,
+      cumulative_pool_units: totalUnits,
+      member_snapshots: memberSnapshots,
+      is_finalized: true,
+      finalized_at: new Date(),
+      finalized_by: finalizedBy
+    }
+  });
+}
@@ -0,0 +1,249 @@
+import PDFDocument from 'pdfkit';
+import { Writable } from 'stream';
+import prisma from '../lib/prisma';
+import { HttpError } from '../lib/errors';
+import { money, sumMoney, toAmount } from '../lib/money';
+import { INTEREST_METHOD_LABELS, InterestMethod } from './interestMethods';
+
+function nextDay(date: Date): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + 1);
+  return next;
+}
+
+// Everything a member statement shows for one period. Balances are as of the start of `from`
+// (opening) and the end of `to` (closing).
+export async function buildStatement(userId: string, from: Date, to: Date) {
+  const member = await prisma.users.findUnique({
+    where: { id: userId },
+    select: { id: true, name: true, phone: true, email: true, joined_at: true }
+  });
+  if (!member) {
+    throw new HttpError(404, 'Member not found');
+  }
+
+  const end = nextDay(to);
+
+  // Deposits (including offsets, reversals and corrections)
+  const depositsBefore = await prisma.deposits.aggregate({
+    where: { user_id: userId, deposit_date: { lt: from } },
+    _sum: { amount: true }
+  });
+  const depositEntries = await prisma.deposits.findMany({
+    where: { user_id: userId, deposit_date: { gte: from, lt: end } },
+    orderBy: [{ deposit_date: 'asc' }, { created_at: 'asc' }]
+  });
+  const depositsOpening = money(depositsBefore._sum.amount);
+  const depositsClosing = depositsOpening.plus(sumMoney(depositEntries.map(d => d.amount)));
+
+  // Loans: balance at a date = principal once disbursed, less principal repaid by then
+  const loans = await prisma.loans.findMany({
+    where: { user_id: userId, disbursed_at: { not: null, lt: end } },
+    include: {
+      payments: {
+        where: { payment_date: { lt: end } },
+        include: { emi_schedule: { select: { emi_number: true, due_date: true } } },
+        orderBy: { payment_date: 'asc' }
+      }
+    },
+    orderBy: { disbursed_at: 'asc' }
+  });
+
+  const loanSummaries = loans.map(loan => {
+    const principal = money(loan.principal_amount);
+    const repaidBefore = sumMoney(loan.payments.filter(p => p.payment_date < from).map(p => p.principal_component));
+    const inPeriod = loan.payments.filter(p => p.payment_date >= from);
+    const repaidInPeriod = sumMoney(inPeriod.map(p => p.principal_component));
+    const disbursedBefore = loan.disbursed_at! < from;
+
+    const opening = disbursedBefore ? toAmount(principal.minus(repaidBefore)) : 0;
+    return {
+      id: loan.id,
+      principal_amount: principal.toNumber(),
+      interest_rate: Number(loan.interest_rate),
+      interest_method: loan.interest_method as InterestMethod,
+      status: loan.status,
+      disbursed_at: loan.disbursed_at,
+      disbursed_in_period: !disbursedBefore,
+      opening_outstanding: opening,
+      closing_outstanding: toAmount(principal.minus(repaidBefore).minus(repaidInPeriod)),
+      payments: inPeriod.map(p => ({
+        payment_date: p.payment_date,
+        payment_type: p.payment_type,
+        emi_number: p.emi_schedule?.emi_number ?? null,
+        amount: Number(p.amount),
+        principal: Number(p.principal_component || 0),
+        interest: Number(p.interest_component || 0),
+        penalty: Number(p.penalty_component || 0)
+      }))
+    };
+  });
+
+  const emisPaid = loanSummaries.flatMap(loan =>
+    loan.payments.filter(p => p.payment_type === 'emi').map(p => ({ loan_id: loan.id, ...p }))
+  );
+
+  // Interest shares credited to the member
+  const sharesBefore = await prisma.member_interest_shares.aggregate({
+    where: { user_id: userId, created_at: { lt: from } },
+    _sum: { interest_share: true }
+  });
+  const shares = await prisma.member_interest_shares.findMany({
+    where: { user_id: userId, created_at: { gte: from, lt: end } },
+    include: { monthly_interest: { select: { earned_month: true, source: true, source_description: true } } },
+    orderBy: { created_at: 'asc' }
+  });
+  const interestOpening = money(sharesBefore._sum.interest_share);
+  const interestClosing = interestOpening.plus(sumMoney(shares.map(s => s.interest_share)));
+
+  return {
+    member,
+    period: { from, to },
+    deposits: {
+      opening: toAmount(depositsOpening),
+      entries: depositEntries.map(d => ({
+        deposit_date: d.deposit_date,
+        member_month: d.member_month,
+        entry_type: d.entry_type,
+        amount: Number(d.amount)
+      })),
+      closing: toAmount(depositsClosing)
+    },
+    loans: loanSummaries,
+    emis_paid: emisPaid,
+    interest: {
+      opening: toAmount(interestOpening),
+      shares: shares.map(s => ({
+        credited_at: s.created_at,
+        earned_month: s.monthly_interest.earned_month,
+        source: s.monthly_interest.source_description || s.monthly_interest.source,
+        share_percentage: Number(s.share_percentage),
+        amount: Number(s.interest_share)
+      })),
+      closing: toAmount(interestClosing)
+    }
+  };
+}
+
+export type Statement = Awaited<ReturnType<typeof buildStatement>>;
+
+// The standard PDF fonts have no rupee glyph
+function rupees(value: number): string {
+  return `Rs. ${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function day(date: Date | null | undefined): string {
+  return date ? date.toISOString().split('T')[0] : '-';
+}
+
+type Column = { label: string; width: number; align?: 'left' | 'right' };
+
+function table(doc: PDFKit.PDFDocument, columns: Column[], rows: string[][]) {
+  const left = doc.page.margins.left;
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    if (doc.y > doc.page.height - doc.page.margins.bottom - 20) {
+      doc.addPage();
+    }
+    const y = doc.y;
+    let x = left;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+    cells.forEach((cell, i) => {
+      doc.text(cell, x, y, { width: columns[i].width, align: columns[i].align || 'left' });
+      x += columns[i].width;
+    });
+    doc.x = left;
+    doc.y = y + 14;
+  };
+
+  drawRow(columns.map(c => c.label), true);
+  rows.forEach(row => drawRow(row, false));
+  doc.moveDown(0.5);
+}
+
+function section(doc: PDFKit.PDFDocument, title: string) {
+  doc.moveDown(0.8);
+  doc.font('Helvetica-Bold').fontSize(12).text(title);
+  doc.moveDown(0.3);
+}
+
+function balances(doc: PDFKit.PDFDocument, opening: number, closing: number) {
+  doc.font('Helvetica').fontSize(10)
+    .text(`Opening balance: ${rupees(opening)}    Closing balance: ${rupees(closing)}`);
+  doc.moveDown(0.3);
+}
+
+// Write the statement as a PDF to the given stream (e.g. the HTTP response)
+export function renderStatementPdf(statement: Statement, output: Writable) {
+  const doc = new PDFDocument({ size: 'A4', margin: 40 });
+  doc.pipe(output);
+
+  doc.font('Helvetica-Bold').fontSize(16).text('Saarthi Fund - Member Statement');
+  doc.font('Helvetica').fontSize(10)
+    .text(`${statement.member.name} (${statement.member.phone})`)
+    .text(`Member since: ${day(statement.member.joined_at)}`)
+    .text(`Period: ${day(statement.period.from)} to ${day(statement.period.to)}`)
+    .text(`Generated: ${new Date().toISOString().replace('T', ' ').slice(0, 16)} UTC`);
+
+  section(doc, 'Deposits');
+  balances(doc, statement.deposits.opening, statement.deposits.closing);
+  if (statement.deposits.entries.length) {
+    table(doc, [
+      { label: 'Date', width: 100 },
+      { label: 'Member Month', width: 100 },
+      { label: 'Type', width: 120 },
+      { label: 'Amount', width: 120, align: 'right' }
+    ], statement.deposits.entries.map(d => [day(d.deposit_date), String(d.member_month), d.entry_type, rupees(d.amount)]));
+  } else {
+    doc.font('Helvetica').fontSize(9).text('No deposits in this period.');
+  }
+
+  section(doc, 'Loans');
+  if (statement.loans.length) {
+    for (const loan of statement.loans) {
+      doc.font('Helvetica-Bold').fontSize(10)
+        .text(`Loan of ${rupees(loan.principal_amount)} at ${loan.interest_rate}% ${INTEREST_METHOD_LABELS[loan.interest_method].toLowerCase()} - disbursed ${day(loan.disbursed_at)} (${loan.status})`);
+      balances(doc, loan.opening_outstanding, loan.closing_outstanding);
+      if (loan.payments.length) {
+        table(doc, [
+          { label: 'Date', width: 80 },
+          { label: 'Type', width: 95 },
+          { label: 'Amount', width: 85, align: 'right' },
+          { label: 'Principal', width: 85, align: 'right' },
+          { label: 'Interest', width: 85, align: 'right' },
+          { label: 'Penalty', width: 85, align: 'right' }
+        ], loan.payments.map(p => [
+          day(p.payment_date),
+          p.emi_number ? `EMI #${p.emi_number}` : p.payment_type,
+          rupees(p.amount), rupees(p.principal), rupees(p.interest), rupees(p.penalty)
+        ]));
+      } else {
+        doc.font('Helvetica').fontSize(9).text('No payments in this period.');
+      }
+    }
+  } else {
+    doc.font('Helvetica').fontSize(9).text('No loans in this period.');
+  }
+
+  const emiTotal = toAmount(sumMoney(statement.emis_paid.map(p => p.amount)));
+  doc.moveDown(0.3);
+  doc.font('Helvetica').fontSize(10).text(`EMIs paid in period: ${statement.emis_paid.length} totalling ${rupees(emiTotal)}`);
+
+  section(doc, 'Interest Shares');
+  balances(doc, statement.interest.opening, statement.interest.closing);
+  if (statement.interest.shares.length) {
+    table(doc, [
+      { label: 'Credited', width: 90 },
+      { label: 'Fund Month', width: 80 },
+      { label: 'Source', width: 190 },
+      { label: 'Share %', width: 70, align: 'right' },
+      { label: 'Amount', width: 85, align: 'right' }
+    ], statement.interest.shares.map(s => [
+      day(s.credited_at), String(s.earned_month), s.source, s.share_percentage.toFixed(2), rupees(s.amount)
+    ]));
+  } else {
+    doc.font('Helvetica').fontSize(9).text('No interest credited in this period.');
+  }
+
+  doc.end();
+}
@@ -0,0 +1,168 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { money, roundMoney, sumMoney } from '../src/lib/money';
+import { INTEREST_METHODS, interestCalculator } from '../src/utils/interestMethods';
+
+// Due dates are local calendar dates, so build them the same way
+const date = (year: number, month: number, day: number) => new Date(year, month - 1, day);
+
+const principalTotal = (rows: { principal_component: number }[]) =>
+  sumMoney(rows.map(row => row.principal_component)).toNumber();
+
+describe('every interest method', () => {
+  for (const method of INTEREST_METHODS) {
+    const calculator = interestCalculator(method);
+
+    describe(method, () => {
+      // Amounts and rates that do not divide evenly, so rounding has something to lose
+      for (const [principal, rate, months] of [[100000, 12, 12], [50001, 13.5, 7], [7777.77, 9.99, 24], [1000, 0, 3]]) {
+        it(`repays exactly ${principal} at ${rate}% over ${months} EMIs`, () => {
+          const schedule = calculator.schedule(principal, rate, months, date(2025, 1, 15));
+
+          assert.equal(schedule.length, months);
+          assert.equal(principalTotal(schedule), principal);
+          assert.equal(schedule[schedule.length - 1].outstanding_after, 0);
+          for (const row of schedule) {
+            assert.equal(row.total_emi, money(row.principal_component).plus(row.interest_component).toNumber());
+            assert.ok(row.principal_component >= 0 && row.interest_component >= 0);
+          }
+        });
+      }
+
+      it('numbers the EMIs and dues them a month apart from the start date', () => {
+        const schedule = calculator.schedule(10000, 12, 3, date(2025, 1, 15));
+        assert.deepEqual(schedule.map(row => row.emi_number), [1, 2, 3]);
+        assert.deepEqual(schedule.map(row => row.due_date), [date(2025, 2, 15), date(2025, 3, 15), date(2025, 4, 15)]);
+      });
+
+      it('finds the tenure of its own schedule from the first EMI', () => {
+        const startDate = date(2025, 1, 15);
+        const schedule = calculator.schedule(100000, 12, 18, startDate);
+        assert.equal(calculator.tenure(100000, 12, schedule[0].total_emi, startDate), 18);
+      });
+
+      it('needs a single EMI when the EMI covers everything', () => {
+        assert.equal(calculator.tenure(10000, 12, 20000, date(2025, 1, 15)), 1);
+      });
+
+      it('cannot repay with an EMI that does not cover the interest', () => {
+        // 100000 at 12% costs about 1000 a month in interest under every method
+        assert.equal(calculator.tenure(100000, 12, 900, date(2025, 1, 15)), Infinity);
+        assert.equal(calculator.tenure(100000, 12, 0, date(2025, 1, 15)), Infinity);
+      });
+    });
+  }
+
+  it('rejects an unknown method', () => {
+    assert.throws(() => interestCalculator('compound'), /Unknown interest method: compound/);
+  });
+});
+
+describe('reducing_balance', () => {
+  const calculator = interestCalculator('reducing_balance');
+
+  it('charges a month of interest on the outstanding balance', () => {
+    const schedule = calculator.schedule(100000, 12, 12, date(2025, 1, 15));
+    assert.equal(schedule[0].interest_component, 1000);
+    assert.equal(schedule[1].interest_component, roundMoney(money(schedule[0].outstanding_after).times(0.01)).toNumber());
+    assert.equal(schedule[0].total_emi, 8884.88);
+  });
+
+  it('compounds pre-EMI interest monthly over 30-day months', () => {
+    assert.equal(calculator.preEmiInterest(100000, 12, 0), 0);
+    assert.equal(calculator.preEmiInterest(100000, 12, 30), 1000);
+    assert.equal(calculator.preEmiInterest(100000, 12, 60), 2010);
+  });
+
+  it('divides the principal by the EMI when there is no interest', () => {
+    assert.equal(calculator.tenure(1000, 0, 300, date(2025, 1, 15)), 4);
+  });
+});
+
+describe('flat', () => {
+  const calculator = interestCalculator('flat');
+
+  it('charges interest on the original principal for the whole tenure, spread evenly', () => {
+    const schedule = calculator.schedule(120000, 10, 12, date(2025, 1, 15));
+    for (const row of schedule) {
+      assert.equal(row.principal_component, 10000);
+      assert.equal(row.interest_component, 1000);
+      assert.equal(row.total_emi, 11000);
+    }
+  });
+
+  it('gives the paise left over by rounding to the earliest EMIs', () => {
+    const schedule = calculator.schedule(100, 10, 3, date(2025, 1, 15));
+    assert.deepEqual(schedule.map(row => row.principal_component), [33.34, 33.33, 33.33]);
+    // 100 × 10% × 3/12 = 2.50
+    assert.deepEqual(schedule.map(row => row.interest_component), [0.84, 0.83, 0.83]);
+  });
+
+  it('solves the tenure from EMI = principal/n + principal × rate/12', () => {
+    const startDate = date(2025, 1, 15);
+    // 120000 at 10% is 1000 a month in interest, leaving 10000 towards principal
+    assert.equal(calculator.tenure(120000, 10, 11000, startDate), 12);
+    assert.equal(calculator.tenure(120000, 10, 10999, startDate), 13);
+    assert.equal(calculator.tenure(120000, 10, 1000, startDate), Infinity);
+  });
+
+  it('charges simple pre-EMI interest on the actual days, actual/365', () => {
+    assert.equal(calculator.preEmiInterest(100000, 12, 0), 0);
+    // 100000 × 12% × 30/365 = 986.301...
+    assert.equal(calculator.preEmiInterest(100000, 12, 30), 986.3);
+    assert.equal(calculator.preEmiInterest(100000, 12, 365), 12000);
+  });
+});
+
+describe('daily_reducing', () => {
+  const calculator = interestCalculator('daily_reducing');
+
+  // Interest each EMI should carry on the balance before it, for the given month lengths
+  const expectedInterest = (schedule: { outstanding_after: number }[], principal: number, rate: number, days: number[]) =>
+    days.map((d, i) => {
+      const outstanding = i === 0 ? principal : schedule[i - 1].outstanding_after;
+      return roundMoney(money(outstanding).times(rate).div(100).times(d).div(365)).toNumber();
+    });
+
+  it('charges interest for the actual days in each month across February', () => {
+    // 15 Jan to 15 Feb is 31 days, then 28 to 15 Mar, 31 to 15 Apr and 30 to 15 May
+    const schedule = calculator.schedule(100000, 12, 4, date(2025, 1, 15));
+    assert.deepEqual(schedule.map(row => row.interest_component), expectedInterest(schedule, 100000, 12, [31, 28, 31, 30]));
+    // 100000 × 12% × 31/365 = 1019.178...
+    assert.equal(schedule[0].interest_component, 1019.18);
+  });
+
+  it('counts 29 days for February in a leap year', () => {
+    const schedule = calculator.schedule(100000, 12, 3, date(2024, 1, 15));
+    assert.deepEqual(schedule.map(row => row.interest_component), expectedInterest(schedule, 100000, 12, [31, 29, 31]));
+  });
+
+  it('keeps the EMI level and lets only the last one absorb rounding', () => {
+    const schedule = calculator.schedule(100000, 12, 12, date(2025, 1, 15));
+    const levels = new Set(schedule.slice(0, -1).map(row => row.total_emi));
+    assert.equal(levels.size, 1);
+    const [emi] = levels;
+    assert.ok(Math.abs(schedule[schedule.length - 1].total_emi - emi) < 1);
+  });
+
+  it('searches for the fewest EMIs that fit the EMI', () => {
+    const startDate = date(2025, 1, 15);
+    const emi = calculator.schedule(100000, 12, 12, startDate)[0].total_emi;
+    assert.equal(calculator.tenure(100000, 12, emi, startDate), 12);
+    // A paisa less no longer repays it in 12
+    assert.equal(calculator.tenure(100000, 12, emi - 0.01, startDate), 13);
+    assert.equal(calculator.tenure(100000, 12, emi + 5000, startDate) < 12, true);
+  });
+
+  it('gives up on an EMI that barely covers the interest', () => {
+    // Just above the monthly estimate's limit, but the longest schedule still does not fit
+    assert.equal(calculator.tenure(100000, 12, 1000.01, date(2025, 1, 15)), Infinity);
+  });
+
+  it('charges simple pre-EMI interest on the actual days, actual/365', () => {
+    assert.equal(calculator.preEmiInterest(100000, 12, 0), 0);
+    assert.equal(calculator.preEmiInterest(100000, 12, 30), 986.3);
+    // 100000 × 12% × 45/365 = 1479.452...
+    assert.equal(calculator.preEmiInterest(100000, 12, 45), 1479.45);
+  });
+});
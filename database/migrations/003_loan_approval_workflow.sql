@@ -0,0 +1,44 @@
+-- =============================================
+-- MIGRATION: Loan Application Approval Workflow
+-- Loans now start as 'requested' and only become 'active' once disbursed
+-- =============================================
+
+-- Extend loan_status (ADD VALUE cannot run inside a transaction block on older Postgres)
+ALTER TYPE loan_status ADD VALUE IF NOT EXISTS 'requested';
+ALTER TYPE loan_status ADD VALUE IF NOT EXISTS 'under_review';
+ALTER TYPE loan_status ADD VALUE IF NOT EXISTS 'approved';
+ALTER TYPE loan_status ADD VALUE IF NOT EXISTS 'rejected';
+
+-- Disbursement and maturity are only known once the loan is paid out
+ALTER TABLE loans ALTER COLUMN disbursed_at DROP NOT NULL;
+ALTER TABLE loans ALTER COLUMN maturity_date DROP NOT NULL;
+ALTER TABLE loans ALTER COLUMN status SET DEFAULT 'requested';
+
+-- Review tracking
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP;
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES users(id);
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP;
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+
+-- Count open applications towards the active loan limit
+CREATE OR REPLACE FUNCTION check_active_loans_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_max_loans INT;
+BEGIN
+    SELECT setting_value::INT INTO v_max_loans
+    FROM fund_settings WHERE setting_key = 'max_active_loans';
+    
+    IF (SELECT COUNT(*) FROM loans
+        WHERE user_id = NEW.user_id
+          AND status IN ('requested', 'under_review', 'approved', 'active')) >= v_max_loans THEN
+        RAISE EXCEPTION 'User already has maximum allowed active loans';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Loan approval workflow columns added successfully!' AS status;
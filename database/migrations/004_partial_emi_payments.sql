@@ -0,0 +1,55 @@
+-- =============================================
+-- MIGRATION: Partial and Over-Payments on EMIs
+-- EMI rows track how much interest and principal has been settled
+-- =============================================
+
+ALTER TABLE emi_schedule ADD COLUMN IF NOT EXISTS interest_paid DECIMAL(12, 2) DEFAULT 0;
+ALTER TABLE emi_schedule ADD COLUMN IF NOT EXISTS principal_paid DECIMAL(12, 2) DEFAULT 0;
+ALTER TABLE emi_schedule ADD COLUMN IF NOT EXISTS remaining_due DECIMAL(12, 2);
+
+-- Backfill: paid rows are fully settled, unpaid rows still owe the whole EMI
+UPDATE emi_schedule
+SET interest_paid = CASE WHEN is_paid THEN interest_component ELSE 0 END,
+    principal_paid = CASE WHEN is_paid THEN principal_component ELSE 0 END,
+    remaining_due = CASE WHEN is_paid THEN 0 ELSE total_emi END
+WHERE remaining_due IS NULL;
+
+ALTER TABLE emi_schedule ALTER COLUMN remaining_due SET NOT NULL;
+
+-- Pending dues show what is actually left on each EMI
+CREATE OR REPLACE VIEW v_pending_payments AS
+SELECT 
+    'pre_emi_interest' AS payment_type,
+    pei.id AS schedule_id,
+    l.id AS loan_id,
+    u.id AS user_id,
+    u.name AS user_name,
+    pei.interest_amount AS amount_due,
+    pei.due_date,
+    pei.days_count AS period
+FROM pre_emi_interest pei
+JOIN loans l ON pei.loan_id = l.id
+JOIN users u ON l.user_id = u.id
+WHERE pei.is_paid = FALSE AND l.status = 'active'
+
+UNION ALL
+
+SELECT 
+    'emi' AS payment_type,
+    es.id AS schedule_id,
+    l.id AS loan_id,
+    u.id AS user_id,
+    u.name AS user_name,
+    es.remaining_due AS amount_due,
+    es.due_date,
+    es.emi_number AS period
+FROM emi_schedule es
+JOIN loans l ON es.loan_id = l.id
+JOIN users u ON l.user_id = u.id
+WHERE es.is_paid = FALSE AND l.status = 'active'
+ORDER BY due_date;
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Partial EMI payment columns added successfully!' AS status;
@@ -0,0 +1,72 @@
+-- =============================================
+-- MIGRATION: Re-amortize EMI Schedule after Prepayment
+-- Replaced EMI rows are kept as history under an older schedule version
+-- =============================================
+
+ALTER TABLE emi_schedule ADD COLUMN IF NOT EXISTS schedule_version INT NOT NULL DEFAULT 1;
+ALTER TABLE emi_schedule ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMP;
+
+-- EMI numbers repeat across schedule versions
+ALTER TABLE emi_schedule DROP CONSTRAINT IF EXISTS emi_schedule_loan_id_emi_number_key;
+ALTER TABLE emi_schedule ADD CONSTRAINT emi_schedule_loan_id_schedule_version_emi_number_key
+    UNIQUE (loan_id, schedule_version, emi_number);
+
+-- Views only look at the current schedule
+CREATE OR REPLACE VIEW v_loan_details AS
+SELECT 
+    l.*,
+    u.name AS borrower_name,
+    u.email AS borrower_email,
+    COALESCE(pei.total_pre_emi_interest, 0) AS total_pre_emi_interest_due,
+    COALESCE(pei.paid_pre_emi_interest, 0) AS total_pre_emi_interest_paid,
+    COALESCE(e.total_emis, 0) AS total_emi_count,
+    COALESCE(e.paid_emis, 0) AS paid_emi_count
+FROM loans l
+JOIN users u ON l.user_id = u.id
+LEFT JOIN (
+    SELECT loan_id, 
+           SUM(interest_amount) AS total_pre_emi_interest,
+           SUM(CASE WHEN is_paid THEN paid_amount ELSE 0 END) AS paid_pre_emi_interest
+    FROM pre_emi_interest GROUP BY loan_id
+) pei ON l.id = pei.loan_id
+LEFT JOIN (
+    SELECT loan_id, COUNT(*) AS total_emis, SUM(CASE WHEN is_paid THEN 1 ELSE 0 END) AS paid_emis
+    FROM emi_schedule WHERE superseded_at IS NULL GROUP BY loan_id
+) e ON l.id = e.loan_id;
+
+CREATE OR REPLACE VIEW v_pending_payments AS
+SELECT 
+    'pre_emi_interest' AS payment_type,
+    pei.id AS schedule_id,
+    l.id AS loan_id,
+    u.id AS user_id,
+    u.name AS user_name,
+    pei.interest_amount AS amount_due,
+    pei.due_date,
+    pei.days_count AS period
+FROM pre_emi_interest pei
+JOIN loans l ON pei.loan_id = l.id
+JOIN users u ON l.user_id = u.id
+WHERE pei.is_paid = FALSE AND l.status = 'active'
+
+UNION ALL
+
+SELECT 
+    'emi' AS payment_type,
+    es.id AS schedule_id,
+    l.id AS loan_id,
+    u.id AS user_id,
+    u.name AS user_name,
+    es.remaining_due AS amount_due,
+    es.due_date,
+    es.emi_number AS period
+FROM emi_schedule es
+JOIN loans l ON es.loan_id = l.id
+JOIN users u ON l.user_id = u.id
+WHERE es.is_paid = FALSE AND es.superseded_at IS NULL AND l.status = 'active'
+ORDER BY due_date;
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'EMI re-amortization columns added successfully!' AS status;
@@ -0,0 +1,26 @@
+-- =============================================
+-- MIGRATION: Late Payment Penalties
+-- Overdue EMI and pre-EMI rows accrue a penalty configured in fund_settings
+-- =============================================
+
+ALTER TABLE emi_schedule ADD COLUMN IF NOT EXISTS penalty_amount DECIMAL(12, 2) DEFAULT 0;
+ALTER TABLE emi_schedule ADD COLUMN IF NOT EXISTS penalty_paid DECIMAL(12, 2) DEFAULT 0;
+
+ALTER TABLE pre_emi_interest ADD COLUMN IF NOT EXISTS penalty_amount DECIMAL(12, 2) DEFAULT 0;
+ALTER TABLE pre_emi_interest ADD COLUMN IF NOT EXISTS penalty_paid DECIMAL(12, 2) DEFAULT 0;
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS penalty_component DECIMAL(12, 2) DEFAULT 0;
+
+-- Penalty rules (off until an admin sets penalty_type)
+INSERT INTO fund_settings (setting_key, setting_value, description) VALUES
+('penalty_grace_days', '5', 'Days after due date before a late penalty applies'),
+('penalty_type', 'none', 'Late penalty type: none, flat or daily_percent'),
+('penalty_flat_amount', '100', 'Flat late fee per overdue installment'),
+('penalty_daily_percent', '0.1', 'Daily late penalty as % of the unpaid installment'),
+('penalty_cap', '500', 'Maximum penalty per installment (0 = no cap)')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Late penalty columns and settings added successfully!' AS status;
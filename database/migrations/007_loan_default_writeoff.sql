@@ -0,0 +1,83 @@
+-- =============================================
+-- MIGRATION: Loan Default and Write-off
+-- Defaulted loans can offset member deposits, charge the loss to the
+-- emergency fund and later record recoveries
+-- =============================================
+
+-- Emergency fund movements for write-offs and recoveries
+ALTER TYPE ef_transaction_type ADD VALUE IF NOT EXISTS 'loan_write_off';
+ALTER TYPE ef_transaction_type ADD VALUE IF NOT EXISTS 'loan_recovery';
+
+-- Default tracking on loans
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS defaulted_at TIMESTAMP;
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS defaulted_by UUID REFERENCES users(id);
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS deposit_offset_amount DECIMAL(12, 2) DEFAULT 0;
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS written_off_amount DECIMAL(12, 2) DEFAULT 0;
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS recovered_amount DECIMAL(12, 2) DEFAULT 0;
+
+-- Deposits offset against a defaulted loan are stored as negative entries
+ALTER TABLE deposits ADD COLUMN IF NOT EXISTS entry_type VARCHAR(20) NOT NULL DEFAULT 'deposit';
+ALTER TABLE deposits DROP CONSTRAINT IF EXISTS deposits_amount_check;
+ALTER TABLE deposits ADD CONSTRAINT deposits_amount_check CHECK (amount > 0 OR entry_type <> 'deposit');
+
+CREATE OR REPLACE FUNCTION validate_deposit()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_multiple INT;
+BEGIN
+    SELECT setting_value::INT INTO v_multiple
+    FROM fund_settings WHERE setting_key = 'deposit_multiple';
+    
+    IF NEW.entry_type = 'deposit' AND MOD(NEW.amount::INT, v_multiple) != 0 THEN
+        RAISE EXCEPTION 'Deposit must be in multiples of %', v_multiple;
+    END IF;
+    
+    -- Calculate cumulative total
+    SELECT COALESCE(SUM(amount), 0) + NEW.amount INTO NEW.cumulative_total
+    FROM deposits WHERE user_id = NEW.user_id;
+    
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION validate_minimum_deposit()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_min_deposit INT;
+    v_required_total DECIMAL;
+    v_current_total DECIMAL;
+BEGIN
+    -- Offsets and other adjustments are not monthly contributions
+    IF NEW.entry_type <> 'deposit' THEN
+        RETURN NEW;
+    END IF;
+    
+    SELECT setting_value::INT INTO v_min_deposit
+    FROM fund_settings WHERE setting_key = 'min_monthly_deposit';
+    
+    -- Required total by this month = 300 * member_month
+    v_required_total := v_min_deposit * NEW.member_month;
+    
+    -- Current total after this deposit
+    SELECT COALESCE(SUM(amount), 0) INTO v_current_total
+    FROM deposits WHERE user_id = NEW.user_id;
+    
+    v_current_total := v_current_total + NEW.amount;
+    
+    IF v_current_total < v_required_total THEN
+        RAISE EXCEPTION 'Total deposits (%) must be at least % for month %', 
+            v_current_total, v_required_total, NEW.member_month;
+    END IF;
+    
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+INSERT INTO fund_settings (setting_key, setting_value, description) VALUES
+('default_missed_emis', '3', 'Missed EMIs before a loan can be marked defaulted')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Loan default and write-off support added successfully!' AS status;
@@ -0,0 +1,33 @@
+-- =============================================
+-- MIGRATION: Background Job Runs
+-- Every scheduled or manual job run is recorded here. The unique
+-- (job_name, scheduled_for) key stops two server instances from running
+-- the same scheduled slot.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS job_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    job_name VARCHAR(50) NOT NULL,
+    trigger VARCHAR(10) NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+    scheduled_for TIMESTAMP NOT NULL,
+    
+    status VARCHAR(20) NOT NULL CHECK (status IN ('running', 'succeeded', 'failed')),
+    started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    finished_at TIMESTAMP,
+    result JSONB,
+    error TEXT,
+    
+    -- Which server instance claimed the run, and who triggered it by hand
+    instance_id VARCHAR(100),
+    triggered_by UUID REFERENCES users(id),
+    
+    UNIQUE(job_name, scheduled_for)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_job_started ON job_runs(job_name, started_at);
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Job runs table added successfully!' AS status;
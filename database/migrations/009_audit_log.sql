@@ -0,0 +1,55 @@
+-- =============================================
+-- MIGRATION: Audit Log
+-- Append-only record of every mutation made through the API: who did it,
+-- what changed (before/after), from which IP and when
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    -- Who (no foreign key: entries must outlive purged users)
+    actor_id UUID,
+    actor_email VARCHAR(255),
+    
+    -- What
+    action VARCHAR(50) NOT NULL, -- e.g., 'loan.approve', 'setting.update', 'user.purge'
+    entity_type VARCHAR(50) NOT NULL,
+    entity_id VARCHAR(100),
+    before_data JSONB,
+    after_data JSONB,
+    
+    -- Where from
+    ip_address VARCHAR(45),
+    user_agent TEXT,
+    
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at);
+
+-- Entries can be added but never changed or removed
+CREATE OR REPLACE FUNCTION prevent_audit_log_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_audit_log_no_update ON audit_log;
+CREATE TRIGGER trg_audit_log_no_update
+    BEFORE UPDATE OR DELETE ON audit_log
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_audit_log_change();
+
+DROP TRIGGER IF EXISTS trg_audit_log_no_truncate ON audit_log;
+CREATE TRIGGER trg_audit_log_no_truncate
+    BEFORE TRUNCATE ON audit_log
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION prevent_audit_log_change();
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Audit log added successfully!' AS status;
@@ -0,0 +1,18 @@
+-- =============================================
+-- MIGRATION: Deposit Corrections
+-- Deposits are never edited in place. A wrong deposit is reversed with a
+-- negative 'reversal' entry and, when edited, re-posted as a 'correction'
+-- =============================================
+
+ALTER TABLE deposits ADD COLUMN IF NOT EXISTS corrects_deposit_id UUID REFERENCES deposits(id);
+ALTER TABLE deposits ADD COLUMN IF NOT EXISTS correction_reason TEXT;
+ALTER TABLE deposits ADD COLUMN IF NOT EXISTS in_finalized_snapshot BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE deposits ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMP;
+ALTER TABLE deposits ADD COLUMN IF NOT EXISTS reversed_by UUID REFERENCES users(id);
+
+CREATE INDEX IF NOT EXISTS idx_deposits_corrects_deposit_id ON deposits(corrects_deposit_id);
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Deposit corrections added successfully!' AS status;
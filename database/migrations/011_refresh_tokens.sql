@@ -0,0 +1,32 @@
+-- =============================================
+-- MIGRATION: Refresh Tokens
+-- Access tokens are short-lived; sessions are kept alive with rotating
+-- refresh tokens stored here (hashed). Revoking a session's tokens ends it.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    
+    -- All tokens issued from one login share a family (the session id)
+    family_id UUID NOT NULL,
+    token_hash VARCHAR(64) NOT NULL UNIQUE, -- SHA-256 of the token; the token itself is never stored
+    expires_at TIMESTAMP NOT NULL,
+    
+    -- Set when the token is used (rotated), the user logs out or an admin revokes the session
+    revoked_at TIMESTAMP,
+    revoked_reason VARCHAR(20) CHECK (revoked_reason IN ('rotated', 'logout', 'revoked', 'reuse', 'deactivated')),
+    replaced_by UUID,
+    
+    ip_address VARCHAR(45),
+    user_agent TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON refresh_tokens(family_id);
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Refresh tokens table added successfully!' AS status;
@@ -0,0 +1,26 @@
+-- =============================================
+-- MIGRATION: Password Reset Codes
+-- Admin-issued one-time codes a member redeems to set a new password.
+-- Only a hash of the code is stored.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS password_reset_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    
+    code_hash VARCHAR(64) NOT NULL, -- SHA-256 of the code
+    expires_at TIMESTAMP NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0, -- Wrong guesses; the code stops working after too many
+    used_at TIMESTAMP, -- Redeemed, or cancelled by a newer code
+    
+    channel VARCHAR(20), -- Notification channel the code was sent through
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_codes_user_id ON password_reset_codes(user_id);
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Password reset codes table added successfully!' AS status;
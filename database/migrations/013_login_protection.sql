@@ -0,0 +1,29 @@
+-- =============================================
+-- MIGRATION: Login Protection
+-- Accounts lock for an increasing time after repeated wrong passwords,
+-- and every failed login is recorded for admins to review
+-- =============================================
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS failed_login_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS lockout_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS login_failures (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    phone VARCHAR(15), -- As typed; may not belong to any member
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    reason VARCHAR(20) NOT NULL CHECK (reason IN ('unknown_phone', 'bad_password', 'inactive', 'locked')),
+    
+    ip_address VARCHAR(45),
+    user_agent TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_failures_created_at ON login_failures(created_at);
+CREATE INDEX IF NOT EXISTS idx_login_failures_user_id ON login_failures(user_id);
+CREATE INDEX IF NOT EXISTS idx_login_failures_phone ON login_failures(phone);
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Login protection added successfully!' AS status;
@@ -0,0 +1,64 @@
+-- =============================================
+-- MIGRATION: Office-Bearer Roles
+-- Treasurer, auditor and secretary roles. Permissions per role live in the
+-- backend (src/lib/permissions.ts). Office bearers remain fund members, so the
+-- member views now count every non-admin user.
+-- =============================================
+
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'treasurer';
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'auditor';
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'secretary';
+
+CREATE OR REPLACE VIEW v_fund_summary AS
+SELECT 
+    COALESCE(SUM(d.amount), 0) AS total_pool,
+    COALESCE((SELECT SUM(outstanding_principal) FROM loans WHERE status = 'active'), 0) AS total_loaned_out,
+    COALESCE(SUM(d.amount), 0) - COALESCE((SELECT SUM(outstanding_principal) FROM loans WHERE status = 'active'), 0) AS available_balance,
+    (SELECT COUNT(*) FROM users WHERE status = 'active' AND role <> 'admin') AS active_members,
+    (SELECT COUNT(*) FROM users WHERE status = 'pending') AS pending_approvals
+FROM deposits d
+JOIN users u ON d.user_id = u.id
+WHERE u.status = 'active';
+
+CREATE OR REPLACE VIEW v_member_summary AS
+SELECT 
+    u.id,
+    u.name,
+    u.email,
+    u.status,
+    u.joined_at,
+    COALESCE(d.total_deposits, 0) AS total_deposits,
+    COALESCE(d.current_month, 0) AS months_active,
+    COALESCE(l.active_loan_count, 0) AS active_loans,
+    COALESCE(l.total_outstanding, 0) AS total_outstanding,
+    -- Eligibility calculation
+    LEAST(
+        (SELECT COALESCE(SUM(amount), 0) FROM deposits) * 0.40,
+        COALESCE(d.total_deposits, 0) * 11 -- Max multiplier from brackets
+    ) - COALESCE(l.total_outstanding, 0) AS remaining_eligibility
+FROM users u
+LEFT JOIN (
+    SELECT user_id, SUM(amount) AS total_deposits, MAX(member_month) AS current_month
+    FROM deposits GROUP BY user_id
+) d ON u.id = d.user_id
+LEFT JOIN (
+    SELECT user_id, COUNT(*) AS active_loan_count, SUM(outstanding_principal) AS total_outstanding
+    FROM loans WHERE status = 'active' GROUP BY user_id
+) l ON u.id = l.user_id
+WHERE u.role <> 'admin';
+
+CREATE OR REPLACE VIEW v_member_interest_summary AS
+SELECT 
+    u.id AS user_id,
+    u.name,
+    COALESCE(SUM(mis.interest_share), 0) AS total_interest_earned,
+    COUNT(DISTINCT mis.monthly_interest_id) AS interest_entries
+FROM users u
+LEFT JOIN member_interest_shares mis ON u.id = mis.user_id
+WHERE u.role <> 'admin'
+GROUP BY u.id, u.name;
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Office-bearer roles added successfully!' AS status;
@@ -0,0 +1,40 @@
+-- =============================================
+-- MIGRATION: Pending Actions (maker-checker)
+-- Large loan approvals, settings and bracket edits and user purges are
+-- queued here and only applied once a second admin approves them
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS pending_actions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    action_type VARCHAR(30) NOT NULL CHECK (action_type IN ('loan.approve', 'setting.update', 'bracket.create', 'bracket.update', 'user.purge')),
+    entity_type VARCHAR(50) NOT NULL,
+    entity_id VARCHAR(100), -- Empty for creates
+    payload JSONB NOT NULL, -- Everything needed to apply the change
+    summary TEXT NOT NULL, -- Human-readable description shown to the checker
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'rejected', 'cancelled', 'failed')),
+    
+    -- Maker
+    requested_by UUID NOT NULL REFERENCES users(id),
+    requested_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    
+    -- Checker
+    decided_by UUID REFERENCES users(id),
+    decided_at TIMESTAMP,
+    decision_note TEXT,
+    
+    result JSONB, -- Record returned when applied
+    error TEXT -- Why applying failed
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_actions_status ON pending_actions(status);
+-- Only one open request per record at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pending_actions_open ON pending_actions(action_type, entity_id) WHERE status = 'pending';
+
+INSERT INTO fund_settings (setting_key, setting_value, description) VALUES
+    ('dual_approval_loan_amount', '100000', 'Loans above this amount need a second admin to approve')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Pending actions added successfully!' AS status;
@@ -0,0 +1,14 @@
+-- =============================================
+-- MIGRATION: Liquidity Reserve
+-- Share of the pool kept back as cash; loans are only approved and paid
+-- out from what is left after the reserve and earlier commitments
+-- =============================================
+
+INSERT INTO fund_settings (setting_key, setting_value, description) VALUES
+    ('liquidity_reserve_percentage', '10', 'Percentage of the pool (deposits + emergency fund) kept as cash and never lent')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Liquidity reserve setting added successfully!' AS status;
@@ -0,0 +1,98 @@
+-- =============================================
+-- MIGRATION: Loan Products
+-- Each loan belongs to a product (regular, emergency, festival, ...) with its
+-- own tenure range, repayment term, pre-EMI limit, multiplier cap, per-member
+-- limit and, optionally, its own interest brackets
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS loan_products (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code VARCHAR(30) UNIQUE NOT NULL, -- e.g., regular, emergency, festival
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    
+    -- Number of EMIs a member can choose
+    min_tenure_months INT NOT NULL,
+    max_tenure_months INT NOT NULL,
+    default_tenure_months INT NOT NULL,
+    
+    max_term_months INT NOT NULL, -- Must be fully repaid within this many months of disbursement (sets maturity_date)
+    max_pre_emi_days INT, -- Longest gap between disbursement and EMI start; NULL = no limit, 0 = no pre-EMI period
+    max_multiplier DECIMAL(4, 2), -- Loan ÷ deposits cap; NULL = top of the bracket set
+    max_per_member INT NOT NULL DEFAULT 1, -- Open loans of this product one member may hold
+    
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    CONSTRAINT valid_tenure CHECK (
+        min_tenure_months >= 1 AND
+        min_tenure_months <= default_tenure_months AND
+        default_tenure_months <= max_tenure_months AND
+        max_tenure_months <= max_term_months
+    ),
+    CONSTRAINT valid_limits CHECK (
+        (max_pre_emi_days IS NULL OR max_pre_emi_days >= 0) AND
+        (max_multiplier IS NULL OR max_multiplier > 0) AND
+        max_per_member >= 1
+    )
+);
+
+-- The regular product takes over the old fund-wide repayment term
+INSERT INTO loan_products (code, name, description, min_tenure_months, max_tenure_months, default_tenure_months, max_term_months, max_per_member)
+SELECT 'regular', 'Regular', 'Standard loan against deposits', 1, 36, 12,
+       COALESCE((SELECT setting_value::INT * 12 FROM fund_settings WHERE setting_key = 'loan_tenure_years'), 36), 2
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO loan_products (code, name, description, min_tenure_months, max_tenure_months, default_tenure_months, max_term_months, max_pre_emi_days, max_multiplier, max_per_member) VALUES
+('emergency', 'Emergency', 'Small, quick loan repaid within a year; EMIs start within a month', 1, 12, 6, 12, 31, 3, 1),
+('festival', 'Festival', 'Short loan for festival expenses', 3, 10, 10, 12, 60, 2, 1)
+ON CONFLICT (code) DO NOTHING;
+
+DELETE FROM fund_settings WHERE setting_key = 'loan_tenure_years';
+
+-- Brackets without a product are the shared set, used by products that have none of their own
+ALTER TABLE interest_brackets ADD COLUMN IF NOT EXISTS product_id UUID REFERENCES loan_products(id);
+
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS product_id UUID REFERENCES loan_products(id);
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS tenure_months INT; -- EMIs chosen when applying
+UPDATE loans SET product_id = (SELECT id FROM loan_products WHERE code = 'regular') WHERE product_id IS NULL;
+
+-- The repayment term now comes from the product
+ALTER TABLE loans DROP CONSTRAINT IF EXISTS valid_timeline;
+ALTER TABLE loans ADD CONSTRAINT valid_timeline CHECK (
+    (emi_start_date IS NULL OR emi_start_date >= disbursed_at) AND
+    (emi_start_date IS NULL OR maturity_date > emi_start_date)
+);
+
+-- The SQL rate helper keeps reading the shared set
+CREATE OR REPLACE FUNCTION get_interest_rate(p_multiplier DECIMAL)
+RETURNS DECIMAL AS $$
+DECLARE
+    v_rate DECIMAL;
+BEGIN
+    SELECT interest_rate INTO v_rate
+    FROM interest_brackets
+    WHERE is_active = TRUE
+      AND product_id IS NULL
+      AND p_multiplier > min_multiplier
+      AND (max_multiplier IS NULL OR p_multiplier <= max_multiplier)
+    LIMIT 1;
+    
+    RETURN COALESCE(v_rate, 12.0); -- Default to highest if not found
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE INDEX IF NOT EXISTS idx_loans_product_id ON loans(product_id);
+CREATE INDEX IF NOT EXISTS idx_interest_brackets_product_id ON interest_brackets(product_id);
+
+-- Product changes go through the maker-checker queue
+ALTER TABLE pending_actions DROP CONSTRAINT IF EXISTS pending_actions_action_type_check;
+ALTER TABLE pending_actions ADD CONSTRAINT pending_actions_action_type_check CHECK (action_type IN (
+    'loan.approve', 'setting.update', 'bracket.create', 'bracket.update', 'product.create', 'product.update', 'user.purge'
+));
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Loan products added successfully!' AS status;
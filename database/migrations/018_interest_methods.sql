@@ -0,0 +1,24 @@
+-- =============================================
+-- MIGRATION: Interest Methods
+-- How a loan's interest is worked out: monthly reducing balance (as before),
+-- flat, or daily reducing with an actual/365 day count. Products set the
+-- method for new loans; each loan keeps the method it was agreed on.
+-- =============================================
+
+ALTER TABLE loan_products ADD COLUMN IF NOT EXISTS interest_method VARCHAR(20) NOT NULL DEFAULT 'reducing_balance';
+ALTER TABLE loan_products DROP CONSTRAINT IF EXISTS valid_interest_method;
+ALTER TABLE loan_products ADD CONSTRAINT valid_interest_method CHECK (
+    interest_method IN ('reducing_balance', 'flat', 'daily_reducing')
+);
+
+-- Existing loans were all agreed as monthly reducing balance
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS interest_method VARCHAR(20) NOT NULL DEFAULT 'reducing_balance';
+ALTER TABLE loans DROP CONSTRAINT IF EXISTS valid_interest_method;
+ALTER TABLE loans ADD CONSTRAINT valid_interest_method CHECK (
+    interest_method IN ('reducing_balance', 'flat', 'daily_reducing')
+);
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Interest methods added successfully!' AS status;
@@ -0,0 +1,40 @@
+-- =============================================
+-- MIGRATION: Loan Guarantors
+-- Another member can vouch for a borrower by pledging part of their own
+-- deposits. Pledges add to the borrower's eligibility, stay locked while
+-- the loan is open and can be offset if the loan defaults
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS loan_guarantors (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    loan_id UUID NOT NULL REFERENCES loans(id) ON DELETE CASCADE,
+    guarantor_id UUID NOT NULL REFERENCES users(id),
+
+    amount DECIMAL(12, 2) NOT NULL, -- Deposits pledged; locked while the loan is open
+
+    -- pending: waiting for the guarantor; accepted/declined: their answer;
+    -- invoked: deposits offset against the defaulted loan
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    responded_at TIMESTAMP,
+
+    offset_amount DECIMAL(12, 2) NOT NULL DEFAULT 0, -- Deposits taken on default
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(loan_id, guarantor_id),
+    CONSTRAINT valid_guarantee_status CHECK (status IN ('pending', 'accepted', 'declined', 'invoked')),
+    CONSTRAINT valid_guarantee_amounts CHECK (amount > 0 AND offset_amount >= 0 AND offset_amount <= amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_guarantors_loan_id ON loan_guarantors(loan_id);
+CREATE INDEX IF NOT EXISTS idx_loan_guarantors_guarantor_id ON loan_guarantors(guarantor_id);
+
+INSERT INTO fund_settings (setting_key, setting_value, description) VALUES
+    ('max_guarantee_percentage', '100', 'Guarantees can raise a borrower''s deposit-based limit by at most this percentage')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Loan guarantors added successfully!' AS status;
@@ -0,0 +1,26 @@
+-- =============================================
+-- MIGRATION: One running job run per job
+-- Scheduled and manual runs of a job claim the same lock, so a manual
+-- trigger cannot start while a scheduled run is still going (or the other
+-- way round), whichever instance they land on
+-- =============================================
+
+-- Runs left 'running' by a stopped instance would block the index; close them first
+UPDATE job_runs
+SET status = 'failed',
+    error = 'Closed by migration 020; the instance probably stopped mid-run',
+    finished_at = CURRENT_TIMESTAMP
+WHERE status = 'running'
+  AND id NOT IN (
+      SELECT DISTINCT ON (job_name) id
+      FROM job_runs
+      WHERE status = 'running'
+      ORDER BY job_name, started_at DESC
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_runs_running ON job_runs(job_name) WHERE status = 'running';
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Job run lock added successfully!' AS status;
@@ -0,0 +1,15 @@
+-- =============================================
+-- MIGRATION: Pending action 'applying' status
+-- An approved action is held as 'applying' while its change runs and only
+-- becomes 'applied' once the change has gone through
+-- =============================================
+
+ALTER TABLE pending_actions DROP CONSTRAINT IF EXISTS pending_actions_status_check;
+ALTER TABLE pending_actions ADD CONSTRAINT pending_actions_status_check CHECK (status IN (
+    'pending', 'applying', 'applied', 'rejected', 'cancelled', 'failed'
+));
+
+-- =============================================
+-- DONE
+-- =============================================
+SELECT 'Pending action applying status added successfully!' AS status;
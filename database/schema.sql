@@ -4,8 +4,8 @@
 
 -- ENUM Types
 CREATE TYPE user_status AS ENUM ('pending', 'active', 'inactive', 'rejected');
-CREATE TYPE user_role AS ENUM ('admin', 'member');
-CREATE TYPE loan_status AS ENUM ('active', 'completed', 'defaulted');
+CREATE TYPE user_role AS ENUM ('admin', 'member', 'treasurer', 'auditor', 'secretary');
+CREATE TYPE loan_status AS ENUM ('active', 'completed', 'defaulted', 'requested', 'under_review', 'approved', 'rejected');
 
 -- =============================================
 -- USERS TABLE
@@ -27,15 +27,67 @@ CREATE TABLE users (
     approved_at TIMESTAMP,
     rejection_reason TEXT,
     
+    -- Login lockout: wrong passwords since the last lock, locks so far (drives the backoff)
+    failed_login_count INTEGER NOT NULL DEFAULT 0,
+    lockout_count INTEGER NOT NULL DEFAULT 0,
+    locked_until TIMESTAMP,
+    
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- =============================================
+-- LOAN PRODUCTS (Admin configurable)
+-- =============================================
+CREATE TABLE loan_products (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code VARCHAR(30) UNIQUE NOT NULL, -- e.g., regular, emergency, festival
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    
+    -- Number of EMIs a member can choose
+    min_tenure_months INT NOT NULL,
+    max_tenure_months INT NOT NULL,
+    default_tenure_months INT NOT NULL,
+    
+    max_term_months INT NOT NULL, -- Must be fully repaid within this many months of disbursement (sets maturity_date)
+    max_pre_emi_days INT, -- Longest gap between disbursement and EMI start; NULL = no limit, 0 = no pre-EMI period
+    max_multiplier DECIMAL(4, 2), -- Loan ÷ deposits cap; NULL = top of the bracket set
+    max_per_member INT NOT NULL DEFAULT 1, -- Open loans of this product one member may hold
+    interest_method VARCHAR(20) NOT NULL DEFAULT 'reducing_balance', -- Method given to new loans
+    
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    CONSTRAINT valid_tenure CHECK (
+        min_tenure_months >= 1 AND
+        min_tenure_months <= default_tenure_months AND
+        default_tenure_months <= max_tenure_months AND
+        max_tenure_months <= max_term_months
+    ),
+    CONSTRAINT valid_limits CHECK (
+        (max_pre_emi_days IS NULL OR max_pre_emi_days >= 0) AND
+        (max_multiplier IS NULL OR max_multiplier > 0) AND
+        max_per_member >= 1
+    ),
+    CONSTRAINT valid_interest_method CHECK (
+        interest_method IN ('reducing_balance', 'flat', 'daily_reducing')
+    )
+);
+
+-- Default products
+INSERT INTO loan_products (code, name, description, min_tenure_months, max_tenure_months, default_tenure_months, max_term_months, max_pre_emi_days, max_multiplier, max_per_member) VALUES
+('regular', 'Regular', 'Standard loan against deposits', 1, 36, 12, 36, NULL, NULL, 2),
+('emergency', 'Emergency', 'Small, quick loan repaid within a year; EMIs start within a month', 1, 12, 6, 12, 31, 3, 1),
+('festival', 'Festival', 'Short loan for festival expenses', 3, 10, 10, 12, 60, 2, 1);
+
 -- =============================================
 -- INTEREST RATE BRACKETS (Admin configurable)
 -- =============================================
 CREATE TABLE interest_brackets (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id UUID REFERENCES loan_products(id), -- NULL = shared set, used by products without their own
     min_multiplier DECIMAL(4, 2) NOT NULL, -- e.g., 0, 2, 5, 7, 9
     max_multiplier DECIMAL(4, 2), -- NULL means no upper limit
     interest_rate DECIMAL(4, 2) NOT NULL, -- e.g., 9.5, 10, 10.5
@@ -72,8 +124,16 @@ INSERT INTO fund_settings (setting_key, setting_value, description) VALUES
 ('deposit_multiple', '300', 'Deposits must be in multiples of this'),
 ('max_pool_percentage', '40', 'Max percentage of pool a member can borrow'),
 ('max_active_loans', '2', 'Maximum active loans per member'),
-('loan_tenure_years', '3', 'Maximum loan tenure in years'),
-('emi_start_after_years', '2', 'EMI must start after these many years');
+('emi_start_after_years', '2', 'EMI must start after these many years'),
+('penalty_grace_days', '5', 'Days after due date before a late penalty applies'),
+('penalty_type', 'none', 'Late penalty type: none, flat or daily_percent'),
+('penalty_flat_amount', '100', 'Flat late fee per overdue installment'),
+('penalty_daily_percent', '0.1', 'Daily late penalty as % of the unpaid installment'),
+('penalty_cap', '500', 'Maximum penalty per installment (0 = no cap)'),
+('default_missed_emis', '3', 'Missed EMIs before a loan can be marked defaulted'),
+('dual_approval_loan_amount', '100000', 'Loans above this amount need a second admin to approve'),
+('liquidity_reserve_percentage', '10', 'Percentage of the pool (deposits + emergency fund) kept as cash and never lent'),
+('max_guarantee_percentage', '100', 'Guarantees can raise a borrower''s deposit-based limit by at most this percentage');
 
 -- =============================================
 -- DEPOSITS TABLE
@@ -82,7 +142,12 @@ CREATE TABLE deposits (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     user_id UUID NOT NULL REFERENCES users(id),
     
-    amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+    amount DECIMAL(12, 2) NOT NULL,
+    
+    -- 'deposit' for money paid in; 'loan_offset' for deposits applied to a defaulted loan, the member's
+    -- own or pledged as its guarantor (negative);
+    -- 'reversal' (negative) and 'correction' for fixes to an earlier entry
+    entry_type VARCHAR(20) NOT NULL DEFAULT 'deposit',
     
     -- Member's relative month number (1, 2, 3, ...)
     member_month INT NOT NULL CHECK (member_month > 0),
@@ -96,7 +161,16 @@ CREATE TABLE deposits (
     notes TEXT,
     recorded_by UUID REFERENCES users(id), -- Admin who recorded it
     
-    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    -- Corrections: reversal/correction entries point at the entry they fix, which is marked reversed
+    corrects_deposit_id UUID REFERENCES deposits(id),
+    correction_reason TEXT,
+    in_finalized_snapshot BOOLEAN NOT NULL DEFAULT FALSE, -- Fix lands in an already finalized pool snapshot
+    reversed_at TIMESTAMP,
+    reversed_by UUID REFERENCES users(id),
+    
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    CONSTRAINT deposits_amount_check CHECK (amount > 0 OR entry_type <> 'deposit')
 );
 
 -- =============================================
@@ -105,10 +179,13 @@ CREATE TABLE deposits (
 CREATE TABLE loans (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     user_id UUID NOT NULL REFERENCES users(id),
+    product_id UUID REFERENCES loan_products(id),
+    tenure_months INT, -- EMIs chosen when applying
     
     -- Loan details
     principal_amount DECIMAL(12, 2) NOT NULL,
     interest_rate DECIMAL(4, 2) NOT NULL,
+    interest_method VARCHAR(20) NOT NULL DEFAULT 'reducing_balance', -- reducing_balance, flat or daily_reducing; fixed when applying
     multiplier_at_disbursement DECIMAL(6, 2) NOT NULL, -- e.g., 3.2x
     
     -- Snapshot at loan creation (for audit)
@@ -116,10 +193,10 @@ CREATE TABLE loans (
     total_pool_at_loan DECIMAL(12, 2) NOT NULL,
     max_eligible_at_loan DECIMAL(12, 2) NOT NULL,
     
-    -- Loan timeline
-    disbursed_at DATE NOT NULL,
+    -- Loan timeline (disbursed_at and maturity_date are set when the loan is paid out)
+    disbursed_at DATE,
     emi_start_date DATE, -- NULL if not yet decided, can start anytime
-    maturity_date DATE NOT NULL, -- Must be within 3 years of disbursement
+    maturity_date DATE, -- Disbursement + the product's max_term_months
     
     -- Pre-EMI interest tracking
     pre_emi_interest_amount DECIMAL(12, 2) DEFAULT 0, -- Total pre-EMI interest calculated
@@ -127,28 +204,70 @@ CREATE TABLE loans (
     -- Tracking
     outstanding_principal DECIMAL(12, 2) NOT NULL,
     total_interest_paid DECIMAL(12, 2) DEFAULT 0,
-    status loan_status DEFAULT 'active',
+    status loan_status DEFAULT 'requested', -- requested → under_review → approved → active, or rejected
     
     -- Which fund month's pool this loan was taken from (for interest distribution)
     pool_source_month INT,
     
     completed_at TIMESTAMP,
     approved_by UUID REFERENCES users(id),
+    approved_at TIMESTAMP,
+    
+    -- Admin who took the application under review or rejected it
+    reviewed_by UUID REFERENCES users(id),
+    reviewed_at TIMESTAMP,
+    rejection_reason TEXT,
+    
+    -- Default and write-off
+    defaulted_at TIMESTAMP,
+    defaulted_by UUID REFERENCES users(id),
+    deposit_offset_amount DECIMAL(12, 2) DEFAULT 0,
+    written_off_amount DECIMAL(12, 2) DEFAULT 0,
+    recovered_amount DECIMAL(12, 2) DEFAULT 0,
     
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     
     CONSTRAINT valid_timeline CHECK (
-        maturity_date <= disbursed_at + INTERVAL '3 years' AND
         (emi_start_date IS NULL OR emi_start_date >= disbursed_at) AND
         (emi_start_date IS NULL OR maturity_date > emi_start_date)
+    ),
+    CONSTRAINT valid_interest_method CHECK (
+        interest_method IN ('reducing_balance', 'flat', 'daily_reducing')
     )
 );
 
+-- =============================================
+-- LOAN GUARANTORS (Members pledging deposits for a borrower)
+-- =============================================
+CREATE TABLE loan_guarantors (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    loan_id UUID NOT NULL REFERENCES loans(id) ON DELETE CASCADE,
+    guarantor_id UUID NOT NULL REFERENCES users(id),
+    
+    amount DECIMAL(12, 2) NOT NULL, -- Deposits pledged; locked while the loan is open
+    
+    -- pending: waiting for the guarantor; accepted/declined: their answer;
+    -- invoked: deposits offset against the defaulted loan
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    responded_at TIMESTAMP,
+    
+    offset_amount DECIMAL(12, 2) NOT NULL DEFAULT 0, -- Deposits taken on default
+    
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    UNIQUE(loan_id, guarantor_id),
+    CONSTRAINT valid_guarantee_status CHECK (status IN ('pending', 'accepted', 'declined', 'invoked')),
+    CONSTRAINT valid_guarantee_amounts CHECK (amount > 0 AND offset_amount >= 0 AND offset_amount <= amount)
+);
+
 -- =============================================
 -- PRE-EMI INTEREST TABLE (Interest before EMI starts)
 -- =============================================
--- Interest formula: Principal × (1 + Rate/12) × (Days/30)
+-- Interest formula depends on the loan's interest_method:
+--   reducing_balance: Principal × (1 + Rate/12)^(Days/30) - Principal
+--   flat, daily_reducing: Principal × Rate × Days/365
 CREATE TABLE pre_emi_interest (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     loan_id UUID NOT NULL REFERENCES loans(id),
@@ -169,7 +288,11 @@ CREATE TABLE pre_emi_interest (
     paid_amount DECIMAL(12, 2),
     paid_at DATE,
     
-    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    -- Late penalty charged once overdue past the grace period
+    penalty_amount DECIMAL(12, 2) DEFAULT 0,
+    penalty_paid DECIMAL(12, 2) DEFAULT 0
 );
 
 -- =============================================
@@ -195,7 +318,20 @@ CREATE TABLE emi_schedule (
     
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     
-    UNIQUE(loan_id, emi_number)
+    -- Partial payments: interest is settled first, then principal
+    interest_paid DECIMAL(12, 2) DEFAULT 0,
+    principal_paid DECIMAL(12, 2) DEFAULT 0,
+    remaining_due DECIMAL(12, 2) NOT NULL,
+    
+    -- Re-amortization: replaced rows are kept with superseded_at set
+    schedule_version INT NOT NULL DEFAULT 1,
+    superseded_at TIMESTAMP,
+    
+    -- Late penalty (included in remaining_due until paid)
+    penalty_amount DECIMAL(12, 2) DEFAULT 0,
+    penalty_paid DECIMAL(12, 2) DEFAULT 0,
+    
+    UNIQUE(loan_id, schedule_version, emi_number)
 );
 
 -- =============================================
@@ -210,7 +346,7 @@ CREATE TABLE payments (
     principal_component DECIMAL(12, 2) DEFAULT 0,
     interest_component DECIMAL(12, 2) DEFAULT 0,
     
-    payment_type VARCHAR(20) NOT NULL, -- 'annual_interest', 'emi', 'prepayment'
+    payment_type VARCHAR(20) NOT NULL, -- 'pre_emi_interest', 'emi', 'prepayment', 'deposit_offset', 'guarantor_offset', 'recovery'
     payment_date DATE NOT NULL,
     
     -- Link to specific schedule entry if applicable
@@ -220,7 +356,10 @@ CREATE TABLE payments (
     notes TEXT,
     recorded_by UUID REFERENCES users(id),
     
-    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    -- Late penalty settled by this payment (allocated before interest)
+    penalty_component DECIMAL(12, 2) DEFAULT 0
 );
 
 
@@ -321,7 +460,7 @@ INSERT INTO emergency_fund (total_balance, last_interest_month) VALUES (0, 0);
 -- =============================================
 -- EMERGENCY FUND TRANSACTIONS (Track all movements)
 -- =============================================
-CREATE TYPE ef_transaction_type AS ENUM ('interest_credit', 'loan_disbursement', 'loan_repayment', 'adjustment');
+CREATE TYPE ef_transaction_type AS ENUM ('interest_credit', 'loan_disbursement', 'loan_repayment', 'adjustment', 'loan_write_off', 'loan_recovery');
 
 CREATE TABLE emergency_fund_transactions (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -342,6 +481,127 @@ CREATE TABLE emergency_fund_transactions (
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- =============================================
+-- JOB RUNS (Background job history and lock)
+-- =============================================
+CREATE TABLE job_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    job_name VARCHAR(50) NOT NULL,
+    trigger VARCHAR(10) NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+    scheduled_for TIMESTAMP NOT NULL,
+    
+    status VARCHAR(20) NOT NULL CHECK (status IN ('running', 'succeeded', 'failed')),
+    started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    finished_at TIMESTAMP,
+    result JSONB,
+    error TEXT,
+    
+    instance_id VARCHAR(100),
+    triggered_by UUID REFERENCES users(id),
+    
+    -- One run per job per scheduled slot, so only one instance runs it
+    UNIQUE(job_name, scheduled_for)
+);
+
+-- =============================================
+-- AUDIT LOG (Append-only record of every mutation)
+-- =============================================
+CREATE TABLE audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    -- Who (no foreign key: entries must outlive purged users)
+    actor_id UUID,
+    actor_email VARCHAR(255),
+    
+    -- What
+    action VARCHAR(50) NOT NULL, -- e.g., 'loan.approve', 'setting.update', 'user.purge'
+    entity_type VARCHAR(50) NOT NULL,
+    entity_id VARCHAR(100),
+    before_data JSONB,
+    after_data JSONB,
+    
+    -- Where from
+    ip_address VARCHAR(45),
+    user_agent TEXT,
+    
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =============================================
+-- REFRESH TOKENS (Server-side sessions)
+-- =============================================
+CREATE TABLE refresh_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    
+    -- All tokens issued from one login share a family (the session id)
+    family_id UUID NOT NULL,
+    token_hash VARCHAR(64) NOT NULL UNIQUE, -- SHA-256 of the token
+    expires_at TIMESTAMP NOT NULL,
+    
+    revoked_at TIMESTAMP,
+    revoked_reason VARCHAR(20) CHECK (revoked_reason IN ('rotated', 'logout', 'revoked', 'reuse', 'deactivated')),
+    replaced_by UUID,
+    
+    ip_address VARCHAR(45),
+    user_agent TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =============================================
+-- PASSWORD RESET CODES (Admin-issued, single use)
+-- =============================================
+CREATE TABLE password_reset_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    
+    code_hash VARCHAR(64) NOT NULL, -- SHA-256 of the code
+    expires_at TIMESTAMP NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    used_at TIMESTAMP,
+    
+    channel VARCHAR(20),
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =============================================
+-- LOGIN FAILURES (For admin review)
+-- =============================================
+CREATE TABLE login_failures (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    phone VARCHAR(15),
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    reason VARCHAR(20) NOT NULL CHECK (reason IN ('unknown_phone', 'bad_password', 'inactive', 'locked')),
+    
+    ip_address VARCHAR(45),
+    user_agent TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =============================================
+-- PENDING ACTIONS (Maker-checker queue)
+-- =============================================
+CREATE TABLE pending_actions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    action_type VARCHAR(30) NOT NULL CHECK (action_type IN ('loan.approve', 'setting.update', 'bracket.create', 'bracket.update', 'product.create', 'product.update', 'user.purge')),
+    entity_type VARCHAR(50) NOT NULL,
+    entity_id VARCHAR(100),
+    payload JSONB NOT NULL,
+    summary TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applying', 'applied', 'rejected', 'cancelled', 'failed')),
+    
+    requested_by UUID NOT NULL REFERENCES users(id),
+    requested_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    decided_by UUID REFERENCES users(id),
+    decided_at TIMESTAMP,
+    decision_note TEXT,
+    
+    result JSONB,
+    error TEXT
+);
+
 -- =============================================
 -- VIEWS
 -- =============================================
@@ -352,7 +612,7 @@ SELECT
     COALESCE(SUM(d.amount), 0) AS total_pool,
     COALESCE((SELECT SUM(outstanding_principal) FROM loans WHERE status = 'active'), 0) AS total_loaned_out,
     COALESCE(SUM(d.amount), 0) - COALESCE((SELECT SUM(outstanding_principal) FROM loans WHERE status = 'active'), 0) AS available_balance,
-    (SELECT COUNT(*) FROM users WHERE status = 'active' AND role = 'member') AS active_members,
+    (SELECT COUNT(*) FROM users WHERE status = 'active' AND role <> 'admin') AS active_members,
     (SELECT COUNT(*) FROM users WHERE status = 'pending') AS pending_approvals
 FROM deposits d
 JOIN users u ON d.user_id = u.id
@@ -384,7 +644,7 @@ LEFT JOIN (
     SELECT user_id, COUNT(*) AS active_loan_count, SUM(outstanding_principal) AS total_outstanding
     FROM loans WHERE status = 'active' GROUP BY user_id
 ) l ON u.id = l.user_id
-WHERE u.role = 'member';
+WHERE u.role <> 'admin';
 
 -- Loan details with payment status
 CREATE VIEW v_loan_details AS
@@ -406,7 +666,7 @@ LEFT JOIN (
 ) pei ON l.id = pei.loan_id
 LEFT JOIN (
     SELECT loan_id, COUNT(*) AS total_emis, SUM(CASE WHEN is_paid THEN 1 ELSE 0 END) AS paid_emis
-    FROM emi_schedule GROUP BY loan_id
+    FROM emi_schedule WHERE superseded_at IS NULL GROUP BY loan_id
 ) e ON l.id = e.loan_id;
 
 -- Pending payments (upcoming dues)
@@ -433,13 +693,13 @@ SELECT
     l.id AS loan_id,
     u.id AS user_id,
     u.name AS user_name,
-    es.total_emi AS amount_due,
+    es.remaining_due AS amount_due,
     es.due_date,
     es.emi_number AS period
 FROM emi_schedule es
 JOIN loans l ON es.loan_id = l.id
 JOIN users u ON l.user_id = u.id
-WHERE es.is_paid = FALSE AND l.status = 'active'
+WHERE es.is_paid = FALSE AND es.superseded_at IS NULL AND l.status = 'active'
 ORDER BY due_date;
 
 -- Member's total interest earned
@@ -451,7 +711,7 @@ SELECT
     COUNT(DISTINCT mis.monthly_interest_id) AS interest_entries
 FROM users u
 LEFT JOIN member_interest_shares mis ON u.id = mis.user_id
-WHERE u.role = 'member'
+WHERE u.role <> 'admin'
 GROUP BY u.id, u.name;
 
 -- Monthly interest breakdown
@@ -483,8 +743,13 @@ CREATE INDEX idx_users_status ON users(status);
 CREATE INDEX idx_users_role ON users(role);
 CREATE INDEX idx_deposits_user_id ON deposits(user_id);
 CREATE INDEX idx_deposits_member_month ON deposits(user_id, member_month);
+CREATE INDEX idx_deposits_corrects_deposit_id ON deposits(corrects_deposit_id);
 CREATE INDEX idx_loans_user_id ON loans(user_id);
 CREATE INDEX idx_loans_status ON loans(status);
+CREATE INDEX idx_loans_product_id ON loans(product_id);
+CREATE INDEX idx_interest_brackets_product_id ON interest_brackets(product_id);
+CREATE INDEX idx_loan_guarantors_loan_id ON loan_guarantors(loan_id);
+CREATE INDEX idx_loan_guarantors_guarantor_id ON loan_guarantors(guarantor_id);
 CREATE INDEX idx_pre_emi_interest_loan_id ON pre_emi_interest(loan_id);
 CREATE INDEX idx_pre_emi_interest_due_date ON pre_emi_interest(due_date);
 CREATE INDEX idx_emi_schedule_loan_id ON emi_schedule(loan_id);
@@ -498,12 +763,25 @@ CREATE INDEX idx_monthly_interest_pool_source ON monthly_interest(pool_source_mo
 CREATE INDEX idx_member_interest_shares_user_id ON member_interest_shares(user_id);
 CREATE INDEX idx_member_interest_shares_interest_id ON member_interest_shares(monthly_interest_id);
 CREATE INDEX idx_ef_transactions_type ON emergency_fund_transactions(transaction_type);
+CREATE INDEX idx_job_runs_job_started ON job_runs(job_name, started_at);
+CREATE UNIQUE INDEX idx_job_runs_running ON job_runs(job_name) WHERE status = 'running';
+CREATE INDEX idx_audit_log_entity ON audit_log(entity_type, entity_id);
+CREATE INDEX idx_audit_log_actor ON audit_log(actor_id);
+CREATE INDEX idx_audit_log_created_at ON audit_log(created_at);
+CREATE INDEX idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+CREATE INDEX idx_refresh_tokens_family_id ON refresh_tokens(family_id);
+CREATE INDEX idx_password_reset_codes_user_id ON password_reset_codes(user_id);
+CREATE INDEX idx_login_failures_created_at ON login_failures(created_at);
+CREATE INDEX idx_login_failures_user_id ON login_failures(user_id);
+CREATE INDEX idx_login_failures_phone ON login_failures(phone);
+CREATE INDEX idx_pending_actions_status ON pending_actions(status);
+CREATE UNIQUE INDEX idx_pending_actions_open ON pending_actions(action_type, entity_id) WHERE status = 'pending';
 
 -- =============================================
 -- FUNCTIONS & TRIGGERS
 -- =============================================
 
--- Function: Get interest rate for a given multiplier
+-- Function: Get interest rate for a given multiplier (shared bracket set)
 CREATE OR REPLACE FUNCTION get_interest_rate(p_multiplier DECIMAL)
 RETURNS DECIMAL AS $$
 DECLARE
@@ -512,6 +790,7 @@ BEGIN
     SELECT interest_rate INTO v_rate
     FROM interest_brackets
     WHERE is_active = TRUE
+      AND product_id IS NULL
       AND p_multiplier > min_multiplier
       AND (max_multiplier IS NULL OR p_multiplier <= max_multiplier)
     LIMIT 1;
@@ -583,7 +862,9 @@ BEGIN
     SELECT setting_value::INT INTO v_max_loans
     FROM fund_settings WHERE setting_key = 'max_active_loans';
     
-    IF (SELECT COUNT(*) FROM loans WHERE user_id = NEW.user_id AND status = 'active') >= v_max_loans THEN
+    IF (SELECT COUNT(*) FROM loans
+        WHERE user_id = NEW.user_id
+          AND status IN ('requested', 'under_review', 'approved', 'active')) >= v_max_loans THEN
         RAISE EXCEPTION 'User already has maximum allowed active loans';
     END IF;
     RETURN NEW;
@@ -604,7 +885,7 @@ BEGIN
     SELECT setting_value::INT INTO v_multiple
     FROM fund_settings WHERE setting_key = 'deposit_multiple';
     
-    IF MOD(NEW.amount::INT, v_multiple) != 0 THEN
+    IF NEW.entry_type = 'deposit' AND MOD(NEW.amount::INT, v_multiple) != 0 THEN
         RAISE EXCEPTION 'Deposit must be in multiples of %', v_multiple;
     END IF;
     
@@ -629,6 +910,11 @@ DECLARE
     v_required_total DECIMAL;
     v_current_total DECIMAL;
 BEGIN
+    -- Offsets and other adjustments are not monthly contributions
+    IF NEW.entry_type <> 'deposit' THEN
+        RETURN NEW;
+    END IF;
+    
     SELECT setting_value::INT INTO v_min_deposit
     FROM fund_settings WHERE setting_key = 'min_monthly_deposit';
     
@@ -670,6 +956,20 @@ CREATE TRIGGER trg_update_users_timestamp
 CREATE TRIGGER trg_update_loans_timestamp
     BEFORE UPDATE ON loans FOR EACH ROW EXECUTE FUNCTION update_timestamp();
 
+-- Trigger: Audit log entries can be added but never changed or removed
+CREATE OR REPLACE FUNCTION prevent_audit_log_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_audit_log_no_update
+    BEFORE UPDATE OR DELETE ON audit_log FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_change();
+
+CREATE TRIGGER trg_audit_log_no_truncate
+    BEFORE TRUNCATE ON audit_log FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_log_change();
+
 -- Trigger: Update loan status when fully paid
 CREATE OR REPLACE FUNCTION check_loan_completion()
 RETURNS TRIGGER AS $$
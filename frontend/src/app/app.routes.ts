@@ -1,5 +1,5 @@
 import { Routes } from '@angular/router';
-import { authGuard, adminGuard, guestGuard } from './core/guards/auth.guard';
+import { authGuard, guestGuard, permissionGuard } from './core/guards/auth.guard';
 
 export const routes: Routes = [
   { path: '', redirectTo: 'dashboard', pathMatch: 'full' },
@@ -13,6 +13,16 @@ export const routes: Routes = [
     loadComponent: () => import('./pages/register/register').then(m => m.RegisterComponent),
     canActivate: [guestGuard]
   },
+  {
+    path: 'reset-password',
+    loadComponent: () => import('./pages/reset-password/reset-password').then(m => m.ResetPasswordComponent),
+    canActivate: [guestGuard]
+  },
+  {
+    path: 'change-password',
+    loadComponent: () => import('./pages/change-password/change-password').then(m => m.ChangePasswordComponent),
+    canActivate: [authGuard]
+  },
   {
     path: 'dashboard',
     loadComponent: () => import('./pages/dashboard/dashboard').then(m => m.DashboardComponent),
@@ -36,7 +46,9 @@ export const routes: Routes = [
   {
     path: 'admin',
     loadComponent: () => import('./pages/admin/admin').then(m => m.AdminComponent),
-    canActivate: [authGuard, adminGuard]
+    canActivate: [authGuard, permissionGuard(
+      'fund.view', 'members.view', 'members.approve', 'deposits.record', 'audit.view'
+    )]
   },
   { path: '**', redirectTo: 'dashboard' }
 ];
@@ -1,6 +1,7 @@
 import { inject } from '@angular/core';
 import { Router, CanActivateFn } from '@angular/router';
-import { AuthService } from '../services/auth.service';
+import { catchError, map, of } from 'rxjs';
+import { AuthService, Permission } from '../services/auth.service';
 
 export const authGuard: CanActivateFn = () => {
   const authService = inject(AuthService);
@@ -14,13 +15,22 @@ export const authGuard: CanActivateFn = () => {
   return false;
 };
 
-export const adminGuard: CanActivateFn = () => {
+// Allows the route when the user has any of the given permissions
+export const permissionGuard = (...permissions: Permission[]): CanActivateFn => () => {
   const authService = inject(AuthService);
   const router = inject(Router);
+  const allowed = () => permissions.some(permission => authService.can(permission));
 
-  if (authService.isAdmin()) {
+  if (allowed()) {
     return true;
   }
+  // Users stored before permissions were sent with the profile need one reload
+  if (authService.isLoggedIn() && !authService.user()?.permissions) {
+    return authService.refreshUser().pipe(
+      map(() => allowed() || router.createUrlTree(['/dashboard'])),
+      catchError(() => of(router.createUrlTree(['/dashboard'])))
+    );
+  }
   
   router.navigate(['/dashboard']);
   return false;
@@ -1,24 +1,40 @@
-import { HttpInterceptorFn, HttpErrorResponse } from '@angular/common/http';
+import { HttpInterceptorFn, HttpErrorResponse, HttpRequest } from '@angular/common/http';
 import { inject } from '@angular/core';
-import { catchError, throwError } from 'rxjs';
+import { catchError, switchMap, throwError } from 'rxjs';
 import { AuthService } from '../services/auth.service';
 
+// These never carry or refresh an access token
+const SESSION_ENDPOINTS = ['/auth/login', '/auth/refresh', '/auth/logout', '/auth/reset-password'];
+
+function withToken(req: HttpRequest<unknown>, token: string | null) {
+  return token ? req.clone({ setHeaders: { Authorization: `Bearer ${token}` } }) : req;
+}
+
 export const authInterceptor: HttpInterceptorFn = (req, next) => {
   const authService = inject(AuthService);
-  const token = authService.token();
 
-  if (token) {
-    req = req.clone({
-      setHeaders: { Authorization: `Bearer ${token}` }
-    });
+  if (SESSION_ENDPOINTS.some(path => req.url.endsWith(path))) {
+    return next(req);
   }
 
-  return next(req).pipe(
+  return next(withToken(req, authService.token())).pipe(
     catchError((error: HttpErrorResponse) => {
-      if (error.status === 401) {
+      if (error.status !== 401 || !authService.token()) {
+        return throwError(() => error);
+      }
+      if (!authService.refreshToken()) {
         authService.logout();
+        return throwError(() => error);
       }
-      return throwError(() => error);
+
+      // The access token expired or was revoked: refresh once and retry the request
+      return authService.refreshSession().pipe(
+        catchError(refreshError => {
+          authService.logout();
+          return throwError(() => refreshError);
+        }),
+        switchMap(token => next(withToken(req, token)))
+      );
     })
   );
 };
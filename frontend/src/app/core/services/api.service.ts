@@ -1,6 +1,7 @@
 import { Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { environment } from '../../../environments/environment';
+import { Role } from './auth.service';
 
 export interface Deposit {
   id: string;
@@ -9,29 +10,116 @@ export interface Deposit {
   member_month: number;
   deposit_date: string;
   cumulative_total: number;
+  entry_type?: 'deposit' | 'loan_offset' | 'reversal' | 'correction';
+  corrects_deposit_id?: string | null;
+  correction_reason?: string | null;
+  in_finalized_snapshot?: boolean;
+  reversed_at?: string | null;
+  created_at?: string;
   users_deposits_user_idTousers?: { name: string; email: string };
 }
 
+export interface DepositCorrectionResult {
+  message: string;
+  flagged: boolean;
+  snapshots: { fund_month: number; month_year: string }[];
+}
+
 export interface DepositSummary {
   total_deposits: number;
   current_month: number;
   joined_at: string;
 }
 
+export type LoanStatus =
+  | 'requested' | 'under_review' | 'approved' | 'rejected'
+  | 'active' | 'completed' | 'defaulted';
+
+export type InterestMethod = 'reducing_balance' | 'flat' | 'daily_reducing';
+
+export const INTEREST_METHOD_LABELS: Record<InterestMethod, string> = {
+  reducing_balance: 'Reducing balance',
+  flat: 'Flat',
+  daily_reducing: 'Daily reducing'
+};
+
+export interface LoanProduct {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  min_tenure_months: number;
+  max_tenure_months: number;
+  default_tenure_months: number;
+  max_term_months: number;
+  max_pre_emi_days: number | null;
+  max_multiplier: number | null;
+  max_per_member: number;
+  interest_method: InterestMethod;
+  is_active: boolean;
+}
+
+export type GuaranteeStatus = 'pending' | 'accepted' | 'declined' | 'invoked';
+
+export interface LoanGuarantor {
+  id: string;
+  loan_id: string;
+  guarantor_id: string;
+  amount: number;
+  status: GuaranteeStatus;
+  responded_at: string | null;
+  offset_amount: number;
+  created_at?: string;
+  users?: { name: string; phone: string | null };
+}
+
+// A guarantee as the guarantor sees it
+export interface GuaranteeRequest extends LoanGuarantor {
+  loans: {
+    id: string;
+    principal_amount: number;
+    outstanding_principal: number;
+    status: LoanStatus;
+    tenure_months: number | null;
+    users_loans_user_idTousers: { name: string };
+    loan_products: { code: string; name: string } | null;
+  };
+}
+
 export interface Loan {
   id: string;
   user_id: string;
+  product_id?: string | null;
+  tenure_months?: number | null;
   principal_amount: number;
   interest_rate: number;
+  interest_method: InterestMethod;
   multiplier_at_disbursement: number;
-  disbursed_at: string;
+  disbursed_at: string | null;
   emi_start_date: string | null;
-  maturity_date: string;
+  maturity_date: string | null;
   outstanding_principal: number;
-  status: 'active' | 'completed' | 'defaulted';
+  status: LoanStatus;
+  approved_at?: string | null;
+  reviewed_at?: string | null;
+  rejection_reason?: string | null;
+  defaulted_at?: string | null;
+  deposit_offset_amount?: number;
+  written_off_amount?: number;
+  recovered_amount?: number;
+  created_at?: string;
   pre_emi_interest?: PreEmiInterest[];
   emi_schedule?: EmiSchedule[];
-  users_loans_user_idTousers?: { name: string; email: string };
+  superseded_emi_schedule?: EmiSchedule[];
+  users_loans_user_idTousers?: { name: string; email: string; phone?: string };
+  loan_products?: { code: string; name: string } | null;
+  loan_guarantors?: LoanGuarantor[];
+}
+
+export interface LoanDefaults {
+  missed_emis_required: number;
+  candidates: (Loan & { missed_emis: number })[];
+  defaulted: Loan[];
 }
 
 export interface PreEmiInterest {
@@ -43,6 +131,8 @@ export interface PreEmiInterest {
   interest_amount: number;
   is_paid: boolean;
   due_date: string;
+  penalty_amount?: number;
+  penalty_paid?: number;
 }
 
 export interface EmiSchedule {
@@ -55,24 +145,84 @@ export interface EmiSchedule {
   total_emi: number;
   outstanding_after: number;
   is_paid: boolean;
+  paid_amount?: number | null;
+  interest_paid?: number;
+  principal_paid?: number;
+  remaining_due: number;
+  schedule_version?: number;
+  superseded_at?: string | null;
+  penalty_amount?: number;
+  penalty_paid?: number;
+}
+
+export interface OverdueInfo {
+  days_overdue: number;
+  in_grace: boolean;
+  penalty_due: number;
+}
+
+export interface OverdueDues {
+  rules: { graceDays: number; type: 'none' | 'flat' | 'daily_percent'; flatAmount: number; dailyPercent: number; cap: number };
+  pre_emi_overdue: (PreEmiInterest & OverdueInfo)[];
+  emi_overdue: (EmiSchedule & OverdueInfo)[];
 }
 
+export type ReamortizeMode = 'reduce_tenure' | 'reduce_emi';
+
 export interface Eligibility {
   eligible: boolean;
   totalDeposits: number;
   totalPool: number;
   outstanding: number;
+  pending: number;
+  defaultedLoans?: number;
+  lockedAsGuarantor?: number;
+  guaranteed?: number;
+  guaranteeLimit?: number;
+  disbursableNow?: number;
   maxEligible: number;
   maxMultiplier: number;
+  productId?: string;
   activeLoans: number;
   maxActiveLoans: number;
   reason?: string;
 }
 
+export interface LoanSimulation {
+  eligible: boolean;
+  warnings: string[];
+  amount: number;
+  product: { id: string; code: string; name: string };
+  max_eligible: number;
+  guarantee_limit: number;
+  disbursable_now: number;
+  total_deposits: number;
+  multiplier: number;
+  interest_rate: number;
+  interest_method: InterestMethod;
+  bracket: InterestBracket | null;
+  pre_emi: { disbursement_date: string; emi_start_date: string; days: number; interest: number };
+  emi: number;
+  emi_months: number;
+  maturity_date: string;
+  schedule: {
+    emi_number: number;
+    due_date: string;
+    principal_component: number;
+    interest_component: number;
+    total_emi: number;
+    outstanding_after: number;
+  }[];
+  schedule_interest: number;
+  total_interest: number;
+  total_payable: number;
+}
+
 export interface DashboardStats {
   total_pool: number;
   total_loaned: number;
   available_balance: number;
+  disbursable_now: number;
   members: Record<string, number>;
   active_loans: number;
   pending_payments: number;
@@ -80,10 +230,13 @@ export interface DashboardStats {
 
 export interface InterestBracket {
   id: string;
+  // null for the shared set used by products without brackets of their own
+  product_id: string | null;
   min_multiplier: number;
   max_multiplier: number | null;
   interest_rate: number;
   is_active: boolean;
+  loan_products?: { code: string; name: string } | null;
 }
 
 export interface FundSetting {
@@ -142,6 +295,132 @@ export interface EmergencyFundTransaction {
   created_at: string;
 }
 
+export interface JobRun {
+  id: string;
+  job_name: string;
+  trigger: 'schedule' | 'manual';
+  scheduled_for: string;
+  status: 'running' | 'succeeded' | 'failed';
+  started_at: string;
+  finished_at: string | null;
+  result: any;
+  error: string | null;
+  instance_id: string | null;
+  users?: { name: string } | null;
+}
+
+export interface AuditEntry {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  before_data: any;
+  after_data: any;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+export interface LoginFailure {
+  id: string;
+  phone: string | null;
+  user_id: string | null;
+  reason: 'unknown_phone' | 'bad_password' | 'inactive' | 'locked';
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  users?: { name: string } | null;
+}
+
+export type PendingActionStatus = 'pending' | 'applying' | 'applied' | 'rejected' | 'cancelled' | 'failed';
+
+export interface PendingAction {
+  id: string;
+  action_type: 'loan.approve' | 'setting.update' | 'bracket.create' | 'bracket.update'
+    | 'product.create' | 'product.update' | 'user.purge';
+  entity_type: string;
+  entity_id: string | null;
+  payload: any;
+  summary: string;
+  status: PendingActionStatus;
+  requested_by: string;
+  requested_at: string;
+  decided_by: string | null;
+  decided_at: string | null;
+  decision_note: string | null;
+  result: any;
+  error: string | null;
+  users_pending_actions_requested_byTousers?: { name: string };
+  users_pending_actions_decided_byTousers?: { name: string } | null;
+}
+
+// Returned when a change was queued for a second admin instead of applied
+export interface QueuedAction {
+  message: string;
+  pending_action: PendingAction;
+}
+
+export interface LoginFailureFilters {
+  phone?: string;
+  user_id?: string;
+  reason?: string;
+  ip_address?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditFilters {
+  actor_id?: string;
+  action?: string;
+  entity_type?: string;
+  entity_id?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface BackgroundJob {
+  name: string;
+  description: string;
+  schedule: string;
+  next_run: string | null;
+  last_run: JobRun | null;
+}
+
+export interface DepositImportRow {
+  row: number;
+  phone: string | null;
+  name: string | null;
+  user_id: string | null;
+  member_name: string | null;
+  amount: number | null;
+  member_month: number | null;
+  deposit_date: string | null;
+  notes: string | null;
+  cumulative_total: number | null;
+  errors: string[];
+}
+
+export interface DepositImportPreview {
+  dry_run: boolean;
+  rows: DepositImportRow[];
+  summary: { rows: number; valid: number; invalid: number; members: number; total_amount: number };
+}
+
+export type ExportDataset = 'deposits' | 'loans' | 'emi_schedule' | 'payments'
+  | 'monthly_interest' | 'member_interest_shares' | 'emergency_fund_transactions';
+
+export interface ExportFilters {
+  from?: string;
+  to?: string;
+  user_id?: string;
+}
+
 @Injectable({ providedIn: 'root' })
 export class ApiService {
   private readonly apiUrl = environment.apiUrl;
@@ -165,10 +444,31 @@ export class ApiService {
     return this.http.post<Deposit>(`${this.apiUrl}/deposits`, data);
   }
 
+  correctDeposit(id: string, data: { amount?: number; member_month?: number; deposit_date?: string; reason: string }) {
+    return this.http.put<DepositCorrectionResult>(`${this.apiUrl}/deposits/${id}`, data);
+  }
+
+  reverseDeposit(id: string, reason: string) {
+    return this.http.post<DepositCorrectionResult>(`${this.apiUrl}/deposits/${id}/reverse`, { reason });
+  }
+
   recalculateDeposits(userId: string) {
     return this.http.post<{ message: string; updated: number; finalTotal: number }>(`${this.apiUrl}/deposits/recalculate/${userId}`, {});
   }
 
+  // Reports
+  downloadStatement(userId: string, from: string, to: string) {
+    return this.http.get(`${this.apiUrl}/reports/statement/${userId}`, { params: { from, to }, responseType: 'blob' });
+  }
+
+  downloadExport(dataset: ExportDataset, format: 'csv' | 'xlsx', filters: ExportFilters = {}) {
+    const params: Record<string, string> = { format };
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params[key] = value;
+    }
+    return this.http.get(`${this.apiUrl}/reports/export/${dataset}`, { params, responseType: 'blob' });
+  }
+
   // Loans
   getLoans() {
     return this.http.get<Loan[]>(`${this.apiUrl}/loans`);
@@ -178,15 +478,67 @@ export class ApiService {
     return this.http.get<Loan>(`${this.apiUrl}/loans/${id}`);
   }
 
-  getEligibility() {
-    return this.http.get<Eligibility>(`${this.apiUrl}/loans/eligibility`);
+  getLoanProducts() {
+    return this.http.get<LoanProduct[]>(`${this.apiUrl}/loans/products`);
+  }
+
+  getEligibility(productId?: string) {
+    const params: Record<string, string> = productId ? { product_id: productId } : {};
+    return this.http.get<Eligibility>(`${this.apiUrl}/loans/eligibility`, { params });
+  }
+
+  simulateLoan(input: { amount: number; product_id?: string; emi_months?: number; emi_start_date: string; disbursement_date?: string; guaranteed?: number }) {
+    return this.http.post<LoanSimulation>(`${this.apiUrl}/loans/simulate`, input);
+  }
+
+  requestLoan(data: {
+    amount: number; product_id?: string; tenure_months?: number; emi_start_date?: string;
+    guarantors?: { phone: string; amount: number }[];
+  }) {
+    return this.http.post<Loan>(`${this.apiUrl}/loans/request`, data);
+  }
+
+  getGuarantees() {
+    return this.http.get<GuaranteeRequest[]>(`${this.apiUrl}/loans/guarantees`);
+  }
+
+  respondToGuarantee(id: string, decision: 'accept' | 'decline') {
+    return this.http.post<{ message: string; guarantee: LoanGuarantor }>(`${this.apiUrl}/loans/guarantees/${id}/${decision}`, {});
+  }
+
+  getLoanQueue() {
+    return this.http.get<Loan[]>(`${this.apiUrl}/loans/queue`);
+  }
+
+  reviewLoan(id: string) {
+    return this.http.post<{ message: string; loan: Loan }>(`${this.apiUrl}/loans/${id}/review`, {});
+  }
+
+  approveLoan(id: string) {
+    return this.http.post<{ message: string; loan?: Loan; pending_action?: PendingAction }>(`${this.apiUrl}/loans/${id}/approve`, {});
+  }
+
+  rejectLoan(id: string, reason: string) {
+    return this.http.post<{ message: string; loan: Loan }>(`${this.apiUrl}/loans/${id}/reject`, { reason });
+  }
+
+  disburseLoan(id: string, disbursed_at?: string) {
+    return this.http.post<{ message: string; loan: Loan }>(`${this.apiUrl}/loans/${id}/disburse`, { disbursed_at });
   }
 
-  requestLoan(amount: number, emi_start_date?: string) {
-    return this.http.post<Loan>(`${this.apiUrl}/loans/request`, { amount, emi_start_date });
+  getLoanDefaults() {
+    return this.http.get<LoanDefaults>(`${this.apiUrl}/loans/defaults`);
   }
 
-  startEmi(loanId: string, emi_start_date: string, emi_months: number = 12) {
+  defaultLoan(id: string, offset_deposits: boolean, offset_guarantor_deposits = false, notes?: string) {
+    return this.http.post<{ message: string; loan: Loan }>(`${this.apiUrl}/loans/${id}/default`, { offset_deposits, offset_guarantor_deposits, notes });
+  }
+
+  recoverLoan(id: string, amount: number, payment_date?: string, notes?: string) {
+    return this.http.post(`${this.apiUrl}/loans/${id}/recover`, { amount, payment_date, notes });
+  }
+
+  startEmi(loanId: string, emi_start_date: string, emi_months?: number) {
     return this.http.post<Loan>(`${this.apiUrl}/loans/${loanId}/start-emi`, { emi_start_date, emi_months });
   }
 
@@ -195,16 +547,25 @@ export class ApiService {
     return this.http.get<{ pre_emi_dues: any[]; emi_dues: any[] }>(`${this.apiUrl}/payments/pending`);
   }
 
+  getOverdue(loanId?: string) {
+    const params: Record<string, string> = loanId ? { loan_id: loanId } : {};
+    return this.http.get<OverdueDues>(`${this.apiUrl}/payments/overdue`, { params });
+  }
+
+  assessPenalties() {
+    return this.http.post<{ emi: number; preEmi: number }>(`${this.apiUrl}/payments/overdue/assess`, {});
+  }
+
   payPreEmi(preEmiId: string, amount: number, payment_date: string) {
     return this.http.post(`${this.apiUrl}/payments/pre-emi/${preEmiId}`, { amount, payment_date });
   }
 
-  payEmi(emiId: string, amount: number, payment_date: string) {
-    return this.http.post(`${this.apiUrl}/payments/emi/${emiId}`, { amount, payment_date });
+  payEmi(emiId: string, amount: number, payment_date: string, excess?: 'next_emi' | 'prepayment') {
+    return this.http.post(`${this.apiUrl}/payments/emi/${emiId}`, { amount, payment_date, excess });
   }
 
-  prepay(loanId: string, amount: number, payment_date: string) {
-    return this.http.post(`${this.apiUrl}/payments/prepay/${loanId}`, { amount, payment_date });
+  prepay(loanId: string, amount: number, payment_date: string, reamortize?: ReamortizeMode) {
+    return this.http.post(`${this.apiUrl}/payments/prepay/${loanId}`, { amount, payment_date, reamortize });
   }
 
   // Admin
@@ -216,30 +577,94 @@ export class ApiService {
     return this.http.get<any[]>(`${this.apiUrl}/admin/members`);
   }
 
+  changeMemberRole(id: string, role: Role) {
+    return this.http.put<{ message: string; role: Role }>(`${this.apiUrl}/admin/members/${id}/role`, { role });
+  }
+
   getSettings() {
     return this.http.get<FundSetting[]>(`${this.apiUrl}/admin/settings`);
   }
 
   updateSetting(key: string, value: string) {
-    return this.http.put(`${this.apiUrl}/admin/settings/${key}`, { value });
+    return this.http.put<QueuedAction>(`${this.apiUrl}/admin/settings/${key}`, { value });
   }
 
   getInterestBrackets() {
     return this.http.get<InterestBracket[]>(`${this.apiUrl}/admin/interest-brackets`);
   }
 
-  createInterestBracket(data: { min_multiplier: number; max_multiplier?: number; interest_rate: number }) {
-    return this.http.post<InterestBracket>(`${this.apiUrl}/admin/interest-brackets`, data);
+  createInterestBracket(data: { product_id?: string; min_multiplier: number; max_multiplier?: number; interest_rate: number }) {
+    return this.http.post<QueuedAction>(`${this.apiUrl}/admin/interest-brackets`, data);
   }
 
   updateInterestBracket(id: string, data: Partial<InterestBracket>) {
-    return this.http.put<InterestBracket>(`${this.apiUrl}/admin/interest-brackets/${id}`, data);
+    return this.http.put<QueuedAction>(`${this.apiUrl}/admin/interest-brackets/${id}`, data);
+  }
+
+  getAdminLoanProducts() {
+    return this.http.get<LoanProduct[]>(`${this.apiUrl}/admin/loan-products`);
+  }
+
+  createLoanProduct(data: Omit<LoanProduct, 'id' | 'is_active'>) {
+    return this.http.post<QueuedAction>(`${this.apiUrl}/admin/loan-products`, data);
+  }
+
+  updateLoanProduct(id: string, data: Partial<Omit<LoanProduct, 'id' | 'code'>>) {
+    return this.http.put<QueuedAction>(`${this.apiUrl}/admin/loan-products/${id}`, data);
+  }
+
+  getPendingActions(status?: PendingActionStatus) {
+    const params: Record<string, string> = status ? { status } : {};
+    return this.http.get<PendingAction[]>(`${this.apiUrl}/admin/pending-actions`, { params });
+  }
+
+  decidePendingAction(id: string, decision: 'approve' | 'reject' | 'cancel', note?: string) {
+    return this.http.post<QueuedAction>(`${this.apiUrl}/admin/pending-actions/${id}/${decision}`, { note });
   }
 
   bulkImportDeposits(userId: string, deposits: { amount: number; member_month: number; deposit_date: string; notes?: string }[]) {
     return this.http.post<{ message: string; count: number }>(`${this.apiUrl}/admin/bulk-deposits`, { user_id: userId, deposits });
   }
 
+  uploadDepositFile(file: File, dryRun: boolean) {
+    const form = new FormData();
+    form.append('file', file);
+    form.append('dry_run', String(dryRun));
+    return this.http.post<DepositImportPreview & { message?: string; count?: number }>(`${this.apiUrl}/admin/bulk-deposits/upload`, form);
+  }
+
+  getAuditLog(filters: AuditFilters = {}) {
+    const params: Record<string, string> = {};
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== '') params[key] = String(value);
+    }
+    return this.http.get<{ total: number; entries: AuditEntry[] }>(`${this.apiUrl}/admin/audit`, { params });
+  }
+
+  getLoginFailures(filters: LoginFailureFilters = {}) {
+    const params: Record<string, string> = {};
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== '') params[key] = String(value);
+    }
+    return this.http.get<{ total: number; entries: LoginFailure[] }>(`${this.apiUrl}/admin/login-failures`, { params });
+  }
+
+  getJobs() {
+    return this.http.get<BackgroundJob[]>(`${this.apiUrl}/admin/jobs`);
+  }
+
+  getJobRuns(filters: { job?: string; status?: string; limit?: number } = {}) {
+    const params: Record<string, string> = {};
+    if (filters.job) params['job'] = filters.job;
+    if (filters.status) params['status'] = filters.status;
+    if (filters.limit) params['limit'] = String(filters.limit);
+    return this.http.get<JobRun[]>(`${this.apiUrl}/admin/jobs/runs`, { params });
+  }
+
+  runJob(name: string) {
+    return this.http.post<JobRun>(`${this.apiUrl}/admin/jobs/${name}/run`, {});
+  }
+
   // Interest Distribution
   getPoolSnapshots() {
     return this.http.get<PoolSnapshot[]>(`${this.apiUrl}/interest/snapshots`);
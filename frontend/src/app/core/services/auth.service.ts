@@ -1,20 +1,31 @@
 import { Injectable, signal, computed } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { Router } from '@angular/router';
+import { Observable, finalize, map, shareReplay, tap } from 'rxjs';
 import { environment } from '../../../environments/environment';
 
+export type Role = 'admin' | 'treasurer' | 'auditor' | 'secretary' | 'member';
+
+// Mirrors the backend's permission list (backend/src/lib/permissions.ts)
+export type Permission =
+  | 'fund.view' | 'members.view' | 'members.approve' | 'members.manage' | 'roles.assign'
+  | 'deposits.record' | 'payments.record' | 'loans.manage' | 'interest.manage'
+  | 'settings.manage' | 'jobs.run' | 'audit.view' | 'reports.export';
+
 export interface User {
   id: string;
   name: string;
   email: string;
   phone?: string;
-  role: 'admin' | 'member';
+  role: Role;
+  permissions?: Permission[];
   status?: string;
   joined_at?: string;
 }
 
 export interface LoginResponse {
   token: string;
+  refresh_token: string;
   user: User;
 }
 
@@ -24,11 +35,16 @@ export class AuthService {
   
   private userSignal = signal<User | null>(null);
   private tokenSignal = signal<string | null>(null);
+  private refreshTokenSignal = signal<string | null>(null);
+  private refreshInFlight: Observable<string> | null = null;
 
   user = this.userSignal.asReadonly();
   token = this.tokenSignal.asReadonly();
+  refreshToken = this.refreshTokenSignal.asReadonly();
   isLoggedIn = computed(() => !!this.tokenSignal());
-  isAdmin = computed(() => this.userSignal()?.role === 'admin');
+  permissions = computed(() => new Set(this.userSignal()?.permissions || []));
+  // Any permission beyond a regular member's
+  isStaff = computed(() => this.permissions().size > 0);
 
   constructor(private http: HttpClient, private router: Router) {
     this.loadFromStorage();
@@ -39,10 +55,18 @@ export class AuthService {
     const user = localStorage.getItem('user');
     if (token && user) {
       this.tokenSignal.set(token);
+      this.refreshTokenSignal.set(localStorage.getItem('refreshToken'));
       this.userSignal.set(JSON.parse(user));
     }
   }
 
+  private storeTokens(token: string, refreshToken: string) {
+    this.tokenSignal.set(token);
+    this.refreshTokenSignal.set(refreshToken);
+    localStorage.setItem('token', token);
+    localStorage.setItem('refreshToken', refreshToken);
+  }
+
   register(data: { name: string; phone: string; email?: string; password: string }) {
     return this.http.post<{ message: string; user: User }>(`${this.apiUrl}/register`, data);
   }
@@ -52,24 +76,73 @@ export class AuthService {
   }
 
   setSession(response: LoginResponse) {
-    this.tokenSignal.set(response.token);
+    this.storeTokens(response.token, response.refresh_token);
     this.userSignal.set(response.user);
-    localStorage.setItem('token', response.token);
     localStorage.setItem('user', JSON.stringify(response.user));
   }
 
+  // Swap the refresh token for a new pair. Concurrent callers share one request,
+  // since each refresh token can only be used once.
+  refreshSession(): Observable<string> {
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.http.post<{ token: string; refresh_token: string }>(
+        `${this.apiUrl}/refresh`, { refresh_token: this.refreshTokenSignal() }
+      ).pipe(
+        map(response => {
+          this.storeTokens(response.token, response.refresh_token);
+          return response.token;
+        }),
+        finalize(() => this.refreshInFlight = null),
+        shareReplay(1)
+      );
+    }
+    return this.refreshInFlight;
+  }
+
   logout() {
+    // End the session on the server too; the local session is cleared either way
+    const refreshToken = this.refreshTokenSignal();
+    if (refreshToken) {
+      this.http.post(`${this.apiUrl}/logout`, { refresh_token: refreshToken }).subscribe({ error: () => {} });
+    }
+
     this.tokenSignal.set(null);
+    this.refreshTokenSignal.set(null);
     this.userSignal.set(null);
     localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('user');
     this.router.navigate(['/login']);
   }
 
+  changePassword(currentPassword: string, newPassword: string) {
+    return this.http.post<{ message: string; other_sessions_ended: number }>(
+      `${this.apiUrl}/change-password`, { current_password: currentPassword, new_password: newPassword }
+    );
+  }
+
+  resetPassword(phone: string, code: string, newPassword: string) {
+    return this.http.post<{ message: string }>(`${this.apiUrl}/reset-password`, { phone, code, new_password: newPassword });
+  }
+
+  can(permission: Permission): boolean {
+    return this.permissions().has(permission);
+  }
+
   getMe() {
     return this.http.get<User>(`${this.apiUrl}/me`);
   }
 
+  // Reload the profile, e.g. to pick up a role change or permissions missing from an older login
+  refreshUser() {
+    return this.getMe().pipe(
+      tap(user => {
+        this.userSignal.set(user);
+        localStorage.setItem('user', JSON.stringify(user));
+      })
+    );
+  }
+
   getPendingUsers() {
     return this.http.get<User[]>(`${this.apiUrl}/pending`);
   }
@@ -90,6 +163,18 @@ export class AuthService {
     return this.http.delete<{ message: string }>(`${this.apiUrl}/admin/delete/${id}`);
   }
 
+  revokeSessions(id: string) {
+    return this.http.post<{ message: string; count: number }>(`${this.apiUrl}/admin/revoke-sessions/${id}`, {});
+  }
+
+  unlockUser(id: string) {
+    return this.http.post<{ message: string }>(`${this.apiUrl}/admin/unlock/${id}`, {});
+  }
+
+  issueResetCode(id: string) {
+    return this.http.post<{ message: string; channel: string; expires_at: string }>(`${this.apiUrl}/admin/reset-code/${id}`, {});
+  }
+
   purgeUser(id: string, confirmName: string) {
     return this.http.delete<{ message: string }>(`${this.apiUrl}/admin/purge/${id}`, { body: { confirmName } });
   }
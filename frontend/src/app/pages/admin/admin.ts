@@ -1,6 +1,6 @@
 import { Component, inject, signal, OnInit } from '@angular/core';
 import { FormsModule } from '@angular/forms';
-import { DatePipe, CurrencyPipe } from '@angular/common';
+import { DatePipe, CurrencyPipe, KeyValuePipe } from '@angular/common';
 import { MatCardModule } from '@angular/material/card';
 import { MatTabsModule } from '@angular/material/tabs';
 import { MatFormFieldModule } from '@angular/material/form-field';
@@ -16,8 +16,9 @@ import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { MatDialogModule } from '@angular/material/dialog';
 import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatExpansionModule } from '@angular/material/expansion';
-import { AuthService, User } from '../../core/services/auth.service';
-import { ApiService, InterestBracket, FundSetting, PoolSnapshot, MonthlyInterest, EmergencyFund } from '../../core/services/api.service';
+import { AuthService, Role, User } from '../../core/services/auth.service';
+import { ExportMenuComponent, ExportOption } from '../../shared/components/export-menu/export-menu';
+import { ApiService, InterestBracket, LoanProduct, FundSetting, PoolSnapshot, MonthlyInterest, EmergencyFund, Loan, LoanDefaults, DepositImportPreview, BackgroundJob, JobRun, AuditEntry, AuditFilters, LoginFailure, LoginFailureFilters, PendingAction, PendingActionStatus, InterestMethod, INTEREST_METHOD_LABELS } from '../../core/services/api.service';
 
 interface BulkDepositRow {
   amount: number;
@@ -30,35 +31,70 @@ interface BulkDepositRow {
   selector: 'app-admin',
   standalone: true,
   imports: [
-    FormsModule, DatePipe, CurrencyPipe, MatCardModule, MatTabsModule, MatFormFieldModule,
+    FormsModule, DatePipe, CurrencyPipe, KeyValuePipe, MatCardModule, MatTabsModule, MatFormFieldModule,
     MatInputModule, MatSelectModule, MatButtonModule, MatIconModule, MatTableModule,
     MatChipsModule, MatCheckboxModule, MatProgressSpinnerModule,
-    MatSnackBarModule, MatDialogModule, MatTooltipModule, MatExpansionModule
+    MatSnackBarModule, MatDialogModule, MatTooltipModule, MatExpansionModule, ExportMenuComponent
   ],
   templateUrl: './admin.html',
   styleUrl: './admin.scss'
 })
 export class AdminComponent implements OnInit {
-  private authService = inject(AuthService);
+  auth = inject(AuthService);
   private api = inject(ApiService);
   private snackBar = inject(MatSnackBar);
 
   pendingUsers = signal<User[]>([]);
+  loanQueue = signal<Loan[]>([]);
+  loanDefaults = signal<LoanDefaults | null>(null);
   members = signal<any[]>([]);
   settings = signal<FundSetting[]>([]);
   brackets = signal<InterestBracket[]>([]);
   editingBracket = signal<InterestBracket | null>(null);
-
-  memberColumns = ['name', 'email', 'phone', 'status', 'joined_at', 'actions'];
-  bracketColumns = ['min_multiplier', 'max_multiplier', 'interest_rate', 'is_active', 'actions'];
+  loanProducts = signal<LoanProduct[]>([]);
+  editingProduct = signal<LoanProduct | null>(null);
+
+  loanQueueColumns = ['member', 'amount', 'interest_rate', 'requested', 'status', 'actions'];
+  defaultCandidateColumns = ['member', 'outstanding', 'missed_emis', 'actions'];
+  defaultedColumns = ['member', 'defaulted_at', 'offset', 'written_off', 'recovered', 'actions'];
+  memberColumns = ['name', 'email', 'phone', 'status', 'role', 'joined_at', 'actions'];
+  readonly assignableRoles: Role[] = ['member', 'treasurer', 'auditor', 'secretary'];
+  // Table rows are untyped in the template, so the labels are looked up by plain string
+  readonly interestMethodLabels: Record<string, string> = INTEREST_METHOD_LABELS;
+  readonly interestMethods = Object.keys(INTEREST_METHOD_LABELS) as InterestMethod[];
+  bracketColumns = ['product', 'min_multiplier', 'max_multiplier', 'interest_rate', 'is_active', 'actions'];
+  productColumns = ['name', 'tenure', 'max_term_months', 'max_pre_emi_days', 'max_multiplier', 'max_per_member', 'interest_method', 'is_active', 'actions'];
   bulkDepositColumns = ['member_month', 'amount', 'deposit_date', 'notes', 'actions'];
 
-  newBracket = { min_multiplier: 0, max_multiplier: 0, interest_rate: 0 };
+  loanExports: ExportOption[] = [
+    { dataset: 'loans', label: 'Loans' },
+    { dataset: 'emi_schedule', label: 'EMI Schedule' },
+    { dataset: 'payments', label: 'Payments' }
+  ];
+  memberExports: ExportOption[] = [
+    { dataset: 'deposits', label: 'Deposits' },
+    { dataset: 'loans', label: 'Loans' },
+    { dataset: 'payments', label: 'Payments' },
+    { dataset: 'member_interest_shares', label: 'Interest Shares' }
+  ];
+  depositExports: ExportOption[] = [{ dataset: 'deposits', label: 'Deposits' }];
+  interestExports: ExportOption[] = [
+    { dataset: 'monthly_interest', label: 'Interest Entries' },
+    { dataset: 'member_interest_shares', label: 'Interest Shares' },
+    { dataset: 'emergency_fund_transactions', label: 'Emergency Fund' }
+  ];
+
+  newBracket = { product_id: null as string | null, min_multiplier: 0, max_multiplier: 0, interest_rate: 0 };
+  newProduct = this.emptyProduct();
 
   // Bulk deposit import
   selectedUserId = '';
   bulkDeposits = signal<BulkDepositRow[]>([]);
   bulkLoading = signal(false);
+  importFile: File | null = null;
+  importPreview = signal<DepositImportPreview | null>(null);
+  importLoading = signal(false);
+  importColumns = ['row', 'member', 'member_month', 'amount', 'deposit_date', 'cumulative_total', 'errors'];
 
   // Add member form
   newMember = { name: '', phone: '', email: '', password: '', joined_at: '' };
@@ -86,16 +122,63 @@ export class AdminComponent implements OnInit {
   interestLoading = signal(false);
   loans = signal<any[]>([]);
 
+  // Background jobs
+  jobs = signal<BackgroundJob[]>([]);
+  jobRuns = signal<JobRun[]>([]);
+  runningJob = signal<string | null>(null);
+  jobRunColumns = ['job_name', 'trigger', 'started_at', 'status', 'result'];
+
+  // Audit log
+  auditEntries = signal<AuditEntry[]>([]);
+  auditTotal = signal(0);
+  auditFilters: AuditFilters = { action: '', entity_type: '', from: '', to: '' };
+  auditOffset = signal(0);
+  readonly auditPageSize = 50;
+  auditColumns = ['created_at', 'actor', 'action', 'entity', 'changes', 'ip_address'];
+
+  // Failed logins
+  loginFailures = signal<LoginFailure[]>([]);
+  loginFailureTotal = signal(0);
+  loginFailureFilters: LoginFailureFilters = { phone: '', reason: '' };
+  loginFailureColumns = ['created_at', 'phone', 'member', 'reason', 'ip_address'];
+  readonly loginFailureReasons: Record<string, string> = {
+    unknown_phone: 'Unknown phone',
+    bad_password: 'Wrong password',
+    inactive: 'Inactive account',
+    locked: 'Account locked'
+  };
+
+  // Maker-checker queue
+  pendingActions = signal<PendingAction[]>([]);
+  pendingActionFilter: PendingActionStatus | '' = 'pending';
+  pendingActionColumns = ['requested_at', 'summary', 'requested_by', 'status', 'decided', 'actions'];
+
   ngOnInit() {
     this.loadData();
   }
 
+  // Only load what this user's permissions let them see
   loadData() {
-    this.authService.getPendingUsers().subscribe(data => this.pendingUsers.set(data));
-    this.api.getMembers().subscribe(data => this.members.set(data));
-    this.api.getSettings().subscribe(data => this.settings.set(data));
-    this.api.getInterestBrackets().subscribe(data => this.brackets.set(data));
-    this.loadInterestData();
+    if (this.auth.can('members.approve')) {
+      this.auth.getPendingUsers().subscribe(data => this.pendingUsers.set(data));
+    }
+    if (this.auth.can('members.view')) {
+      this.api.getMembers().subscribe(data => this.members.set(data));
+    }
+    if (this.auth.can('fund.view')) {
+      this.api.getLoanQueue().subscribe(data => this.loanQueue.set(data));
+      this.api.getLoanDefaults().subscribe(data => this.loanDefaults.set(data));
+      this.api.getSettings().subscribe(data => this.settings.set(data));
+      this.api.getInterestBrackets().subscribe(data => this.brackets.set(data));
+      this.api.getAdminLoanProducts().subscribe(data => this.loanProducts.set(data));
+      this.loadInterestData();
+      this.loadJobs();
+      this.loadPendingActions();
+    }
+    if (this.auth.can('audit.view')) {
+      this.loadAudit();
+      this.loadLoginFailures();
+    }
   }
 
   loadInterestData() {
@@ -106,8 +189,13 @@ export class AdminComponent implements OnInit {
     this.api.getLoans().subscribe(data => this.loans.set(data));
   }
 
+  loadJobs() {
+    this.api.getJobs().subscribe(data => this.jobs.set(data));
+    this.api.getJobRuns({ limit: 50 }).subscribe(data => this.jobRuns.set(data));
+  }
+
   approveUser(id: string) {
-    this.authService.approveUser(id).subscribe(() => {
+    this.auth.approveUser(id).subscribe(() => {
       this.snackBar.open('User approved successfully!', 'Close', { duration: 3000 });
       this.loadData();
     });
@@ -116,17 +204,217 @@ export class AdminComponent implements OnInit {
   rejectUser(id: string) {
     const reason = prompt('Rejection reason:');
     if (reason) {
-      this.authService.rejectUser(id, reason).subscribe(() => {
+      this.auth.rejectUser(id, reason).subscribe(() => {
         this.snackBar.open('User rejected', 'Close', { duration: 3000 });
         this.loadData();
       });
     }
   }
 
+  // Loan review queue
+  reviewLoan(loan: Loan) {
+    this.api.reviewLoan(loan.id).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.loadData();
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to review loan', 'Close', { duration: 5000 })
+    });
+  }
+
+  approveLoan(loan: Loan) {
+    this.api.approveLoan(loan.id).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.loadData();
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to approve loan', 'Close', { duration: 5000 })
+    });
+  }
+
+  rejectLoan(loan: Loan) {
+    const reason = prompt('Rejection reason:');
+    if (!reason) return;
+
+    this.api.rejectLoan(loan.id, reason).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.loadData();
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to reject loan', 'Close', { duration: 5000 })
+    });
+  }
+
+  disburseLoan(loan: Loan) {
+    const disbursedAt = prompt('Disbursement date (YYYY-MM-DD):', new Date().toISOString().split('T')[0]);
+    if (!disbursedAt) return;
+
+    this.api.disburseLoan(loan.id, disbursedAt).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.loadData();
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to disburse loan', 'Close', { duration: 5000 })
+    });
+  }
+
+  // Defaults and write-offs
+  markDefaulted(loan: Loan & { missed_emis: number }) {
+    const name = loan.users_loans_user_idTousers?.name;
+    if (!confirm(`Mark ${name}'s loan as defaulted after ${loan.missed_emis} missed EMIs?`)) return;
+    const offsetDeposits = confirm(`Offset ${name}'s deposits against the outstanding amount first? Cancel to charge the full amount to the emergency fund.`);
+    const guarantors = (loan.loan_guarantors || []).filter(g => g.status === 'accepted');
+    const offsetGuarantors = guarantors.length > 0 && confirm(
+      `Also offset the deposits pledged by ${guarantors.map(g => g.users?.name).join(', ')} (each up to their pledge)?`);
+
+    this.api.defaultLoan(loan.id, offsetDeposits, offsetGuarantors).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.loadData();
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to default loan', 'Close', { duration: 5000 })
+    });
+  }
+
+  unrecovered(loan: Loan) {
+    return Number(loan.written_off_amount || 0) - Number(loan.recovered_amount || 0);
+  }
+
+  recordRecovery(loan: Loan) {
+    const unrecovered = this.unrecovered(loan);
+    const amount = parseFloat(prompt(`Amount recovered (unrecovered: ${unrecovered}):`, String(unrecovered)) || '0');
+    if (!amount || amount <= 0) return;
+
+    this.api.recoverLoan(loan.id, amount).subscribe({
+      next: () => {
+        this.snackBar.open('Recovery recorded', 'Close', { duration: 3000 });
+        this.loadData();
+        this.loadInterestData();
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to record recovery', 'Close', { duration: 5000 })
+    });
+  }
+
+  // Background jobs
+  runJob(job: BackgroundJob) {
+    if (!confirm(`Run ${job.name} now?`)) return;
+
+    this.runningJob.set(job.name);
+    this.api.runJob(job.name).subscribe({
+      next: (run) => {
+        const message = run.status === 'succeeded' ? `${job.name} finished` : `${job.name} failed: ${run.error}`;
+        this.snackBar.open(message, 'Close', { duration: 5000 });
+        this.runningJob.set(null);
+        this.loadJobs();
+        this.loadInterestData();
+      },
+      error: (err) => {
+        this.snackBar.open(err.error?.error || 'Failed to run job', 'Close', { duration: 5000 });
+        this.runningJob.set(null);
+      }
+    });
+  }
+
+  describeJobResult(run: JobRun): string {
+    if (run.error) return run.error;
+    if (!run.result) return '';
+    if (run.result.skipped) return run.result.skipped;
+    if (Array.isArray(run.result.defaulters)) return `${run.result.defaulters.length} of ${run.result.checked} members behind`;
+    if (run.result.overdue_emis !== undefined) return `${run.result.overdue_emis} EMIs and ${run.result.overdue_pre_emis} pre-EMI dues overdue`;
+    if (run.result.fund_month !== undefined) return `Snapshot for ${run.result.month_year} created`;
+    return JSON.stringify(run.result);
+  }
+
+  // Maker-checker queue
+  loadPendingActions() {
+    this.api.getPendingActions(this.pendingActionFilter || undefined).subscribe({
+      next: (data) => this.pendingActions.set(data),
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to load pending approvals', 'Close', { duration: 5000 })
+    });
+  }
+
+  isOwnRequest(action: PendingAction) {
+    return action.requested_by === this.auth.user()?.id;
+  }
+
+  decideAction(action: PendingAction, decision: 'approve' | 'reject' | 'cancel') {
+    let note: string | undefined;
+    if (decision === 'approve') {
+      if (!confirm(`Approve and apply now?\n\n${action.summary}`)) return;
+    } else {
+      const input = prompt(decision === 'reject' ? 'Rejection reason:' : 'Reason for cancelling (optional):');
+      if (input === null || (decision === 'reject' && !input.trim())) return;
+      note = input;
+    }
+
+    this.api.decidePendingAction(action.id, decision, note).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.loadData();
+      },
+      error: (err) => {
+        this.snackBar.open(err.error?.error || `Failed to ${decision} request`, 'Close', { duration: 5000 });
+        this.loadPendingActions();
+      }
+    });
+  }
+
+  // Audit log
+  loadAudit(offset = 0) {
+    this.auditOffset.set(offset);
+    this.api.getAuditLog({ ...this.auditFilters, limit: this.auditPageSize, offset }).subscribe({
+      next: (data) => {
+        this.auditEntries.set(data.entries);
+        this.auditTotal.set(data.total);
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to load audit log', 'Close', { duration: 5000 })
+    });
+  }
+
+  clearAuditFilters() {
+    this.auditFilters = { action: '', entity_type: '', from: '', to: '' };
+    this.loadAudit();
+  }
+
+  loadLoginFailures() {
+    this.api.getLoginFailures({ ...this.loginFailureFilters, limit: 50 }).subscribe({
+      next: (data) => {
+        this.loginFailures.set(data.entries);
+        this.loginFailureTotal.set(data.total);
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to load login failures', 'Close', { duration: 5000 })
+    });
+  }
+
+  // One-line summary: changed fields for updates, key fields for creates
+  describeAuditChange(entry: AuditEntry): string {
+    const after = entry.after_data;
+    const before = entry.before_data;
+    if (Array.isArray(after)) return `${after.length} records`;
+    if (!after || typeof after !== 'object') {
+      return before ? 'Removed' : '';
+    }
+
+    const simple = (value: unknown) => value === null || typeof value !== 'object';
+    const keys = Object.keys(after).filter(key => key !== 'updated_at' && simple(after[key]));
+    const changed = before && typeof before === 'object'
+      ? keys.filter(key => String(before[key]) !== String(after[key]))
+      : keys;
+
+    const parts = changed.slice(0, 4).map(key =>
+      before && key in before ? `${key}: ${before[key]} → ${after[key]}` : `${key}: ${after[key]}`
+    );
+    if (changed.length > 4) parts.push(`+${changed.length - 4} more`);
+    return parts.join(', ');
+  }
+
   updateSetting(key: string, value: string) {
-    this.api.updateSetting(key, value).subscribe(() => {
-      this.snackBar.open('Setting updated!', 'Close', { duration: 3000 });
-      this.loadData();
+    this.api.updateSetting(key, value).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.loadData();
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to update setting', 'Close', { duration: 5000 })
     });
   }
 
@@ -143,27 +431,88 @@ export class AdminComponent implements OnInit {
     if (!bracket) return;
 
     this.api.updateInterestBracket(bracket.id, {
+      product_id: bracket.product_id,
       min_multiplier: bracket.min_multiplier,
       max_multiplier: bracket.max_multiplier || undefined,
       interest_rate: bracket.interest_rate,
       is_active: bracket.is_active
-    }).subscribe(() => {
-      this.snackBar.open('Bracket updated!', 'Close', { duration: 3000 });
-      this.editingBracket.set(null);
-      this.loadData();
+    }).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.editingBracket.set(null);
+        this.loadData();
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to update bracket', 'Close', { duration: 5000 })
     });
   }
 
   addBracket() {
     const data = {
+      product_id: this.newBracket.product_id || undefined,
       min_multiplier: this.newBracket.min_multiplier,
       max_multiplier: this.newBracket.max_multiplier || undefined,
       interest_rate: this.newBracket.interest_rate
     };
-    this.api.createInterestBracket(data).subscribe(() => {
-      this.snackBar.open('Bracket added!', 'Close', { duration: 3000 });
-      this.loadData();
-      this.newBracket = { min_multiplier: 0, max_multiplier: 0, interest_rate: 0 };
+    this.api.createInterestBracket(data).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.loadData();
+        this.newBracket = { product_id: null, min_multiplier: 0, max_multiplier: 0, interest_rate: 0 };
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to add bracket', 'Close', { duration: 5000 })
+    });
+  }
+
+  // Loan products
+  emptyProduct(): Omit<LoanProduct, 'id' | 'is_active'> {
+    return {
+      code: '', name: '', description: '',
+      min_tenure_months: 1, max_tenure_months: 12, default_tenure_months: 12, max_term_months: 12,
+      max_pre_emi_days: null, max_multiplier: null, max_per_member: 1, interest_method: 'reducing_balance'
+    };
+  }
+
+  editProduct(product: LoanProduct) {
+    this.editingProduct.set({ ...product });
+  }
+
+  cancelProductEdit() {
+    this.editingProduct.set(null);
+  }
+
+  saveProduct() {
+    const product = this.editingProduct();
+    if (!product) return;
+
+    const { id, code, ...changes } = product;
+    this.api.updateLoanProduct(id, {
+      ...changes,
+      // Blank limits mean "no limit"
+      max_pre_emi_days: changes.max_pre_emi_days ?? null,
+      max_multiplier: changes.max_multiplier || null
+    }).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.editingProduct.set(null);
+        this.loadData();
+      },
+      error: (err) => this.snackBar.open(err.error?.error || `Failed to update ${code}`, 'Close', { duration: 5000 })
+    });
+  }
+
+  addProduct() {
+    this.api.createLoanProduct({
+      ...this.newProduct,
+      description: this.newProduct.description || null,
+      max_pre_emi_days: this.newProduct.max_pre_emi_days ?? null,
+      max_multiplier: this.newProduct.max_multiplier || null
+    }).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.loadData();
+        this.newProduct = this.emptyProduct();
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to add loan product', 'Close', { duration: 5000 })
     });
   }
 
@@ -262,6 +611,54 @@ export class AdminComponent implements OnInit {
     });
   }
 
+  // File import: preview first (dry run), then commit the same file
+  onImportFileSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    this.importFile = input.files?.[0] || null;
+    this.importPreview.set(null);
+  }
+
+  previewImportFile() {
+    if (!this.importFile) {
+      this.snackBar.open('Please choose a CSV or Excel file', 'Close', { duration: 3000 });
+      return;
+    }
+
+    this.importLoading.set(true);
+    this.api.uploadDepositFile(this.importFile, true).subscribe({
+      next: (preview) => {
+        this.importPreview.set(preview);
+        this.importLoading.set(false);
+      },
+      error: (err) => {
+        this.snackBar.open(err.error?.error || 'Failed to read file', 'Close', { duration: 5000 });
+        this.importLoading.set(false);
+      }
+    });
+  }
+
+  commitImportFile() {
+    const preview = this.importPreview();
+    if (!this.importFile || !preview || preview.summary.invalid > 0) return;
+    if (!confirm(`Import ${preview.summary.valid} deposits for ${preview.summary.members} members?`)) return;
+
+    this.importLoading.set(true);
+    this.api.uploadDepositFile(this.importFile, false).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message || 'Deposits imported', 'Close', { duration: 5000 });
+        this.importPreview.set(null);
+        this.importFile = null;
+        this.importLoading.set(false);
+      },
+      error: (err) => {
+        // Rows can fail validation at commit time if deposits changed since the preview
+        if (err.error?.rows) this.importPreview.set(err.error);
+        this.snackBar.open(err.error?.error || 'Failed to import deposits', 'Close', { duration: 5000 });
+        this.importLoading.set(false);
+      }
+    });
+  }
+
   recalculateTotals() {
     if (!this.selectedUserId) {
       this.snackBar.open('Please select a member first', 'Close', { duration: 3000 });
@@ -287,7 +684,7 @@ export class AdminComponent implements OnInit {
 
     this.addMemberLoading.set(true);
 
-    this.authService.adminRegisterUser({
+    this.auth.adminRegisterUser({
       name: this.newMember.name,
       phone: this.newMember.phone,
       email: this.newMember.email || undefined,
@@ -307,12 +704,70 @@ export class AdminComponent implements OnInit {
     });
   }
 
+  revokeSessions(member: any) {
+    if (!confirm(`Sign ${member.name} out of every device? They will need to log in again.`)) {
+      return;
+    }
+
+    this.auth.revokeSessions(member.id).subscribe({
+      next: (result) => this.snackBar.open(result.message, 'Close', { duration: 3000 }),
+      error: (err) => {
+        this.snackBar.open(err.error?.error || 'Failed to revoke sessions', 'Close', { duration: 5000 });
+      }
+    });
+  }
+
+  changeRole(member: any, role: Role) {
+    this.api.changeMemberRole(member.id, role).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.api.getMembers().subscribe(data => this.members.set(data));
+      },
+      error: (err) => {
+        this.snackBar.open(err.error?.error || 'Failed to change role', 'Close', { duration: 5000 });
+        this.api.getMembers().subscribe(data => this.members.set(data));
+      }
+    });
+  }
+
+  isLocked(member: any): boolean {
+    return !!member.locked_until && new Date(member.locked_until) > new Date();
+  }
+
+  unlockMember(member: any) {
+    this.auth.unlockUser(member.id).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.api.getMembers().subscribe(data => this.members.set(data));
+      },
+      error: (err) => {
+        this.snackBar.open(err.error?.error || 'Failed to unlock account', 'Close', { duration: 5000 });
+      }
+    });
+  }
+
+  issueResetCode(member: any) {
+    if (!confirm(`Send ${member.name} a one-time password reset code?`)) {
+      return;
+    }
+
+    this.auth.issueResetCode(member.id).subscribe({
+      next: (result) => {
+        const expires = new Date(result.expires_at).toLocaleTimeString();
+        this.snackBar.open(`${result.message} (valid until ${expires})`, 'Close', { duration: 5000 });
+      },
+      error: (err) => {
+        this.snackBar.open(err.error?.error || 'Failed to issue reset code', 'Close', { duration: 5000 });
+      }
+    });
+  }
+
   deleteMember(member: any) {
     if (!confirm(`Are you sure you want to deactivate ${member.name}? They will no longer be able to login, but their deposit and loan records will be preserved.`)) {
       return;
     }
 
-    this.authService.deleteUser(member.id).subscribe({
+    this.auth.deleteUser(member.id).subscribe({
       next: (result) => {
         this.snackBar.open(result.message, 'Close', { duration: 3000 });
         this.loadData();
@@ -343,7 +798,7 @@ export class AdminComponent implements OnInit {
       return;
     }
 
-    this.authService.purgeUser(member.id, confirmName).subscribe({
+    this.auth.purgeUser(member.id, confirmName).subscribe({
       next: (result) => {
         this.snackBar.open(result.message, 'Close', { duration: 5000 });
         this.loadData();
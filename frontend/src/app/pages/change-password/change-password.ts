@@ -0,0 +1,59 @@
+import { Component, inject, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { AuthService } from '../../core/services/auth.service';
+
+@Component({
+  selector: 'app-change-password',
+  standalone: true,
+  imports: [
+    FormsModule, RouterLink, MatCardModule, MatFormFieldModule,
+    MatInputModule, MatButtonModule, MatIconModule, MatProgressSpinnerModule
+  ],
+  templateUrl: './change-password.html',
+  styleUrl: './change-password.scss'
+})
+export class ChangePasswordComponent {
+  private authService = inject(AuthService);
+
+  currentPassword = '';
+  newPassword = '';
+  confirmPassword = '';
+  hidePassword = true;
+  loading = signal(false);
+  error = signal('');
+  success = signal('');
+
+  onSubmit() {
+    this.error.set('');
+    this.success.set('');
+    if (this.newPassword !== this.confirmPassword) {
+      this.error.set('Passwords do not match');
+      return;
+    }
+
+    this.loading.set(true);
+    this.authService.changePassword(this.currentPassword, this.newPassword).subscribe({
+      next: (response) => {
+        const others = response.other_sessions_ended;
+        this.success.set(others > 0
+          ? `Password changed. Signed out of ${others} other session(s).`
+          : 'Password changed.');
+        this.currentPassword = '';
+        this.newPassword = '';
+        this.confirmPassword = '';
+        this.loading.set(false);
+      },
+      error: (err) => {
+        this.error.set(err.error?.error || 'Failed to change password');
+        this.loading.set(false);
+      }
+    });
+  }
+}
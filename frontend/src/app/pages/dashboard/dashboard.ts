@@ -30,7 +30,7 @@ export class DashboardComponent implements OnInit {
     this.api.getDepositSummary().subscribe(data => this.depositSummary.set(data));
     this.api.getEligibility().subscribe(data => this.eligibility.set(data));
     
-    if (this.auth.isAdmin()) {
+    if (this.auth.can('fund.view')) {
       this.api.getDashboard().subscribe(data => this.adminStats.set(data));
     }
   }
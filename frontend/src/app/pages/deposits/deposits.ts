@@ -11,6 +11,7 @@ import { MatTableModule } from '@angular/material/table';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { MatExpansionModule } from '@angular/material/expansion';
+import { MatTooltipModule } from '@angular/material/tooltip';
 import { AuthService } from '../../core/services/auth.service';
 import { ApiService, Deposit } from '../../core/services/api.service';
 
@@ -28,7 +29,7 @@ interface GroupedDeposits {
   imports: [
     FormsModule, CurrencyPipe, DatePipe, MatCardModule, MatFormFieldModule,
     MatInputModule, MatSelectModule, MatButtonModule, MatIconModule,
-    MatTableModule, MatProgressSpinnerModule, MatSnackBarModule, MatExpansionModule
+    MatTableModule, MatProgressSpinnerModule, MatSnackBarModule, MatExpansionModule, MatTooltipModule
   ],
   templateUrl: './deposits.html',
   styleUrl: './deposits.scss'
@@ -43,6 +44,7 @@ export class DepositsComponent implements OnInit {
   loading = signal(false);
 
   displayedColumns = ['amount', 'member_month', 'deposit_date', 'cumulative_total'];
+  adminColumns = [...this.displayedColumns, 'actions'];
 
   newDeposit = {
     user_id: '',
@@ -51,6 +53,14 @@ export class DepositsComponent implements OnInit {
     deposit_date: new Date().toISOString().split('T')[0]
   };
 
+  // Statement download
+  statement = {
+    user_id: '',
+    from: new Date(new Date().getFullYear(), new Date().getMonth(), 1).toLocaleDateString('en-CA'),
+    to: new Date().toLocaleDateString('en-CA')
+  };
+  statementLoading = signal(false);
+
   // Computed signal to group deposits by user
   groupedDeposits = computed<GroupedDeposits[]>(() => {
     const deps = this.deposits();
@@ -77,7 +87,11 @@ export class DepositsComponent implements OnInit {
 
     // Sort deposits within each group by member_month desc and set latest cumulative
     for (const group of grouped.values()) {
-      group.deposits.sort((a, b) => b.member_month - a.member_month);
+      group.deposits.sort((a, b) =>
+        b.member_month - a.member_month
+        || b.deposit_date.localeCompare(a.deposit_date)
+        || (b.created_at || '').localeCompare(a.created_at || '')
+      );
       if (group.deposits.length > 0) {
         group.latestCumulative = Number(group.deposits[0].cumulative_total);
       }
@@ -89,7 +103,7 @@ export class DepositsComponent implements OnInit {
 
   ngOnInit() {
     this.loadDeposits();
-    if (this.auth.isAdmin()) {
+    if (this.auth.can('members.view')) {
       this.api.getMembers().subscribe(data => this.members.set(data));
     }
   }
@@ -98,6 +112,67 @@ export class DepositsComponent implements OnInit {
     this.api.getDeposits().subscribe(data => this.deposits.set(data));
   }
 
+  downloadStatement() {
+    const userId = this.auth.can('fund.view') ? this.statement.user_id : this.auth.user()?.id;
+    if (!userId) {
+      this.snackBar.open('Please select a member', 'Close', { duration: 3000 });
+      return;
+    }
+
+    this.statementLoading.set(true);
+    this.api.downloadStatement(userId, this.statement.from, this.statement.to).subscribe({
+      next: (blob) => {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `statement-${this.statement.from}-to-${this.statement.to}.pdf`;
+        link.click();
+        URL.revokeObjectURL(url);
+        this.statementLoading.set(false);
+      },
+      error: () => {
+        this.snackBar.open('Failed to download statement', 'Close', { duration: 5000 });
+        this.statementLoading.set(false);
+      }
+    });
+  }
+
+  canCorrect(deposit: Deposit) {
+    return !deposit.reversed_at && (deposit.entry_type === 'deposit' || deposit.entry_type === 'correction');
+  }
+
+  correctDeposit(deposit: Deposit) {
+    const amount = parseFloat(prompt('Correct amount:', String(Number(deposit.amount))) || '0');
+    if (!amount) return;
+    const memberMonth = parseInt(prompt('Member month:', String(deposit.member_month)) || '0');
+    if (!memberMonth) return;
+    const depositDate = prompt('Deposit date (YYYY-MM-DD):', deposit.deposit_date.split('T')[0]);
+    if (!depositDate) return;
+    const reason = prompt('Reason for the correction:');
+    if (!reason) return;
+
+    this.api.correctDeposit(deposit.id, { amount, member_month: memberMonth, deposit_date: depositDate, reason }).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: result.flagged ? 8000 : 3000 });
+        this.loadDeposits();
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to correct deposit', 'Close', { duration: 5000 })
+    });
+  }
+
+  reverseDeposit(deposit: Deposit) {
+    const reason = prompt(`Reverse the ${deposit.amount} deposit for month ${deposit.member_month}? Reason:`);
+    if (!reason) return;
+
+    this.api.reverseDeposit(deposit.id, reason).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: result.flagged ? 8000 : 3000 });
+        this.loadDeposits();
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to reverse deposit', 'Close', { duration: 5000 })
+    });
+  }
+
   onSubmit() {
     this.loading.set(true);
 
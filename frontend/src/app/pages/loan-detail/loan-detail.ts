@@ -1,4 +1,4 @@
-import { Component, inject, signal, OnInit } from '@angular/core';
+import { Component, computed, inject, signal, OnInit } from '@angular/core';
 import { ActivatedRoute, Router } from '@angular/router';
 import { FormsModule } from '@angular/forms';
 import { CurrencyPipe, DatePipe, UpperCasePipe } from '@angular/common';
@@ -10,8 +10,9 @@ import { MatIconModule } from '@angular/material/icon';
 import { MatTableModule } from '@angular/material/table';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSelectModule } from '@angular/material/select';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
-import { ApiService, Loan, PreEmiInterest, EmiSchedule } from '../../core/services/api.service';
+import { ApiService, Loan, PreEmiInterest, EmiSchedule, ReamortizeMode, OverdueDues, OverdueInfo, INTEREST_METHOD_LABELS } from '../../core/services/api.service';
 
 @Component({
   selector: 'app-loan-detail',
@@ -19,7 +20,7 @@ import { ApiService, Loan, PreEmiInterest, EmiSchedule } from '../../core/servic
   imports: [
     FormsModule, CurrencyPipe, DatePipe, UpperCasePipe, MatCardModule, MatFormFieldModule,
     MatInputModule, MatButtonModule, MatIconModule, MatTableModule,
-    MatChipsModule, MatProgressSpinnerModule, MatSnackBarModule
+    MatChipsModule, MatProgressSpinnerModule, MatSelectModule, MatSnackBarModule
   ],
   templateUrl: './loan-detail.html',
   styleUrl: './loan-detail.scss'
@@ -30,17 +31,30 @@ export class LoanDetailComponent implements OnInit {
   private api = inject(ApiService);
   private snackBar = inject(MatSnackBar);
 
+  readonly interestMethodLabels = INTEREST_METHOD_LABELS;
   loan = signal<Loan | null>(null);
   loading = signal(false);
+  overdue = signal<OverdueDues | null>(null);
+
+  // Overdue rows keyed by schedule id, so the tables can flag them
+  overdueById = computed(() => {
+    const dues = this.overdue();
+    const rows: (OverdueInfo & { id: string })[] = dues ? [...dues.pre_emi_overdue, ...dues.emi_overdue] : [];
+    return new Map(rows.map(row => [row.id, row]));
+  });
+  overdueCount = computed(() => [...this.overdueById().values()].filter(row => !row.in_grace).length);
 
   emiStartDate = new Date().toISOString().split('T')[0];
   emiMonths = 12;
   
   prepayAmount = 0;
   prepayDate = new Date().toISOString().split('T')[0];
+  prepayMode: ReamortizeMode = 'reduce_tenure';
 
+  guarantorColumns = ['name', 'amount', 'status', 'responded_at', 'offset'];
   preEmiColumns = ['period', 'days', 'amount', 'due_date', 'status', 'action'];
-  emiColumns = ['emi_number', 'due_date', 'principal', 'interest', 'total', 'outstanding', 'status', 'action'];
+  emiColumns = ['emi_number', 'due_date', 'principal', 'interest', 'total', 'remaining', 'outstanding', 'status', 'action'];
+  supersededColumns = ['version', 'emi_number', 'due_date', 'total', 'outstanding', 'superseded_at'];
 
   ngOnInit() {
     const id = this.route.snapshot.paramMap.get('id');
@@ -51,7 +65,13 @@ export class LoanDetailComponent implements OnInit {
 
   loadLoan(id: string) {
     this.api.getLoan(id).subscribe({
-      next: (data) => this.loan.set(data),
+      next: (data) => {
+        this.loan.set(data);
+        if (data.tenure_months) this.emiMonths = data.tenure_months;
+        if (data.status === 'active') {
+          this.api.getOverdue(id).subscribe({ next: (dues) => this.overdue.set(dues) });
+        }
+      },
       error: () => this.router.navigate(['/loans'])
     });
   }
@@ -81,7 +101,7 @@ export class LoanDetailComponent implements OnInit {
 
     this.loading.set(true);
 
-    this.api.prepay(loanId, this.prepayAmount, this.prepayDate).subscribe({
+    this.api.prepay(loanId, this.prepayAmount, this.prepayDate, this.prepayMode).subscribe({
       next: () => {
         this.snackBar.open('Prepayment recorded successfully!', 'Close', { duration: 3000 });
         this.loadLoan(loanId);
@@ -98,7 +118,9 @@ export class LoanDetailComponent implements OnInit {
   payPreEmi(preEmi: PreEmiInterest) {
     const today = new Date().toISOString().split('T')[0];
     
-    this.api.payPreEmi(preEmi.id, Number(preEmi.interest_amount), today).subscribe({
+    const penaltyDue = this.overdueById().get(preEmi.id)?.penalty_due || 0;
+
+    this.api.payPreEmi(preEmi.id, Math.round((Number(preEmi.interest_amount) + penaltyDue) * 100) / 100, today).subscribe({
       next: () => {
         this.snackBar.open('Pre-EMI interest paid!', 'Close', { duration: 3000 });
         this.loadLoan(this.loan()!.id);
@@ -109,12 +131,28 @@ export class LoanDetailComponent implements OnInit {
     });
   }
 
+  // Penalty already stored on the row and counted in remaining_due
+  private chargedPenalty(row: { penalty_amount?: number; penalty_paid?: number }) {
+    return Number(row.penalty_amount || 0) - Number(row.penalty_paid || 0);
+  }
+
   payEmi(emi: EmiSchedule) {
     const today = new Date().toISOString().split('T')[0];
-    
-    this.api.payEmi(emi.id, Number(emi.total_emi), today).subscribe({
+    const penaltyDue = this.overdueById().get(emi.id)?.penalty_due || 0;
+    const remainingDue = Math.round((Number(emi.remaining_due) + penaltyDue - this.chargedPenalty(emi)) * 100) / 100;
+
+    const amount = parseFloat(prompt(`Amount to pay (due: ${remainingDue}):`, String(remainingDue)) || '0');
+    if (!amount || amount <= 0) return;
+
+    // Anything beyond this EMI rolls into the next ones unless the member wants it off the principal
+    let excess: 'next_emi' | 'prepayment' | undefined;
+    if (amount > remainingDue) {
+      excess = confirm('Pay the extra towards the next EMIs? Cancel to treat it as a prepayment.') ? 'next_emi' : 'prepayment';
+    }
+
+    this.api.payEmi(emi.id, amount, today, excess).subscribe({
       next: () => {
-        this.snackBar.open('EMI paid successfully!', 'Close', { duration: 3000 });
+        this.snackBar.open(amount < remainingDue ? 'Partial EMI payment recorded!' : 'EMI paid successfully!', 'Close', { duration: 3000 });
         this.loadLoan(this.loan()!.id);
       },
       error: (err) => {
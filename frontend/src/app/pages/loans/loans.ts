@@ -1,25 +1,31 @@
-import { Component, inject, signal, OnInit } from '@angular/core';
+import { Component, computed, inject, signal, OnInit } from '@angular/core';
 import { FormsModule } from '@angular/forms';
 import { RouterLink } from '@angular/router';
 import { CurrencyPipe, DatePipe } from '@angular/common';
 import { MatCardModule } from '@angular/material/card';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { MatTableModule } from '@angular/material/table';
+import { MatExpansionModule } from '@angular/material/expansion';
+import { Subject, debounceTime, switchMap, catchError, of } from 'rxjs';
 import { AuthService } from '../../core/services/auth.service';
-import { ApiService, Loan, Eligibility } from '../../core/services/api.service';
+import {
+  ApiService, Loan, Eligibility, GuaranteeRequest, LoanProduct, LoanSimulation, INTEREST_METHOD_LABELS
+} from '../../core/services/api.service';
 
 @Component({
   selector: 'app-loans',
   standalone: true,
   imports: [
     FormsModule, RouterLink, CurrencyPipe, DatePipe, MatCardModule,
-    MatFormFieldModule, MatInputModule, MatButtonModule, MatIconModule,
-    MatChipsModule, MatProgressSpinnerModule, MatSnackBarModule
+    MatFormFieldModule, MatInputModule, MatSelectModule, MatButtonModule, MatIconModule,
+    MatChipsModule, MatProgressSpinnerModule, MatSnackBarModule, MatTableModule, MatExpansionModule
   ],
   templateUrl: './loans.html',
   styleUrl: './loans.scss'
@@ -30,30 +36,110 @@ export class LoansComponent implements OnInit {
   private snackBar = inject(MatSnackBar);
 
   loans = signal<Loan[]>([]);
+  queue = signal<Loan[]>([]);
   eligibility = signal<Eligibility | null>(null);
   loading = signal(false);
 
+  // Loan product the eligibility, request form and calculator are for
+  readonly interestMethodLabels = INTEREST_METHOD_LABELS;
+  products = signal<LoanProduct[]>([]);
+  productId = signal('');
+  product = computed(() => this.products().find(p => p.id === this.productId()) || null);
+
   loanAmount = 0;
+  tenureMonths = 12;
   emiStartDate = '';
+  // Members vouching for the application, by phone; their pledges raise the limit
+  guarantors: { phone: string; amount: number }[] = [];
+
+  // Guarantees other members have asked the current member for
+  guarantees = signal<GuaranteeRequest[]>([]);
+
+  // What-if calculator
+  simulation = signal<LoanSimulation | null>(null);
+  simulationError = signal('');
+  simulator = { amount: 0, emi_months: 12, emi_start_date: '' };
+  scheduleColumns = ['emi_number', 'due_date', 'principal', 'interest', 'total', 'outstanding'];
+  private simulate$ = new Subject<void>();
 
   ngOnInit() {
     this.loadData();
+
+    // Recalculate as the inputs change, keeping only the latest response
+    this.simulate$.pipe(
+      debounceTime(400),
+      switchMap(() => this.api.simulateLoan({
+        ...this.simulator,
+        product_id: this.productId() || undefined,
+        guaranteed: this.guaranteedTotal() || undefined
+      }).pipe(
+        catchError(err => {
+          this.simulationError.set(err.error?.error || 'Failed to simulate loan');
+          return of(null);
+        })
+      ))
+    ).subscribe(result => {
+      if (result) this.simulationError.set('');
+      this.simulation.set(result);
+    });
   }
 
   loadData() {
     this.api.getLoans().subscribe(data => this.loans.set(data));
-    this.api.getEligibility().subscribe(data => {
+    this.api.getGuarantees().subscribe(data => this.guarantees.set(data));
+    if (!this.products().length) {
+      this.api.getLoanProducts().subscribe(data => {
+        this.products.set(data);
+        const regular = data.find(p => p.code === 'regular') || data[0];
+        if (regular) this.selectProduct(regular.id);
+      });
+    } else {
+      this.loadEligibility();
+    }
+    if (this.auth.can('fund.view')) {
+      this.api.getLoanQueue().subscribe(data => this.queue.set(data));
+    }
+  }
+
+  loadEligibility() {
+    this.api.getEligibility(this.productId() || undefined).subscribe(data => {
       this.eligibility.set(data);
       this.loanAmount = data.maxEligible;
+      if (!this.simulator.amount) {
+        this.simulator.amount = data.maxEligible;
+      }
+      this.simulate();
     });
   }
 
+  // Switching product resets the tenures to its defaults; eligibility differs per product
+  selectProduct(id: string) {
+    this.productId.set(id);
+    const product = this.product();
+    if (product) {
+      this.tenureMonths = product.default_tenure_months;
+      this.simulator.emi_months = product.default_tenure_months;
+    }
+    this.simulator.amount = 0;
+    this.loadEligibility();
+  }
+
   requestLoan() {
     this.loading.set(true);
 
-    this.api.requestLoan(this.loanAmount, this.emiStartDate || undefined).subscribe({
+    this.api.requestLoan({
+      amount: this.loanAmount,
+      product_id: this.productId() || undefined,
+      tenure_months: this.tenureMonths,
+      emi_start_date: this.emiStartDate || undefined,
+      guarantors: this.guarantors.length ? this.guarantors : undefined
+    }).subscribe({
       next: () => {
-        this.snackBar.open('Loan requested successfully!', 'Close', { duration: 3000 });
+        const message = this.guarantors.length
+          ? 'Loan requested. Your guarantors need to accept it in the app.'
+          : 'Loan requested successfully!';
+        this.snackBar.open(message, 'Close', { duration: 3000 });
+        this.guarantors = [];
         this.loadData();
         this.loading.set(false);
       },
@@ -63,4 +149,101 @@ export class LoansComponent implements OnInit {
       }
     });
   }
+
+  addGuarantor() {
+    this.guarantors.push({ phone: '', amount: 0 });
+  }
+
+  removeGuarantor(index: number) {
+    this.guarantors.splice(index, 1);
+  }
+
+  guaranteedTotal() {
+    return this.guarantors.reduce((sum, g) => sum + (Number(g.amount) || 0), 0);
+  }
+
+  respondToGuarantee(guarantee: GuaranteeRequest, decision: 'accept' | 'decline') {
+    const borrower = guarantee.loans.users_loans_user_idTousers.name;
+    const question = decision === 'accept'
+      ? `Pledge ${guarantee.amount} of your deposits for ${borrower}'s loan? They stay locked until it is repaid, and can be used to cover it if ${borrower} defaults.`
+      : `Decline to guarantee ${borrower}'s loan?`;
+    if (!confirm(question)) return;
+
+    this.api.respondToGuarantee(guarantee.id, decision).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.loadData();
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to answer guarantee', 'Close', { duration: 5000 })
+    });
+  }
+
+  simulate() {
+    if (!this.simulator.emi_start_date) {
+      // Default to the first of next month so the calculator shows something straight away
+      const next = new Date();
+      next.setMonth(next.getMonth() + 1, 1);
+      this.simulator.emi_start_date = next.toISOString().split('T')[0];
+    }
+    if (!this.simulator.amount || this.simulator.amount <= 0 || !this.simulator.emi_months) {
+      this.simulation.set(null);
+      return;
+    }
+    this.simulate$.next();
+  }
+
+  // Copy the simulated amount, tenure and EMI start date into the application form
+  useSimulation() {
+    this.loanAmount = this.simulator.amount;
+    this.tenureMonths = this.simulator.emi_months;
+    this.emiStartDate = this.simulator.emi_start_date;
+    this.snackBar.open('Calculator values copied to the loan request', 'Close', { duration: 3000 });
+  }
+
+  // Review queue (admin)
+  reviewLoan(loan: Loan) {
+    this.api.reviewLoan(loan.id).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.loadData();
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to review loan', 'Close', { duration: 5000 })
+    });
+  }
+
+  approveLoan(loan: Loan) {
+    this.api.approveLoan(loan.id).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.loadData();
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to approve loan', 'Close', { duration: 5000 })
+    });
+  }
+
+  rejectLoan(loan: Loan) {
+    const reason = prompt('Rejection reason:');
+    if (!reason) return;
+
+    this.api.rejectLoan(loan.id, reason).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.loadData();
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to reject loan', 'Close', { duration: 5000 })
+    });
+  }
+
+  disburseLoan(loan: Loan) {
+    const name = loan.users_loans_user_idTousers?.name || 'this member';
+    if (!confirm(`Mark ${name}'s loan as paid out today? The loan becomes active.`)) return;
+
+    this.api.disburseLoan(loan.id).subscribe({
+      next: (result) => {
+        this.snackBar.open(result.message, 'Close', { duration: 3000 });
+        this.loadData();
+      },
+      error: (err) => this.snackBar.open(err.error?.error || 'Failed to disburse loan', 'Close', { duration: 5000 })
+    });
+  }
 }
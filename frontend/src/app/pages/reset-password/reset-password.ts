@@ -0,0 +1,54 @@
+import { Component, inject, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { AuthService } from '../../core/services/auth.service';
+
+@Component({
+  selector: 'app-reset-password',
+  standalone: true,
+  imports: [
+    FormsModule, RouterLink, MatCardModule, MatFormFieldModule,
+    MatInputModule, MatButtonModule, MatIconModule, MatProgressSpinnerModule
+  ],
+  templateUrl: './reset-password.html',
+  styleUrl: './reset-password.scss'
+})
+export class ResetPasswordComponent {
+  private authService = inject(AuthService);
+
+  phone = '';
+  code = '';
+  password = '';
+  confirmPassword = '';
+  hidePassword = true;
+  loading = signal(false);
+  error = signal('');
+  success = signal('');
+
+  onSubmit() {
+    this.error.set('');
+    this.success.set('');
+    if (this.password !== this.confirmPassword) {
+      this.error.set('Passwords do not match');
+      return;
+    }
+
+    this.loading.set(true);
+    this.authService.resetPassword(this.phone, this.code.trim(), this.password).subscribe({
+      next: (response) => {
+        this.success.set(response.message);
+        this.loading.set(false);
+      },
+      error: (err) => {
+        this.error.set(err.error?.error || 'Password reset failed');
+        this.loading.set(false);
+      }
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { Component, inject, input, signal } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatDividerModule } from '@angular/material/divider';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { ApiService, ExportDataset } from '../../../core/services/api.service';
+
+export interface ExportOption {
+  dataset: ExportDataset;
+  label: string;
+}
+
+@Component({
+  selector: 'app-export-menu',
+  standalone: true,
+  imports: [MatButtonModule, MatIconModule, MatMenuModule, MatDividerModule, MatSnackBarModule],
+  templateUrl: './export-menu.html',
+  styleUrl: './export-menu.scss'
+})
+export class ExportMenuComponent {
+  private api = inject(ApiService);
+  private snackBar = inject(MatSnackBar);
+
+  options = input.required<ExportOption[]>();
+  // Limit the export to one member's rows
+  userId = input<string | null>(null);
+  downloading = signal(false);
+
+  download(option: ExportOption, format: 'csv' | 'xlsx') {
+    const from = prompt('From date (YYYY-MM-DD, blank for all history):', '');
+    if (from === null) return;
+    const to = prompt('To date (YYYY-MM-DD, blank for today):', '');
+    if (to === null) return;
+
+    this.downloading.set(true);
+    this.api.downloadExport(option.dataset, format, {
+      from: from.trim(),
+      to: to.trim(),
+      user_id: this.userId() || undefined
+    }).subscribe({
+      next: (blob) => {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${option.dataset}-${new Date().toISOString().split('T')[0]}.${format}`;
+        link.click();
+        URL.revokeObjectURL(url);
+        this.downloading.set(false);
+      },
+      error: () => {
+        this.snackBar.open(`Failed to export ${option.label.toLowerCase()}`, 'Close', { duration: 5000 });
+        this.downloading.set(false);
+      }
+    });
+  }
+}